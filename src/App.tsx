@@ -6,6 +6,8 @@ import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { SignIn } from '@/pages/SignIn';
 import { Projects } from '@/pages/Projects';
 import VoiceForge from '@/pages/VoiceForge';
+import VoiceBatch from '@/pages/VoiceBatch';
+import Usage from '@/pages/Usage';
 import VideoForge from '@/pages/VideoForge';
 import NotFound from '@/pages/NotFound';
 import { Header } from '@/components/Header';
@@ -64,6 +66,14 @@ function AppContent() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/voiceforge/batch"
+          element={
+            <ProtectedRoute>
+              <VoiceBatch />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/videoforge"
           element={
@@ -72,6 +82,14 @@ function AppContent() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/usage"
+          element={
+            <ProtectedRoute>
+              <Usage />
+            </ProtectedRoute>
+          }
+        />
         <Route path="/" element={<Navigate to="/projects" replace />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Key, Eye, EyeOff, Check, AlertCircle, X } from 'lucide-react';
+import { Key, Eye, EyeOff, Check, AlertCircle, Loader2, Users, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -10,24 +10,23 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { ApiKeyStatus } from '@/types';
 
 interface APIKeyInputProps {
-  apiKey: string | null;
-  onSave: (key: string) => void;
+  keyStatus: ApiKeyStatus | null;
+  isLoading?: boolean;
+  onSave: (key: string) => Promise<void>; // rejects with the reason the key was refused
   onClear: () => void;
 }
 
-export function APIKeyInput({ apiKey, onSave, onClear }: APIKeyInputProps) {
+export function APIKeyInput({ keyStatus, isLoading = false, onSave, onClear }: APIKeyInputProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [inputKey, setInputKey] = useState('');
   const [showKey, setShowKey] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
 
-  const maskApiKey = (key: string) => {
-    if (key.length <= 8) return '••••••••';
-    return `••••••••${key.slice(-4)}`;
-  };
+  const maskApiKey = (status: ApiKeyStatus) => `••••••••${status.last4}`;
 
   const handleSave = async () => {
     if (!inputKey.trim()) {
@@ -35,22 +34,24 @@ export function APIKeyInput({ apiKey, onSave, onClear }: APIKeyInputProps) {
       return;
     }
 
+    if (!inputKey.trim().startsWith('xai-')) {
+      setValidationError('Invalid API key format. xAI keys start with "xai-"');
+      return;
+    }
+
     setIsValidating(true);
     setValidationError(null);
 
-    // Simple validation - just check format
-    // Real validation would test against the API
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    if (inputKey.startsWith('xai-') || inputKey.length > 20) {
-      onSave(inputKey.trim());
+    // The server checks the key can open a realtime session before storing it
+    try {
+      await onSave(inputKey.trim());
       setInputKey('');
       setIsOpen(false);
-    } else {
-      setValidationError('Invalid API key format');
+    } catch (error) {
+      setValidationError(error instanceof Error ? error.message : 'Failed to save API key');
+    } finally {
+      setIsValidating(false);
     }
-
-    setIsValidating(false);
   };
 
   return (
@@ -61,11 +62,11 @@ export function APIKeyInput({ apiKey, onSave, onClear }: APIKeyInputProps) {
           size="sm"
           className="gap-2 bg-secondary/50 border-border hover:bg-secondary"
         >
-          <Key className="w-4 h-4" />
-          {apiKey ? (
-            <span className="font-mono text-xs">{maskApiKey(apiKey)}</span>
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Key className="w-4 h-4" />}
+          {keyStatus ? (
+            <span className="font-mono text-xs">{maskApiKey(keyStatus)}</span>
           ) : (
-            <span>Add API Key</span>
+            <span>{isLoading ? 'Checking key...' : 'Add API Key'}</span>
           )}
         </Button>
       </DialogTrigger>
@@ -76,25 +77,37 @@ export function APIKeyInput({ apiKey, onSave, onClear }: APIKeyInputProps) {
             xAI API Key
           </DialogTitle>
           <DialogDescription>
-            Enter your xAI API key to generate voiceovers. Your key is stored locally in your browser.
+            Enter your xAI API key to generate voiceovers. It is checked with xAI, then stored encrypted
+            on the server for your workspace - it is never sent back to the browser.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4 pt-4">
-          {apiKey ? (
+          {keyStatus ? (
             <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 border border-border">
               <div className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-400" />
-                <span className="font-mono text-sm">{maskApiKey(apiKey)}</span>
+                {keyStatus.shared ? (
+                  <Users className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <Check className="w-4 h-4 text-green-400" />
+                )}
+                <span className="font-mono text-sm">{maskApiKey(keyStatus)}</span>
+                <span className="text-xs text-muted-foreground">
+                  {keyStatus.shared ? 'Shared by your workspace' : `Saved ${new Date(keyStatus.updatedAt).toLocaleDateString()}`}
+                </span>
               </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={onClear}
-                className="text-destructive hover:text-destructive hover:bg-destructive/10"
-              >
-                <X className="w-4 h-4" />
-              </Button>
+              {/* A workspace key can only be removed by its owner */}
+              {!keyStatus.shared && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onClear}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  title="Remove key"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           ) : null}
 
@@ -133,7 +146,7 @@ export function APIKeyInput({ apiKey, onSave, onClear }: APIKeyInputProps) {
               disabled={isValidating || !inputKey.trim()}
               className="flex-1 glow-button bg-primary text-primary-foreground hover:bg-primary/90"
             >
-              {isValidating ? 'Validating...' : apiKey ? 'Update Key' : 'Save Key'}
+              {isValidating ? 'Validating...' : keyStatus && !keyStatus.shared ? 'Update Key' : 'Save Key'}
             </Button>
           </div>
 
@@ -2,6 +2,8 @@ import { useState, useRef, useEffect } from 'react';
 import { Play, Pause, Download, Volume2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Waveform } from './Waveform';
+import { useWaveformPeaks } from '@/hooks/useWaveformPeaks';
+import { clearWaveformPeaks } from '@/services/waveformService';
 import { cn } from '@/lib/utils';
 
 interface AudioPlayerProps {
@@ -26,6 +28,7 @@ export function AudioPlayer({
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const peaks = useWaveformPeaks(audioUrl, audioUrl);
 
   useEffect(() => {
     const audio = audioRef.current;
@@ -57,6 +60,11 @@ export function AudioPlayer({
     setIsPlaying(false);
     setCurrentTime(0);
     setDuration(0);
+
+    // Each generation gets a fresh blob URL, so drop the old one's peaks
+    return () => {
+      if (audioUrl) clearWaveformPeaks(audioUrl);
+    };
   }, [audioUrl]);
 
   const toggle = () => {
@@ -97,6 +105,7 @@ export function AudioPlayer({
       <Waveform
         isPlaying={isPlaying}
         progress={progress}
+        peaks={peaks}
         onClick={handleSeek}
       />
 
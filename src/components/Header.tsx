@@ -10,7 +10,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { LogOut, FolderOpen, Video, Mic } from 'lucide-react';
+import { LogOut, FolderOpen, Video, Mic, BarChart3 } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { getProject } from '@/services/projectService';
 
@@ -136,6 +136,10 @@ export function Header() {
                 <FolderOpen className="mr-2 h-4 w-4" />
                 <span>My Projects</span>
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/usage')}>
+                <BarChart3 className="mr-2 h-4 w-4" />
+                <span>Usage</span>
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleSignOut}>
                 <LogOut className="mr-2 h-4 w-4" />
                 <span>Sign out</span>
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { BookA, ChevronDown, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PronunciationEntry } from '@/types';
+import { PronunciationInput } from '@/services/pronunciationService';
+import { cn } from '@/lib/utils';
+
+interface PronunciationPanelProps {
+  entries: PronunciationEntry[];
+  isLoading: boolean;
+  onAdd: (entry: PronunciationInput) => void;
+  onUpdate: (entry: PronunciationEntry, updates: PronunciationInput) => void;
+  onDelete: (entry: PronunciationEntry) => void;
+}
+
+export function PronunciationPanel({ entries, isLoading, onAdd, onUpdate, onDelete }: PronunciationPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [term, setTerm] = useState('');
+  const [respelling, setRespelling] = useState('');
+
+  const canAdd = term.trim().length > 0 && respelling.trim().length > 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onAdd({ term: term.trim(), respelling: respelling.trim() });
+    setTerm('');
+    setRespelling('');
+  };
+
+  // Save an edited field when it loses focus, ignoring blanks and no-ops
+  const commitEdit = (entry: PronunciationEntry, field: keyof PronunciationInput, value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed || trimmed === entry[field]) return;
+    onUpdate(entry, { term: entry.term, respelling: entry.respelling, [field]: trimmed });
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex items-center justify-between w-full py-2 text-muted-foreground hover:text-foreground transition-colors">
+        <div className="flex items-center gap-2">
+          <BookA className="w-4 h-4" />
+          <span className="text-sm font-medium">Pronunciations</span>
+          <span className="text-xs">({entries.length})</span>
+        </div>
+        <ChevronDown
+          className={cn('w-4 h-4 transition-transform', isOpen && 'rotate-180')}
+        />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="pt-4 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Shared with your workspace. Use a respelling like <span className="font-mono">NYE-kee</span> or
+          an IPA hint between slashes like <span className="font-mono">/ˈnaɪki/</span>.
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-2">
+                <Input
+                  defaultValue={entry.term}
+                  onBlur={(e) => commitEdit(entry, 'term', e.target.value)}
+                  className="h-8 text-sm"
+                />
+                <Input
+                  defaultValue={entry.respelling}
+                  onBlur={(e) => commitEdit(entry, 'respelling', e.target.value)}
+                  className="h-8 text-sm font-mono"
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="w-8 h-8 shrink-0 text-muted-foreground hover:text-destructive"
+                  onClick={() => onDelete(entry)}
+                  title="Delete pronunciation"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            placeholder="Term"
+            className="h-8 text-sm"
+          />
+          <Input
+            value={respelling}
+            onChange={(e) => setRespelling(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Say it as"
+            className="h-8 text-sm font-mono"
+          />
+          <Button
+            size="icon"
+            variant="outline"
+            className="w-8 h-8 shrink-0"
+            onClick={handleAdd}
+            disabled={!canAdd || isLoading}
+            title="Add pronunciation"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
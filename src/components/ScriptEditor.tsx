@@ -1,7 +1,7 @@
-import { useRef, useCallback, useEffect, useState } from 'react';
-import { countWords, countCharacters, highlightStyleTags } from '@/utils/styleTagProcessor';
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
+import { countWords, countCharacters, highlightStyleTags, lintScript } from '@/utils/styleTagProcessor';
 import { StyleTagBar } from './StyleTagBar';
-import { FileText, Clipboard, Upload } from 'lucide-react';
+import { FileText, Clipboard, Upload, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 
@@ -17,6 +17,15 @@ export function ScriptEditor({ script, onChange }: ScriptEditorProps) {
 
   const wordCount = countWords(script);
   const charCount = countCharacters(script);
+  const issues = useMemo(() => lintScript(script), [script]);
+
+  // Put the cursor on a tag problem
+  const selectIssue = useCallback((start: number, end: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+  }, []);
 
   const handleInsertTag = useCallback(
     (openTag: string, closeTag?: string) => {
@@ -152,6 +161,27 @@ export function ScriptEditor({ script, onChange }: ScriptEditorProps) {
         />
       </div>
 
+      {issues.length > 0 && (
+        <div className="rounded-lg border border-destructive/40 bg-destructive/5 px-3 py-2 space-y-1">
+          {issues.slice(0, 5).map((issue) => (
+            <button
+              key={`${issue.start}-${issue.message}`}
+              onClick={() => selectIssue(issue.start, issue.end)}
+              className="flex items-center gap-2 w-full text-left text-xs text-destructive hover:underline"
+            >
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              <span className="font-mono text-destructive/70">
+                Line {script.slice(0, issue.start).split('\n').length}
+              </span>
+              <span className="truncate">{issue.message}</span>
+            </button>
+          ))}
+          {issues.length > 5 && (
+            <p className="text-xs text-destructive/70">+{issues.length - 5} more tag problems</p>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between">
         <StyleTagBar onInsertTag={handleInsertTag} />
         <div className="flex items-center gap-4 text-sm text-muted-foreground">
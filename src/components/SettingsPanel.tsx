@@ -66,6 +66,27 @@ export function SettingsPanel({ settings, onChange }: SettingsPanelProps) {
           </div>
         </div>
 
+        {/* Gap between stitched chunks of long scripts */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm text-foreground">Chunk Gap</label>
+            <span className="text-sm font-mono text-primary">
+              {settings.chunkGap.toFixed(1)}s
+            </span>
+          </div>
+          <Slider
+            value={[settings.chunkGap]}
+            onValueChange={([value]) => onChange({ ...settings, chunkGap: value })}
+            min={0}
+            max={2}
+            step={0.1}
+            className="w-full"
+          />
+          <p className="text-xs text-muted-foreground">
+            Silence added where long scripts are split into parts
+          </p>
+        </div>
+
         {/* Format Selection */}
         <div className="space-y-2">
           <label className="text-sm text-foreground">Output Format</label>
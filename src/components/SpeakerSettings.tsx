@@ -0,0 +1,73 @@
+import { Users } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { QUICK_PRESETS } from '@/config/styleMixer';
+import { VOICES } from '@/utils/voices';
+import { SpeakerConfig, VoiceId } from '@/types';
+
+// Select can't hold an empty value, so "no preset" gets a placeholder id
+const NO_PRESET = 'none';
+
+interface SpeakerSettingsProps {
+  speakers: Record<string, SpeakerConfig>;
+  onChange: (speaker: string, config: SpeakerConfig) => void;
+}
+
+export function SpeakerSettings({ speakers, onChange }: SpeakerSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Users className="w-4 h-4 text-primary" />
+        <span className="text-sm font-medium">Speakers</span>
+      </div>
+
+      {Object.entries(speakers).map(([speaker, config]) => (
+        <div key={speaker} className="space-y-2">
+          <p className="text-sm font-mono style-tag-voice inline-block px-1 rounded">{speaker}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={config.voice}
+              onValueChange={(voice: VoiceId) => onChange(speaker, { ...config, voice })}
+            >
+              <SelectTrigger className="bg-background h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VOICES.map((voice) => (
+                  <SelectItem key={voice.id} value={voice.id}>
+                    {voice.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={config.presetId || NO_PRESET}
+              onValueChange={(value) => onChange(speaker, { ...config, presetId: value === NO_PRESET ? null : value })}
+            >
+              <SelectTrigger className="bg-background h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PRESET}>No preset</SelectItem>
+                {QUICK_PRESETS.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Unmarked lines use the voice and delivery style below
+      </p>
+    </div>
+  );
+}
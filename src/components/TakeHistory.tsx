@@ -0,0 +1,247 @@
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { History, Star, Pencil, RefreshCw, Trash2, Play, Pause, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { VoiceTake } from '@/types';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+type Slot = 'A' | 'B';
+
+interface TakeHistoryProps {
+  takes: VoiceTake[];
+  isLoading: boolean;
+  isGenerating: boolean;
+  getAudioUrl: (take: VoiceTake) => Promise<string>;
+  onRename: (take: VoiceTake, name: string) => void;
+  onToggleStar: (take: VoiceTake) => void;
+  onDelete: (take: VoiceTake) => void;
+  onRegenerate: (take: VoiceTake) => void;
+}
+
+function formatDuration(seconds?: number): string {
+  if (!seconds || !isFinite(seconds)) return '--:--';
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+export function TakeHistory({
+  takes,
+  isLoading,
+  isGenerating,
+  getAudioUrl,
+  onRename,
+  onToggleStar,
+  onDelete,
+  onRegenerate,
+}: TakeHistoryProps) {
+  const [slots, setSlots] = useState<Record<Slot, VoiceTake | null>>({ A: null, B: null });
+  const [slotUrls, setSlotUrls] = useState<Record<Slot, string | null>>({ A: null, B: null });
+  const [activeSlot, setActiveSlot] = useState<Slot>('A');
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const audioRefs = { A: useRef<HTMLAudioElement>(null), B: useRef<HTMLAudioElement>(null) };
+
+  // Starred takes first, then newest
+  const sortedTakes = useMemo(
+    () => [...takes].sort((a, b) => Number(b.starred) - Number(a.starred) || b.createdAt.localeCompare(a.createdAt)),
+    [takes]
+  );
+
+  // Drop deleted takes out of the compare slots
+  useEffect(() => {
+    setSlots(prev => ({
+      A: prev.A && takes.some(t => t.id === prev.A!.id) ? prev.A : null,
+      B: prev.B && takes.some(t => t.id === prev.B!.id) ? prev.B : null,
+    }));
+  }, [takes]);
+
+  const assignSlot = async (slot: Slot, take: VoiceTake) => {
+    if (slots[slot]?.id === take.id) {
+      audioRefs[slot].current?.pause();
+      setSlots(prev => ({ ...prev, [slot]: null }));
+      setSlotUrls(prev => ({ ...prev, [slot]: null }));
+      return;
+    }
+
+    try {
+      const url = await getAudioUrl(take);
+      audioRefs[slot].current?.pause();
+      setSlots(prev => ({ ...prev, [slot]: take }));
+      setSlotUrls(prev => ({ ...prev, [slot]: url }));
+      setActiveSlot(slot);
+      setIsPlaying(false);
+    } catch (error) {
+      console.error('[TakeHistory] Failed to load take audio:', error);
+      toast.error('Failed to load take audio');
+    }
+  };
+
+  const togglePlay = () => {
+    const audio = audioRefs[activeSlot].current;
+    if (!audio || !slotUrls[activeSlot]) return;
+    if (isPlaying) {
+      audio.pause();
+    } else {
+      audio.play();
+    }
+  };
+
+  // Switch sides at the same position so the two reads can be compared line for line
+  const switchSlot = (slot: Slot) => {
+    if (slot === activeSlot || !slotUrls[slot]) return;
+    const from = audioRefs[activeSlot].current;
+    const to = audioRefs[slot].current;
+    if (from && to) {
+      to.currentTime = Math.min(from.currentTime, isFinite(to.duration) ? to.duration : from.currentTime);
+      if (isPlaying) {
+        from.pause();
+        to.play();
+      }
+    }
+    setActiveSlot(slot);
+  };
+
+  const commitRename = (take: VoiceTake) => {
+    const name = editingName.trim();
+    if (name && name !== take.name) onRename(take, name);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-5 space-y-4">
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <History className="w-4 h-4" />
+        <span className="text-sm font-medium">Take History</span>
+        <span className="text-xs">({takes.length})</span>
+      </div>
+
+      {/* A/B compare player */}
+      {(slots.A || slots.B) && (
+        <div className="rounded-lg border border-border bg-background p-3 flex items-center gap-3">
+          {(['A', 'B'] as Slot[]).map(slot => (
+            <audio
+              key={slot}
+              ref={audioRefs[slot]}
+              src={slotUrls[slot] || undefined}
+              preload="metadata"
+              onPlay={() => slot === activeSlot && setIsPlaying(true)}
+              onPause={() => slot === activeSlot && setIsPlaying(false)}
+              onEnded={() => slot === activeSlot && setIsPlaying(false)}
+            />
+          ))}
+          <Button size="icon" onClick={togglePlay} className="w-9 h-9 rounded-full shrink-0">
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+          </Button>
+          <div className="flex gap-2 flex-1 min-w-0">
+            {(['A', 'B'] as Slot[]).map(slot => (
+              <button
+                key={slot}
+                onClick={() => switchSlot(slot)}
+                disabled={!slots[slot]}
+                className={cn(
+                  'flex-1 min-w-0 px-2 py-1.5 rounded-md border text-xs text-left truncate transition-colors',
+                  activeSlot === slot && slots[slot]
+                    ? 'border-primary bg-primary/10 text-foreground'
+                    : 'border-border text-muted-foreground hover:border-muted-foreground',
+                  !slots[slot] && 'opacity-50 cursor-not-allowed'
+                )}
+              >
+                <span className="font-semibold mr-1">{slot}</span>
+                {slots[slot]?.name || 'Pick a take'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      ) : sortedTakes.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          Generated takes will be kept here
+        </p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {sortedTakes.map(take => (
+            <div key={take.id} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+              <button onClick={() => onToggleStar(take)} title={take.starred ? 'Unstar' : 'Star'}>
+                <Star className={cn('w-4 h-4', take.starred ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground')} />
+              </button>
+
+              <div className="flex-1 min-w-0">
+                {editingId === take.id ? (
+                  <Input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={() => commitRename(take)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(take);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-7 text-sm"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      setEditingId(take.id);
+                      setEditingName(take.name);
+                    }}
+                    className="group flex items-center gap-1 text-sm font-medium truncate max-w-full"
+                  >
+                    <span className="truncate">{take.name}</span>
+                    <Pencil className="w-3 h-3 opacity-0 group-hover:opacity-50 shrink-0" />
+                  </button>
+                )}
+                <p className="text-xs text-muted-foreground truncate">
+                  {take.voice} · {formatDuration(take.duration)} · {take.settings.speed.toFixed(1)}x {take.format.toUpperCase()} · {new Date(take.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </div>
+
+              {(['A', 'B'] as Slot[]).map(slot => (
+                <button
+                  key={slot}
+                  onClick={() => assignSlot(slot, take)}
+                  title={`Compare as ${slot}`}
+                  className={cn(
+                    'w-6 h-6 rounded text-xs font-semibold border transition-colors',
+                    slots[slot]?.id === take.id
+                      ? 'border-primary bg-primary text-primary-foreground'
+                      : 'border-border text-muted-foreground hover:border-muted-foreground'
+                  )}
+                >
+                  {slot}
+                </button>
+              ))}
+
+              <Button
+                size="icon"
+                variant="ghost"
+                className="w-7 h-7"
+                onClick={() => onRegenerate(take)}
+                disabled={isGenerating}
+                title="Re-generate with the same settings"
+              >
+                <RefreshCw className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="w-7 h-7 text-muted-foreground hover:text-destructive"
+                onClick={() => onDelete(take)}
+                title="Delete take"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
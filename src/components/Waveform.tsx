@@ -1,21 +1,28 @@
 import { useMemo } from 'react';
 import { cn } from '@/lib/utils';
+import { getPeakBars, WaveformPeaks } from '@/services/waveformService';
+
+const BAR_COUNT = 80;
+
+// Bar height (%) for silence, and while peaks are still decoding
+const MIN_BAR_HEIGHT = 6;
 
 interface WaveformProps {
   isPlaying: boolean;
   progress: number; // 0 to 1
+  peaks?: WaveformPeaks | null;
   onClick?: (progress: number) => void;
 }
 
-export function Waveform({ isPlaying, progress, onClick }: WaveformProps) {
-  // Generate pseudo-random waveform bars
+export function Waveform({ isPlaying, progress, peaks, onClick }: WaveformProps) {
   const bars = useMemo(() => {
-    return Array.from({ length: 60 }, (_, i) => {
-      const seed = Math.sin(i * 12.9898) * 43758.5453;
-      const height = 20 + (seed - Math.floor(seed)) * 80;
-      return height;
-    });
-  }, []);
+    if (!peaks || peaks.maxPeak <= 0) {
+      return new Array<number>(BAR_COUNT).fill(MIN_BAR_HEIGHT);
+    }
+    return getPeakBars(peaks, 0, peaks.duration, BAR_COUNT).map(
+      peak => MIN_BAR_HEIGHT + (peak / peaks.maxPeak) * (100 - MIN_BAR_HEIGHT)
+    );
+  }, [peaks]);
 
   const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!onClick) return;
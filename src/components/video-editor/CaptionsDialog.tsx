@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Type } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CAPTION_STYLE_PRESETS, CaptionStyle, DEFAULT_CAPTION_STYLE } from '@/types/editor';
+import { DEFAULT_WORDS_PER_CAPTION } from '@/utils/captions';
+import { cn } from '@/lib/utils';
+
+export interface CaptionsRequest {
+  transcript: string;
+  style: CaptionStyle;
+  startTime: number;
+  duration: number;
+  wordsPerCaption: number;
+}
+
+interface CaptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Defaults are read once on mount - mount the dialog when opening it
+  defaultTranscript?: string;
+  defaultStartTime: number;
+  defaultDuration: number;
+  onCreate: (request: CaptionsRequest) => void;
+}
+
+export function CaptionsDialog({
+  open,
+  onOpenChange,
+  defaultTranscript = '',
+  defaultStartTime,
+  defaultDuration,
+  onCreate,
+}: CaptionsDialogProps) {
+  const [transcript, setTranscript] = useState(defaultTranscript);
+  const [style, setStyle] = useState<CaptionStyle>(DEFAULT_CAPTION_STYLE);
+  const [startTime, setStartTime] = useState(defaultStartTime);
+  const [duration, setDuration] = useState(defaultDuration);
+  const [wordsPerCaption, setWordsPerCaption] = useState(DEFAULT_WORDS_PER_CAPTION);
+
+  const canCreate = transcript.trim().length > 0 && duration > 0;
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    onCreate({ transcript, style, startTime, duration, wordsPerCaption });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Type className="w-5 h-5" />
+            Add Captions
+          </DialogTitle>
+          <DialogDescription>
+            Captions are split from the transcript and spread across the time range on a new captions track
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Transcript</Label>
+            <Textarea
+              value={transcript}
+              onChange={(e) => setTranscript(e.target.value)}
+              placeholder="Paste the voiceover script..."
+              rows={6}
+              className="resize-none"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label className="text-xs">Start (s)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.1}
+                value={startTime}
+                onChange={(e) => setStartTime(Math.max(0, Number(e.target.value)))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Duration (s)</Label>
+              <Input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={duration}
+                onChange={(e) => setDuration(Math.max(0, Number(e.target.value)))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-xs">Words per caption</Label>
+              <Input
+                type="number"
+                min={1}
+                max={12}
+                value={wordsPerCaption}
+                onChange={(e) => setWordsPerCaption(Math.max(1, Math.round(Number(e.target.value))))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Style</Label>
+            <div className="grid grid-cols-5 gap-2">
+              {Object.values(CAPTION_STYLE_PRESETS).map((preset) => (
+                <button
+                  key={preset.preset}
+                  onClick={() => setStyle(preset)}
+                  className={cn(
+                    'px-2 py-2 text-xs rounded-lg border capitalize transition-colors',
+                    style.preset === preset.preset
+                      ? 'border-primary bg-primary/10 text-foreground'
+                      : 'border-border text-muted-foreground hover:border-muted-foreground'
+                  )}
+                >
+                  {preset.preset}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-3">
+          <Button onClick={() => onOpenChange(false)} variant="outline" className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!canCreate} className="flex-1">
+            Add Captions
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,10 @@
 import { useEffect, useRef } from 'react';
-import { TimelineClip as TimelineClipType, MediaAsset, TransitionType } from '@/types/video-editor';
-import { Scissors, Volume2, Copy, Trash2, Music, Film, Sparkles, Check, ArrowLeft, ArrowRight, ZoomIn, ZoomOut, CircleDot } from 'lucide-react';
+import { TimelineClip as TimelineClipType, MediaAsset, TransitionType, KenBurnsEffect, CaptionData } from '@/types/video-editor';
+import { CAPTION_STYLE_PRESETS } from '@/types/editor';
+import { Scissors, Volume2, Copy, Trash2, Music, Film, Sparkles, Check, ArrowLeft, ArrowRight, ZoomIn, ZoomOut, CircleDot, Image as ImageIcon, Move, Type, Link2, Unlink2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
 
 interface ClipContextMenuProps {
   clip: TimelineClipType;
@@ -14,7 +16,11 @@ interface ClipContextMenuProps {
   onDelete?: (clipId: string) => void;
   onVolumeChange?: (clipId: string, volume?: number, speed?: number) => void;
   onSplitAtPlayhead?: (clipId: string) => void;
+  onLink?: () => void; // link the current selection, when it can be
+  onUnlink?: (clipId: string) => void;
   onTransitionChange?: (clipId: string, transition: TransitionType, duration?: number) => void;
+  onKenBurnsChange?: (clipId: string, effect: KenBurnsEffect) => void;
+  onCaptionChange?: (clipId: string, caption: CaptionData) => void;
 }
 
 export function ClipContextMenu({
@@ -27,12 +33,18 @@ export function ClipContextMenu({
   onDelete,
   onVolumeChange,
   onSplitAtPlayhead,
+  onLink,
+  onUnlink,
   onTransitionChange,
+  onKenBurnsChange,
+  onCaptionChange,
 }: ClipContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
   const hasAudio = asset?.type === 'video';
   const hasVolume = asset?.type === 'video' || asset?.type === 'audio';
   const hasVisual = asset?.type === 'video' || asset?.type === 'image';
+  const isImage = asset?.type === 'image';
+  const caption = clip.caption;
 
   const transitionOptions: { type: TransitionType; label: string; icon: React.ReactNode }[] = [
     { type: 'none', label: 'No Transition', icon: <Scissors className="w-4 h-4" /> },
@@ -44,6 +56,14 @@ export function ClipContextMenu({
     { type: 'zoom-out', label: 'Zoom Out', icon: <ZoomOut className="w-4 h-4" /> },
   ];
 
+  const kenBurnsOptions: { type: KenBurnsEffect; label: string; icon: React.ReactNode }[] = [
+    { type: 'none', label: 'None', icon: <ImageIcon className="w-4 h-4" /> },
+    { type: 'zoom-in', label: 'Zoom In', icon: <ZoomIn className="w-4 h-4" /> },
+    { type: 'zoom-out', label: 'Zoom Out', icon: <ZoomOut className="w-4 h-4" /> },
+    { type: 'pan-left', label: 'Pan Left', icon: <ArrowLeft className="w-4 h-4" /> },
+    { type: 'pan-right', label: 'Pan Right', icon: <ArrowRight className="w-4 h-4" /> },
+  ];
+
   // Close on click outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -104,7 +124,9 @@ export function ClipContextMenu({
         <div className="flex items-center gap-2">
           {asset?.type === 'video' && <Film className="w-4 h-4 text-purple-500" />}
           {asset?.type === 'audio' && <Music className="w-4 h-4 text-pink-500" />}
-          <span className="text-sm font-medium truncate">{asset?.name || 'Unknown'}</span>
+          {asset?.type === 'image' && <ImageIcon className="w-4 h-4 text-purple-400" />}
+          {caption && <Type className="w-4 h-4 text-amber-500" />}
+          <span className="text-sm font-medium truncate">{caption ? 'Caption' : asset?.name || 'Unknown'}</span>
         </div>
       </div>
 
@@ -132,34 +154,64 @@ export function ClipContextMenu({
         </div>
       )}
 
-      {/* Speed control (for all clip types) */}
-      <div className="px-4 py-3 border-b border-border/50">
-        <div className="flex items-center gap-3">
-          <svg className="w-4 h-4 text-muted-foreground shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-          </svg>
-          <div className="flex-1">
-            <div className="text-xs text-muted-foreground mb-2">
-              Speed: {(clip.speed ?? 1).toFixed(2)}x
-            </div>
-            <Slider
-              value={[(clip.speed ?? 1) * 100]}
-              min={25}
-              max={400}
-              step={5}
-              onValueChange={(values) => {
-                onVolumeChange?.(clip.id, undefined, values[0] / 100);
-              }}
-              className="w-full"
-            />
-            <div className="flex justify-between text-xs text-muted-foreground/60 mt-1">
-              <span>0.25x</span>
-              <span>1x</span>
-              <span>4x</span>
+      {/* Caption text and style (for caption clips) */}
+      {caption && onCaptionChange && (
+        <div className="px-4 py-3 border-b border-border/50 space-y-2">
+          <Textarea
+            value={caption.text}
+            onChange={(e) => onCaptionChange(clip.id, { ...caption, text: e.target.value })}
+            rows={2}
+            className="text-sm resize-none"
+          />
+          <div className="grid grid-cols-3 gap-1">
+            {Object.values(CAPTION_STYLE_PRESETS).map((preset) => (
+              <button
+                key={preset.preset}
+                onClick={() => onCaptionChange(clip.id, { ...caption, style: preset })}
+                className={cn(
+                  'px-2 py-1.5 text-xs rounded capitalize transition-colors',
+                  caption.style.preset === preset.preset
+                    ? 'bg-primary text-primary-foreground'
+                    : 'hover:bg-accent text-muted-foreground'
+                )}
+              >
+                {preset.preset}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Speed control (for media clips) */}
+      {!caption && (
+        <div className="px-4 py-3 border-b border-border/50">
+          <div className="flex items-center gap-3">
+            <svg className="w-4 h-4 text-muted-foreground shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+            </svg>
+            <div className="flex-1">
+              <div className="text-xs text-muted-foreground mb-2">
+                Speed: {(clip.speed ?? 1).toFixed(2)}x
+              </div>
+              <Slider
+                value={[(clip.speed ?? 1) * 100]}
+                min={25}
+                max={400}
+                step={5}
+                onValueChange={(values) => {
+                  onVolumeChange?.(clip.id, undefined, values[0] / 100);
+                }}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground/60 mt-1">
+                <span>0.25x</span>
+                <span>1x</span>
+                <span>4x</span>
+              </div>
             </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* Transitions (for video/image clips) */}
       {hasVisual && onTransitionChange && (
@@ -211,6 +263,37 @@ export function ClipContextMenu({
         </div>
       )}
 
+      {/* Ken Burns pan/zoom (for image clips) */}
+      {isImage && onKenBurnsChange && (
+        <div className="border-b border-border/50">
+          <div className="px-4 py-2 flex items-center gap-2">
+            <Move className="w-4 h-4 text-purple-400" />
+            <span className="text-xs font-medium text-muted-foreground">Ken Burns</span>
+          </div>
+          <div className="px-2 pb-2 grid grid-cols-2 gap-1">
+            {kenBurnsOptions.map((option) => {
+              const isSelected = (clip.kenBurns ?? 'none') === option.type;
+              return (
+                <button
+                  key={option.type}
+                  onClick={() => onKenBurnsChange(clip.id, option.type)}
+                  className={cn(
+                    'px-3 py-1.5 text-xs rounded flex items-center gap-2 transition-colors',
+                    isSelected
+                      ? 'bg-primary text-primary-foreground'
+                      : 'hover:bg-accent text-muted-foreground'
+                  )}
+                >
+                  {option.icon}
+                  <span>{option.label}</span>
+                  {isSelected && <Check className="w-3 h-3 ml-auto" />}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="py-1">
         {/* Split audio (only for video clips) */}
@@ -241,6 +324,33 @@ export function ClipContextMenu({
           </button>
         )}
 
+        {/* Link the selection / unlink this clip's group */}
+        {onLink && (
+          <button
+            onClick={() => handleAction(onLink)}
+            className={cn(
+              'w-full px-4 py-2 text-left text-sm flex items-center gap-3',
+              'hover:bg-accent transition-colors'
+            )}
+          >
+            <Link2 className="w-4 h-4" />
+            <span>Link Selected Clips</span>
+          </button>
+        )}
+
+        {onUnlink && (
+          <button
+            onClick={() => handleAction(() => onUnlink(clip.id))}
+            className={cn(
+              'w-full px-4 py-2 text-left text-sm flex items-center gap-3',
+              'hover:bg-accent transition-colors'
+            )}
+          >
+            <Unlink2 className="w-4 h-4" />
+            <span>Unlink Clips</span>
+          </button>
+        )}
+
         {/* Duplicate */}
         {onDuplicate && (
           <button
@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+import { MediaAsset, TimelineClip } from '@/types/video-editor';
+import { useWaveformPeaks } from '@/hooks/useWaveformPeaks';
+import { getPeakBars } from '@/services/waveformService';
+
+// Canvases wider than this are stretched rather than drawn at full size
+const MAX_CANVAS_WIDTH = 4096;
+
+// One bar every few pixels keeps pauses readable without turning into a solid block
+const BAR_SPACING = 3;
+
+interface ClipWaveformProps {
+  clip: TimelineClip;
+  asset: MediaAsset;
+  widthPx: number;
+  heightPx: number;
+  className?: string;
+}
+
+// Peaks of the part of the asset the clip actually plays, redrawn as the timeline zooms
+export function ClipWaveform({ clip, asset, widthPx, heightPx, className }: ClipWaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const peaks = useWaveformPeaks(asset.id, asset.src);
+
+  const speed = clip.speed ?? 1;
+  const sourceStart = clip.trimStart;
+  const sourceEnd = clip.trimStart + clip.duration * speed;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || peaks.maxPeak <= 0) return;
+
+    const width = Math.max(1, Math.min(MAX_CANVAS_WIDTH, Math.round(widthPx)));
+    canvas.width = width;
+    canvas.height = heightPx;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, heightPx);
+
+    const barCount = Math.max(1, Math.floor(width / BAR_SPACING));
+    const bars = getPeakBars(peaks, sourceStart, sourceEnd, barCount);
+    const barWidth = Math.max(1, width / barCount - 1);
+    const middle = heightPx / 2;
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+    bars.forEach((peak, i) => {
+      const barHeight = Math.max(1, (peak / peaks.maxPeak) * heightPx * 0.9);
+      ctx.fillRect(i * (width / barCount), middle - barHeight / 2, barWidth, barHeight);
+    });
+  }, [peaks, sourceStart, sourceEnd, widthPx, heightPx]);
+
+  if (!peaks) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      style={{ width: `${widthPx}px`, height: `${heightPx}px` }}
+    />
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Download, Film, Settings as SettingsIcon, Loader2 } from 'lucide-react';
+import { Download, Film, Settings as SettingsIcon, Loader2, Bookmark, Copy, AlertTriangle } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -12,9 +12,11 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
-import { AspectRatio, MediaAsset, TimelineClip } from '@/types/video-editor';
+import { AspectRatio, MediaAsset, TimelineClip, TimelineMarker } from '@/types/video-editor';
 import { cn } from '@/lib/utils';
 import { exportWithMediaRecorder } from '@/services/mediaRecorderExporter';
+import { toMarkerCsv, toMarkerEdl, toYouTubeChapters } from '@/utils/markerExport';
+import { toast } from 'sonner';
 
 interface ExportDialogProps {
   open: boolean;
@@ -24,11 +26,23 @@ interface ExportDialogProps {
   aspectRatio: AspectRatio;
   duration: number;
   trackSettings: Record<number, { volume: number; speed: number; visible: boolean; muted: boolean }>;
+  markers?: TimelineMarker[];
 }
 
 type ExportQuality = 'low' | 'medium' | 'high' | 'ultra';
 type ExportFormat = 'mp4' | 'webm' | 'mov';
 
+function downloadText(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 interface QualityPreset {
   label: string;
   description: string;
@@ -44,6 +58,7 @@ export function ExportDialog({
   aspectRatio,
   duration,
   trackSettings,
+  markers = [],
 }: ExportDialogProps) {
   const [quality, setQuality] = useState<ExportQuality>('high');
   const [format, setFormat] = useState<ExportFormat>('mp4');
@@ -255,6 +270,8 @@ export function ExportDialog({
     onOpenChange(false);
   };
 
+  const chapters = toYouTubeChapters(markers, duration);
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="max-w-2xl">
@@ -348,6 +365,59 @@ export function ExportDialog({
               </div>
             </div>
 
+            {/* Markers */}
+            {markers.length > 0 && (
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold flex items-center gap-2">
+                  <Bookmark className="w-4 h-4" />
+                  Markers ({markers.length})
+                </Label>
+                {chapters.warnings.length > 0 && (
+                  <div className="rounded-lg bg-yellow-500/10 border border-yellow-500/30 p-3 text-xs text-muted-foreground space-y-1">
+                    {chapters.warnings.map((warning, i) => (
+                      <p key={i} className="flex items-center gap-2">
+                        <AlertTriangle className="w-3.5 h-3.5 text-yellow-500 shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => {
+                      navigator.clipboard.writeText(chapters.text)
+                        .then(() => toast.success('YouTube chapters copied'))
+                        .catch(() => toast.error('Could not copy chapters'));
+                    }}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 gap-2"
+                  >
+                    <Copy className="w-4 h-4" />
+                    Copy YouTube Chapters
+                  </Button>
+                  <Button
+                    onClick={() => downloadText(toMarkerCsv(markers), `markers-${Date.now()}.csv`, 'text/csv')}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 gap-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    CSV
+                  </Button>
+                  <Button
+                    onClick={() => downloadText(toMarkerEdl(markers, 'Markers'), `markers-${Date.now()}.edl`, 'text/plain')}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 gap-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    EDL
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Error Message */}
             {errorMessage && (
               <div className="p-4 bg-destructive/20 border border-destructive rounded-lg">
@@ -0,0 +1,59 @@
+import { FolderOpen, History } from 'lucide-react';
+import { HistoryEntry, MAX_HISTORY_ENTRIES } from '@/utils/editorHistory';
+import { cn } from '@/lib/utils';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number; // number of entries applied
+  onJump: (index: number) => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function HistoryPanel({ entries, currentIndex, onJump }: HistoryPanelProps) {
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[300px] text-center p-4">
+        <History className="w-12 h-12 text-muted-foreground/50 mb-3" />
+        <p className="text-sm font-medium text-foreground mb-1">No edits yet</p>
+        <p className="text-xs text-muted-foreground">
+          Edits to the timeline appear here. Click one to go back to it.
+        </p>
+      </div>
+    );
+  }
+
+  // Row i restores the state after the first i entries; row 0 is the state before any of them
+  const rows = [
+    { key: 'start', label: entries.length === MAX_HISTORY_ENTRIES ? 'Earlier edits' : 'Opened', time: null, index: 0 },
+    ...entries.map((entry, i) => ({ key: entry.id, label: entry.label, time: entry.timestamp, index: i + 1 })),
+  ];
+
+  return (
+    <div className="p-2 space-y-0.5">
+      {rows.map(row => (
+        <button
+          key={row.key}
+          onClick={() => onJump(row.index)}
+          className={cn(
+            'w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded-md text-left text-sm transition-colors',
+            row.index === currentIndex
+              ? 'bg-primary/15 text-foreground'
+              : 'hover:bg-accent/50',
+            row.index > currentIndex && 'text-muted-foreground/60'
+          )}
+        >
+          <span className="flex items-center gap-2 truncate">
+            {row.index === 0 && <FolderOpen className="w-3.5 h-3.5 shrink-0" />}
+            <span className="truncate">{row.label}</span>
+          </span>
+          {row.time !== null && (
+            <span className="text-xs text-muted-foreground tabular-nums shrink-0">{formatTime(row.time)}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Trash2 } from 'lucide-react';
+import { MarkerColor, TimelineMarker } from '@/types/video-editor';
+import { MARKER_COLORS } from '@/utils/markers';
+
+interface MarkerContextMenuProps {
+  marker: TimelineMarker;
+  position: { x: number; y: number };
+  onClose: () => void;
+  onUpdate: (updates: Partial<Omit<TimelineMarker, 'id'>>, label: string) => void;
+  onDelete: () => void;
+}
+
+export function MarkerContextMenu({
+  marker,
+  position,
+  onClose,
+  onUpdate,
+  onDelete,
+}: MarkerContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [label, setLabel] = useState(marker.label);
+  const [duration, setDuration] = useState(String(marker.duration ?? 0));
+
+  // Text fields commit on Enter or when they lose focus
+  const commitLabel = () => {
+    const trimmed = label.trim();
+    if (trimmed && trimmed !== marker.label) onUpdate({ label: trimmed }, 'Rename marker');
+  };
+
+  const commitDuration = () => {
+    const seconds = Math.max(0, Number(duration) || 0);
+    if (seconds !== (marker.duration ?? 0)) {
+      onUpdate({ duration: seconds || undefined }, seconds ? 'Set marker range' : 'Remove marker range');
+    }
+  };
+
+  // Close on click outside, committing the field being edited first. Escape closes without committing.
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        if (document.activeElement instanceof HTMLElement && menuRef.current.contains(document.activeElement)) {
+          document.activeElement.blur();
+        }
+        onClose();
+      }
+    };
+
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [onClose]);
+
+  // Adjust position to keep menu on screen
+  useEffect(() => {
+    if (menuRef.current) {
+      const rect = menuRef.current.getBoundingClientRect();
+      const menu = menuRef.current;
+
+      if (rect.right > window.innerWidth) {
+        menu.style.left = `${position.x - rect.width}px`;
+      }
+
+      if (rect.bottom > window.innerHeight) {
+        menu.style.top = `${position.y - rect.height}px`;
+      }
+    }
+  }, [position]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="fixed z-[100] min-w-[240px] bg-card border border-border rounded-lg shadow-2xl py-2"
+      style={{
+        left: `${position.x}px`,
+        top: `${position.y}px`,
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Label */}
+      <div className="px-4 py-2 border-b border-border/50 space-y-1">
+        <div className="text-xs text-muted-foreground">Label</div>
+        <Input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onBlur={commitLabel}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className="h-8 text-sm"
+          autoFocus
+        />
+      </div>
+
+      {/* Color */}
+      <div className="px-4 py-3 border-b border-border/50">
+        <div className="text-xs text-muted-foreground mb-2">Color</div>
+        <div className="flex gap-1.5">
+          {(Object.keys(MARKER_COLORS) as MarkerColor[]).map(color => (
+            <button
+              key={color}
+              title={color}
+              onClick={() => color !== marker.color && onUpdate({ color }, 'Change marker color')}
+              className={cn(
+                'w-5 h-5 rounded-full border-2 transition-transform hover:scale-110',
+                color === marker.color ? 'border-foreground' : 'border-transparent'
+              )}
+              style={{ backgroundColor: MARKER_COLORS[color] }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Range */}
+      <div className="px-4 py-3 border-b border-border/50 space-y-1">
+        <div className="text-xs text-muted-foreground">Range length in seconds (0 for a single point)</div>
+        <Input
+          type="number"
+          min={0}
+          step={0.5}
+          value={duration}
+          onChange={(e) => setDuration(e.target.value)}
+          onBlur={commitDuration}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          className="h-8 text-sm"
+        />
+      </div>
+
+      {/* Delete */}
+      <div className="pt-1">
+        <button
+          onClick={() => {
+            onDelete();
+            onClose();
+          }}
+          className={cn(
+            'w-full px-4 py-2 text-left text-sm flex items-center gap-3',
+            'hover:bg-destructive/10 text-destructive transition-colors'
+          )}
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>Delete Marker</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useMemo } from 'react';
 import { AspectRatio as AspectRatioType, MediaAsset, TimelineClip } from '@/types/video-editor';
 import { cn } from '@/lib/utils';
+import { compositeTransition, getActiveTransition, getOutgoingHoldDuration } from '@/utils/transitions';
+import { drawWithKenBurns } from '@/utils/kenBurns';
+import { drawCaption, isCaptionClip } from '@/utils/captions';
 
 // Multi-track Audio Manager - supports multiple simultaneous audio tracks
 // Key insight: Only start/stop on clip transitions, never sync time during playback
@@ -113,6 +116,37 @@ const AudioManager = {
   }
 };
 
+// Draw media in "cover" mode - fill entire canvas, may crop edges
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  media: CanvasImageSource,
+  mediaWidth: number,
+  mediaHeight: number,
+  canvasWidth: number,
+  canvasHeight: number
+) {
+  const mediaAspect = mediaWidth / mediaHeight;
+  const canvasAspect = canvasWidth / canvasHeight;
+
+  let drawWidth, drawHeight, drawX, drawY;
+
+  if (mediaAspect > canvasAspect) {
+    // Media is wider - fit to height, crop sides
+    drawHeight = canvasHeight;
+    drawWidth = canvasHeight * mediaAspect;
+    drawX = (canvasWidth - drawWidth) / 2;
+    drawY = 0;
+  } else {
+    // Media is taller - fit to width, crop top/bottom
+    drawWidth = canvasWidth;
+    drawHeight = canvasWidth / mediaAspect;
+    drawX = 0;
+    drawY = (canvasHeight - drawHeight) / 2;
+  }
+
+  ctx.drawImage(media, drawX, drawY, drawWidth, drawHeight);
+}
+
 interface PreviewCanvasProps {
   clips: TimelineClip[];
   assets: MediaAsset[];
@@ -126,7 +160,7 @@ interface PreviewCanvasProps {
 }
 
 export function PreviewCanvas({
-  clips,
+  clips: allClips,
   assets,
   playheadPosition,
   isPlaying,
@@ -136,6 +170,10 @@ export function PreviewCanvas({
   onDropFile,
   seekVersion = 0,
 }: PreviewCanvasProps) {
+  // Caption clips have no media - they are drawn over whatever media is showing
+  const clips = useMemo(() => allClips.filter(clip => !isCaptionClip(clip)), [allClips]);
+  const captionClips = useMemo(() => allClips.filter(isCaptionClip), [allClips]);
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const audioRefs = useRef<Map<string, HTMLAudioElement>>(new Map());
@@ -144,6 +182,10 @@ export function PreviewCanvas({
   const currentBlobUrlRef = useRef<string | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const imageCache = useRef<Map<string, HTMLImageElement>>(new Map());
+  // Last drawn frame of video clips that the next clip transitions out of (lastFrameKey -> snapshot)
+  const lastFrameCache = useRef<Map<string, HTMLCanvasElement>>(new Map());
+  // Last frames being (or already) grabbed because playback never reached them, by lastFrameKey
+  const lastFrameRequests = useRef<Set<string>>(new Set());
   const playheadPositionRef = useRef(playheadPosition);
   const lastSeekVersionRef = useRef(seekVersion);
   const currentVideoClipIdRef = useRef<string | null>(null);
@@ -173,6 +215,64 @@ export function PreviewCanvas({
     videoRef.current = video;
   }
 
+  // Playback speed of a clip: clip speed x track speed
+  const getEffectiveSpeed = useCallback(
+    (clip: TimelineClip) => (clip.speed ?? 1) * (trackSettings[clip.trackIndex]?.speed ?? 1),
+    [trackSettings]
+  );
+
+  // A clip's last frame depends on where its source ends, so trimming or retiming it gets a new key
+  const lastFrameKey = useCallback(
+    (clip: TimelineClip) => `${clip.id}:${clip.trimStart}:${clip.duration}:${getEffectiveSpeed(clip)}`,
+    [getEffectiveSpeed]
+  );
+
+  // Seeking or scrubbing into a transition skips the outgoing clip, so its last frame was never
+  // snapshotted. Grab it on a spare video element, then redraw.
+  const captureLastFrame = useCallback((clip: TimelineClip, asset: MediaAsset, onCaptured: () => void) => {
+    const key = lastFrameKey(clip);
+    if (lastFrameRequests.current.has(key)) return;
+    lastFrameRequests.current.add(key);
+
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    const blobUrl = asset.file ? URL.createObjectURL(asset.file) : null;
+    // Same source position the clip ends on in playback
+    const endTime = clip.trimStart + clip.duration * getEffectiveSpeed(clip);
+
+    const release = () => {
+      video.removeAttribute('src');
+      video.load();
+      if (blobUrl) URL.revokeObjectURL(blobUrl);
+    };
+
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.max(0, Math.min(endTime, video.duration) - 1 / 30);
+    };
+    video.onseeked = () => {
+      const canvas = canvasRef.current;
+      if (canvas && video.videoWidth > 0 && !lastFrameCache.current.has(key)) {
+        const snapshot = document.createElement('canvas');
+        snapshot.width = canvas.width;
+        snapshot.height = canvas.height;
+        const snapshotCtx = snapshot.getContext('2d');
+        if (snapshotCtx) {
+          drawCover(snapshotCtx, video, video.videoWidth, video.videoHeight, snapshot.width, snapshot.height);
+          lastFrameCache.current.set(key, snapshot);
+        }
+      }
+      release();
+      onCaptured();
+    };
+    // Forget the request so the next draw can try again
+    video.onerror = () => {
+      release();
+      lastFrameRequests.current.delete(key);
+    };
+    video.src = blobUrl ?? asset.src;
+  }, [lastFrameKey, getEffectiveSpeed]);
+
   // Draw frame to canvas - optimized for smooth playback
   // STABLE: Only depends on clips/assets, not playheadPosition
   const drawFrame = useCallback(() => {
@@ -198,6 +298,30 @@ export function PreviewCanvas({
     activeClips.sort((a, b) => a.trackIndex - b.trackIndex);
     const activeClip = activeClips[0];
 
+    // Captions on visible tracks at the playhead, drawn last so they sit on top
+    const activeCaptions = captionClips
+      .filter(clip => {
+        const trackSetting = trackSettings[clip.trackIndex] || { volume: 1, speed: 1, visible: true, muted: false };
+        return trackSetting.visible &&
+               currentPosition >= clip.startTime &&
+               currentPosition < clip.startTime + clip.duration;
+      })
+      .sort((a, b) => b.trackIndex - a.trackIndex);
+
+    const drawActiveCaptions = () => {
+      for (const clip of activeCaptions) {
+        drawCaption(ctx, canvas.width, canvas.height, clip.caption!, currentPosition - clip.startTime, clip.duration);
+      }
+    };
+
+    // Captions alone still get a black frame to sit on
+    if (!activeClip && activeCaptions.length > 0) {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      drawActiveCaptions();
+      return;
+    }
+
     // Only clear and show placeholder if there's NO visible clip
     if (!activeClip) {
       ctx.fillStyle = '#1a1a1a';
@@ -217,33 +341,71 @@ export function PreviewCanvas({
     ctx.fillStyle = '#000';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
+    // Outgoing side of a transition: cached image, or the snapshot of the video's last frame
+    const drawOutgoingClip = (clip: TimelineClip) => {
+      const outgoingAsset = assets.find(a => a.id === clip.assetId);
+      if (outgoingAsset?.type === 'image') {
+        const img = imageCache.current.get(outgoingAsset.src);
+        if (img && img.complete) {
+          // The outgoing clip has finished, so its Ken Burns move is at the end
+          drawWithKenBurns(ctx, canvas.width, canvas.height, clip.kenBurns, 1, () =>
+            drawCover(ctx, img, img.width, img.height, canvas.width, canvas.height)
+          );
+        }
+        return;
+      }
+      const snapshot = lastFrameCache.current.get(lastFrameKey(clip));
+      if (snapshot) {
+        ctx.drawImage(snapshot, 0, 0, canvas.width, canvas.height);
+      } else if (outgoingAsset?.type === 'video') {
+        captureLastFrame(clip, outgoingAsset, drawFrame);
+      }
+    };
+
+    // Draw the active clip, blending with the previous clip while its transition is running
+    const drawWithTransition = (drawIncoming: () => void) => {
+      const transition = getActiveTransition(activeClip, clips, currentPosition);
+      if (!transition) {
+        drawIncoming();
+        return;
+      }
+      const outgoing = transition.outgoing;
+      compositeTransition(
+        ctx,
+        canvas.width,
+        canvas.height,
+        transition.type,
+        transition.progress,
+        outgoing ? () => drawOutgoingClip(outgoing) : null,
+        drawIncoming
+      );
+    };
+
     // Handle video
     if (asset.type === 'video' && videoRef.current) {
       const video = videoRef.current;
 
       // Only draw if video has data ready (HAVE_CURRENT_DATA = 2)
       if (video.readyState >= 2 && video.videoWidth > 0 && video.videoHeight > 0) {
-        const videoAspect = video.videoWidth / video.videoHeight;
-        const canvasAspect = canvas.width / canvas.height;
-
-        let drawWidth, drawHeight, drawX, drawY;
-
-        // Use "cover" mode - fill entire canvas, may crop edges
-        if (videoAspect > canvasAspect) {
-          // Video is wider - fit to height, crop sides
-          drawHeight = canvas.height;
-          drawWidth = canvas.height * videoAspect;
-          drawX = (canvas.width - drawWidth) / 2;
-          drawY = 0;
-        } else {
-          // Video is taller - fit to width, crop top/bottom
-          drawWidth = canvas.width;
-          drawHeight = canvas.width / videoAspect;
-          drawX = 0;
-          drawY = (canvas.height - drawHeight) / 2;
+        drawWithTransition(() => drawCover(ctx, video, video.videoWidth, video.videoHeight, canvas.width, canvas.height));
+
+        // Keep the latest frame of clips that another clip transitions out of
+        if (getOutgoingHoldDuration(activeClip, clips) > 0) {
+          const key = lastFrameKey(activeClip);
+          let snapshot = lastFrameCache.current.get(key);
+          if (!snapshot) {
+            snapshot = document.createElement('canvas');
+            lastFrameCache.current.set(key, snapshot);
+          }
+          if (snapshot.width !== canvas.width || snapshot.height !== canvas.height) {
+            snapshot.width = canvas.width;
+            snapshot.height = canvas.height;
+          }
+          const snapshotCtx = snapshot.getContext('2d');
+          if (snapshotCtx) {
+            drawCover(snapshotCtx, video, video.videoWidth, video.videoHeight, snapshot.width, snapshot.height);
+          }
         }
-
-        ctx.drawImage(video, drawX, drawY, drawWidth, drawHeight);
       } else {
         // Video not ready yet - show loading indicator
         ctx.fillStyle = '#333';
@@ -261,27 +423,12 @@ export function PreviewCanvas({
       const cachedImg = imageCache.current.get(asset.src);
 
       if (cachedImg && cachedImg.complete) {
-        const imgAspect = cachedImg.width / cachedImg.height;
-        const canvasAspect = canvas.width / canvas.height;
-
-        let drawWidth, drawHeight, drawX, drawY;
-
-        // Use "cover" mode - fill entire canvas, may crop edges
-        if (imgAspect > canvasAspect) {
-          // Image is wider - fit to height, crop sides
-          drawHeight = canvas.height;
-          drawWidth = canvas.height * imgAspect;
-          drawX = (canvas.width - drawWidth) / 2;
-          drawY = 0;
-        } else {
-          // Image is taller - fit to width, crop top/bottom
-          drawWidth = canvas.width;
-          drawHeight = canvas.width / imgAspect;
-          drawX = 0;
-          drawY = (canvas.height - drawHeight) / 2;
-        }
-
-        ctx.drawImage(cachedImg, drawX, drawY, drawWidth, drawHeight);
+        const progress = (currentPosition - activeClip.startTime) / activeClip.duration;
+        drawWithTransition(() =>
+          drawWithKenBurns(ctx, canvas.width, canvas.height, activeClip.kenBurns, progress, () =>
+            drawCover(ctx, cachedImg, cachedImg.width, cachedImg.height, canvas.width, canvas.height)
+          )
+        );
       } else if (!cachedImg) {
         // Load image and cache it
         const img = new Image();
@@ -327,7 +474,9 @@ export function PreviewCanvas({
       ctx.font = '18px sans-serif';
       ctx.fillText(asset.name, canvas.width / 2, canvas.height / 2 + 40);
     }
-  }, [clips, assets, trackSettings]); // STABLE: removed playheadPosition dependency
+
+    drawActiveCaptions();
+  }, [clips, captionClips, assets, trackSettings, captureLastFrame, lastFrameKey]); // STABLE: removed playheadPosition dependency
 
   // Handle explicit user seeks - sync video and audio to new position
   // This fires when seekVersion changes (user clicked timeline, dragged playhead, etc.)
@@ -885,8 +1034,24 @@ export function PreviewCanvas({
     };
   }, [isPlaying, drawFrame]);
 
+  // Drop frame snapshots of clips that were removed, trimmed or retimed
+  useEffect(() => {
+    const keys = new Set(clips.map(lastFrameKey));
+    lastFrameCache.current.forEach((_, key) => {
+      if (!keys.has(key)) {
+        lastFrameCache.current.delete(key);
+      }
+    });
+    lastFrameRequests.current.forEach(key => {
+      if (!keys.has(key)) {
+        lastFrameRequests.current.delete(key);
+      }
+    });
+  }, [clips, lastFrameKey]);
+
   // Cleanup
   useEffect(() => {
+    const frameCache = lastFrameCache.current;
     return () => {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
@@ -911,6 +1076,7 @@ export function PreviewCanvas({
         URL.revokeObjectURL(currentBlobUrlRef.current);
       }
       imageCache.current.clear();
+      frameCache.clear();
     };
   }, []);
 
@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { TimelineMarker } from '@/types/video-editor';
+import { cn } from '@/lib/utils';
+import { MARKER_COLORS } from '@/utils/markers';
+import { MarkerContextMenu } from './MarkerContextMenu';
+
+// Pixels the mouse has to travel before a press on a marker becomes a drag
+const DRAG_THRESHOLD = 3;
+
+interface RulerMarkerProps {
+  marker: TimelineMarker;
+  pixelsPerSecond: number;
+  onSeek: (time: number) => void;
+  onUpdate?: (markerId: string, updates: Partial<Omit<TimelineMarker, 'id'>>, label?: string) => void;
+  onRemove?: (markerId: string) => void;
+  onGestureStart?: (label: string) => void; // a drag begins - its updates undo as one step
+  onGestureEnd?: () => void;
+}
+
+// A marker on the time ruler: click to seek to it, drag to move it, right-click to edit it
+export function RulerMarker({
+  marker,
+  pixelsPerSecond,
+  onSeek,
+  onUpdate,
+  onRemove,
+  onGestureStart,
+  onGestureEnd,
+}: RulerMarkerProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+  const pressRef = useRef<{ x: number; time: number; moved: boolean } | null>(null);
+  const color = MARKER_COLORS[marker.color];
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    pressRef.current = { x: e.clientX, time: marker.time, moved: false };
+    setIsDragging(true);
+  };
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const press = pressRef.current;
+      if (!press || !onUpdate) return;
+
+      const deltaX = e.clientX - press.x;
+      if (!press.moved) {
+        if (Math.abs(deltaX) < DRAG_THRESHOLD) return;
+        press.moved = true;
+        onGestureStart?.('Move marker');
+      }
+      onUpdate(marker.id, { time: Math.max(0, press.time + deltaX / pixelsPerSecond) }, 'Move marker');
+    };
+
+    const handleMouseUp = () => {
+      const press = pressRef.current;
+      pressRef.current = null;
+      setIsDragging(false);
+      if (press?.moved) {
+        onGestureEnd?.();
+      } else if (press) {
+        onSeek(press.time);
+      }
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, marker.id, pixelsPerSecond, onUpdate, onSeek, onGestureStart, onGestureEnd]);
+
+  return (
+    <>
+      {/* Range band along the bottom of the ruler */}
+      {!!marker.duration && (
+        <div
+          className="absolute bottom-0 h-1.5 rounded-sm opacity-50 pointer-events-none"
+          style={{
+            left: `${marker.time * pixelsPerSecond}px`,
+            width: `${marker.duration * pixelsPerSecond}px`,
+            backgroundColor: color,
+          }}
+        />
+      )}
+
+      <div
+        className={cn(
+          'absolute bottom-0 z-10 flex items-end gap-1 select-none',
+          isDragging ? 'cursor-ew-resize' : 'cursor-pointer'
+        )}
+        style={{ left: `${marker.time * pixelsPerSecond}px` }}
+        title={marker.label}
+        onMouseDown={handleMouseDown}
+        onClick={(e) => e.stopPropagation()}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (onUpdate) setContextMenu({ x: e.clientX, y: e.clientY });
+        }}
+      >
+        {/* Pin: a line down to the ruler's edge, under a flag */}
+        <div className="relative -translate-x-1/2 flex flex-col items-center">
+          <div className="w-2.5 h-2.5 rounded-sm rotate-45 translate-y-1" style={{ backgroundColor: color }} />
+          <div className="w-0.5 h-3" style={{ backgroundColor: color }} />
+        </div>
+        <span className="mb-1 max-w-[120px] truncate text-[10px] font-medium text-foreground/90">
+          {marker.label}
+        </span>
+      </div>
+
+      {/* Portaled: the ruler's backdrop blur would otherwise position the fixed menu relative to the ruler */}
+      {contextMenu && onUpdate && createPortal(
+        <MarkerContextMenu
+          marker={marker}
+          position={contextMenu}
+          onClose={() => setContextMenu(null)}
+          onUpdate={(updates, label) => onUpdate(marker.id, updates, label)}
+          onDelete={() => onRemove?.(marker.id)}
+        />,
+        document.body
+      )}
+    </>
+  );
+}
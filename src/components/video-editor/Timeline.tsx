@@ -1,10 +1,11 @@
-import { useRef, useCallback, useEffect, useState } from 'react';
-import { TimelineClip, MediaAsset, AspectRatio } from '@/types/video-editor';
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
+import { TimelineClip, MediaAsset, AspectRatio, EditMode, Track, TrackKind, TimelineMarker } from '@/types/video-editor';
 import { TimelineTrack } from './TimelineTrack';
+import { RulerMarker } from './RulerMarker';
 import { Toolbar } from './Toolbar';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { ZoomIn, ZoomOut, Maximize2, Undo2, Redo2, Scissors, Copy, Clipboard, Trash2, Magnet, Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Plus, Download, Save } from 'lucide-react';
+import { ZoomIn, ZoomOut, Maximize2, Undo2, Redo2, Scissors, Copy, Clipboard, Trash2, Magnet, Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Plus, Download, Save, Type, Bookmark } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import {
@@ -12,8 +13,17 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
+import { DEFAULT_TRACK_SETTINGS, TRACK_KIND_LABELS, trackAccepts } from '@/utils/tracks';
+import { MARKER_COLORS, markerSnapTimes } from '@/utils/markers';
 import { ExportDialog } from './ExportDialog';
+import { CaptionsDialog, CaptionsRequest } from './CaptionsDialog';
 
 interface TimelineProps {
   clips: TimelineClip[];
@@ -31,10 +41,16 @@ interface TimelineProps {
   onDropAsset?: (asset: MediaAsset, trackIndex: number, timePosition: number) => void;
   onDropExternalFile?: (file: File, trackIndex: number, timePosition: number) => void;
   onDeselectAll?: () => void;
+  onGestureStart?: (label: string) => void; // clip drags/trims, so they undo as one step
+  onGestureEnd?: () => void;
+  onRippleTrimClip?: (clipId: string, updates: Pick<TimelineClip, 'duration' | 'trimStart'>) => void;
+  onRollEdit?: (clipId: string, side: 'left' | 'right', cutTime: number) => void;
   // Toolbar props
   canUndo?: boolean;
   canRedo?: boolean;
   snapEnabled?: boolean;
+  editMode?: EditMode;
+  rippleAllTracks?: boolean;
   onUndo?: () => void;
   onRedo?: () => void;
   onCopy?: () => void;
@@ -42,6 +58,8 @@ interface TimelineProps {
   onDelete?: () => void;
   onSplit?: () => void;
   onToggleSnap?: () => void;
+  onEditModeChange?: (mode: EditMode) => void;
+  onToggleRippleAllTracks?: () => void;
   // Transport controls props
   isPlaying?: boolean;
   volume?: number;
@@ -54,11 +72,25 @@ interface TimelineProps {
   onDuplicateClip?: (clipId: string) => void;
   onDeleteClip?: (clipId: string) => void;
   onSplitClipAtPlayhead?: (clipId: string) => void;
+  onLinkClips?: (clipIds: string[]) => void;
+  onUnlinkClip?: (clipId: string) => void;
+  tracks: Track[];
   trackSettings?: Record<number, { volume: number; speed: number; visible: boolean; muted: boolean }>;
   onTrackVolumeChange?: (trackIndex: number, volume: number) => void;
   onTrackSpeedChange?: (trackIndex: number, speed: number) => void;
   onTrackVisibleChange?: (trackIndex: number, visible: boolean) => void;
   onTrackMutedChange?: (trackIndex: number, muted: boolean) => void;
+  onAddTrack?: (kind: TrackKind, index?: number) => void;
+  onDeleteTrack?: (trackIndex: number) => void;
+  onMoveTrack?: (fromIndex: number, toIndex: number) => void;
+  onRenameTrack?: (trackIndex: number, name: string) => void;
+  onTrackLockedChange?: (trackIndex: number, locked: boolean) => void;
+  onTrackHeightChange?: (trackIndex: number, height: number) => void; // wrapped in onGestureStart/End while dragging
+  onAddCaptions?: (request: CaptionsRequest) => void;
+  markers?: TimelineMarker[];
+  onAddMarker?: () => void; // at the playhead
+  onUpdateMarker?: (markerId: string, updates: Partial<Omit<TimelineMarker, 'id'>>, label?: string) => void;
+  onRemoveMarker?: (markerId: string) => void;
   // Save status props
   projectId?: string;
   isSaving?: boolean;
@@ -99,9 +131,15 @@ export function Timeline({
   onDropAsset,
   onDropExternalFile,
   onDeselectAll,
+  onGestureStart,
+  onGestureEnd,
+  onRippleTrimClip,
+  onRollEdit,
   canUndo = false,
   canRedo = false,
   snapEnabled = false,
+  editMode = 'normal',
+  rippleAllTracks = false,
   onUndo,
   onRedo,
   onCopy,
@@ -109,6 +147,8 @@ export function Timeline({
   onDelete,
   onSplit,
   onToggleSnap,
+  onEditModeChange,
+  onToggleRippleAllTracks,
   isPlaying = false,
   volume = 1,
   onPlayPause,
@@ -119,11 +159,25 @@ export function Timeline({
   onDuplicateClip,
   onDeleteClip,
   onSplitClipAtPlayhead,
+  onLinkClips,
+  onUnlinkClip,
+  tracks,
   trackSettings = {},
   onTrackVolumeChange,
   onTrackSpeedChange,
   onTrackVisibleChange,
   onTrackMutedChange,
+  onAddTrack,
+  onDeleteTrack,
+  onMoveTrack,
+  onRenameTrack,
+  onTrackLockedChange,
+  onTrackHeightChange,
+  onAddCaptions,
+  markers = [],
+  onAddMarker,
+  onUpdateMarker,
+  onRemoveMarker,
   projectId,
   isSaving = false,
   hasUnsavedChanges = false,
@@ -134,8 +188,8 @@ export function Timeline({
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const horizontalScrollRef = useRef<HTMLDivElement>(null);
   const [isDraggingPlayhead, setIsDraggingPlayhead] = useState(false);
-  const [minTrackCount, setMinTrackCount] = useState(3); // User can manually add more tracks
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showCaptionsDialog, setShowCaptionsDialog] = useState(false);
 
   // Horizontal scroll state for the navigation slider
   const [scrollPosition, setScrollPosition] = useState(0);
@@ -145,9 +199,14 @@ export function Timeline({
   const [isDraggingToScroll, setIsDraggingToScroll] = useState(false);
   const dragStartRef = useRef({ x: 0, scrollLeft: 0 });
 
-  // Calculate number of tracks needed (minimum from user or 3, expand based on clips)
-  const maxTrackIndex = clips.length > 0 ? Math.max(...clips.map(c => c.trackIndex)) : 0;
-  const trackCount = Math.max(minTrackCount, maxTrackIndex + 2); // Always have at least one empty track at bottom
+  // Clips can only be dragged onto unlocked tracks of their kind
+  const canPlaceClip = useCallback((clip: TimelineClip, trackIndex: number) => {
+    const track = tracks[trackIndex];
+    return !!track && !track.locked && trackAccepts(track, clip, assets.find(a => a.id === clip.assetId));
+  }, [tracks, assets]);
+
+  // Dragged clips snap to markers as well as to other clips
+  const markerSnapPoints = useMemo(() => markerSnapTimes(markers), [markers]);
 
   // Timeline width - extend indefinitely based on content or scroll
   // Always extend well beyond current content to allow infinite scrolling
@@ -157,11 +216,11 @@ export function Timeline({
   const timelineWidth = Math.max(extendedDuration * zoomLevel, 2000); // Minimum 2000px
   const playheadLeftPx = Math.max(0, playheadPosition * zoomLevel); // Never position before 0
 
-  // Generate time markers - extend indefinitely across entire timeline
-  const markers = [];
-  // Adaptive marker interval based on zoom level for readability
+  // Generate ruler ticks - extend indefinitely across entire timeline
+  const rulerTicks = [];
+  // Adaptive tick interval based on zoom level for readability
   // Lower zoom = more zoomed out = need larger intervals
-  const markerInterval = zoomLevel < 0.15 ? 1800 : // Every 30 minutes at extreme zoom out
+  const tickInterval = zoomLevel < 0.15 ? 1800 : // Every 30 minutes at extreme zoom out
                          zoomLevel < 0.3 ? 600 :  // Every 10 minutes
                          zoomLevel < 0.5 ? 300 :  // Every 5 minutes
                          zoomLevel < 1 ? 120 :    // Every 2 minutes
@@ -171,10 +230,10 @@ export function Timeline({
                          zoomLevel < 30 ? 5 :     // Every 5 seconds
                          zoomLevel < 60 ? 2 : 1;  // Every 2 or 1 second
   const maxTime = timelineWidth / zoomLevel;
-  const markerCount = Math.ceil(maxTime / markerInterval);
+  const tickCount = Math.ceil(maxTime / tickInterval);
 
-  for (let i = 0; i <= markerCount; i++) {
-    const time = i * markerInterval;
+  for (let i = 0; i <= tickCount; i++) {
+    const time = i * tickInterval;
     // Format label based on time magnitude
     let label: string;
     if (time >= 3600) {
@@ -187,7 +246,7 @@ export function Timeline({
       // Minutes: show as M:SS
       label = `${Math.floor(time / 60)}:${(time % 60).toString().padStart(2, '0')}`;
     }
-    markers.push({
+    rulerTicks.push({
       time,
       position: time * zoomLevel,
       label,
@@ -388,6 +447,10 @@ export function Timeline({
   const hasSelection = selectedClipIds.length > 0;
   const isMuted = volume === 0;
 
+  // Captions default to the span and transcript of the selected voiceover/video clip, else 10s from the playhead
+  const selectedMediaClip = clips.find(c => selectedClipIds.includes(c.id) && !c.caption);
+  const selectedMediaAsset = selectedMediaClip ? assets.find(a => a.id === selectedMediaClip.assetId) : undefined;
+
   return (
     <div className="flex flex-col h-full bg-background">
       {/* Toolbar */}
@@ -396,6 +459,8 @@ export function Timeline({
         canRedo={canRedo}
         hasSelection={hasSelection}
         snapEnabled={snapEnabled}
+        editMode={editMode}
+        rippleAllTracks={rippleAllTracks}
         onUndo={onUndo || (() => {})}
         onRedo={onRedo || (() => {})}
         onCopy={onCopy || (() => {})}
@@ -403,6 +468,8 @@ export function Timeline({
         onDelete={onDelete || (() => {})}
         onSplit={onSplit || (() => {})}
         onToggleSnap={onToggleSnap || (() => {})}
+        onEditModeChange={onEditModeChange || (() => {})}
+        onToggleRippleAllTracks={onToggleRippleAllTracks || (() => {})}
       />
 
       {/* Old inline toolbar - Keeping playback controls */}
@@ -537,21 +604,71 @@ export function Timeline({
           <Separator orientation="vertical" className="h-6 mx-1" />
 
           {/* Add Track */}
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                onClick={() => setMinTrackCount(prev => prev + 1)}
-                variant="ghost"
-                size="sm"
-                className="toolbar-btn"
-              >
-                <Plus className="w-4 h-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>
-              <p>Add new track</p>
-            </TooltipContent>
-          </Tooltip>
+          {onAddTrack && (
+            <DropdownMenu>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="toolbar-btn"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Add new track</p>
+                </TooltipContent>
+              </Tooltip>
+              <DropdownMenuContent align="start">
+                {(Object.keys(TRACK_KIND_LABELS) as TrackKind[]).map(kind => (
+                  <DropdownMenuItem key={kind} onClick={() => onAddTrack(kind)}>
+                    {TRACK_KIND_LABELS[kind]} track
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {/* Add Captions */}
+          {onAddCaptions && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  onClick={() => setShowCaptionsDialog(true)}
+                  variant="ghost"
+                  size="sm"
+                  className="toolbar-btn"
+                >
+                  <Type className="w-4 h-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Add captions from transcript</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
+
+          {/* Add Marker */}
+          {onAddMarker && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  onClick={onAddMarker}
+                  variant="ghost"
+                  size="sm"
+                  className="toolbar-btn"
+                >
+                  <Bookmark className="w-4 h-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Add marker at playhead (M)</p>
+              </TooltipContent>
+            </Tooltip>
+          )}
         </div>
 
         {/* Center - Transport Controls */}
@@ -747,8 +864,21 @@ export function Timeline({
         aspectRatio={aspectRatio}
         duration={duration}
         trackSettings={trackSettings}
+        markers={markers}
       />
 
+      {/* Captions Dialog */}
+      {onAddCaptions && showCaptionsDialog && (
+        <CaptionsDialog
+          open={showCaptionsDialog}
+          onOpenChange={setShowCaptionsDialog}
+          defaultTranscript={selectedMediaAsset?.transcript}
+          defaultStartTime={selectedMediaClip?.startTime ?? playheadPosition}
+          defaultDuration={selectedMediaClip?.duration ?? 10}
+          onCreate={onAddCaptions}
+        />
+      )}
+
       {/* Timeline */}
       <div className="flex-1 flex flex-col overflow-hidden">
         <ScrollArea ref={scrollAreaRef} className="flex-1">
@@ -760,17 +890,30 @@ export function Timeline({
             >
               <div className="relative h-full" style={{ width: `${timelineWidth}px` }}>
                 <div className="absolute left-20 right-0 h-full">
-                  {markers.map((marker, i) => (
+                  {rulerTicks.map((tick, i) => (
                     <div
                       key={i}
                       className="absolute top-0 h-full border-l border-border/30 pointer-events-none"
-                      style={{ left: `${marker.position}px` }}
+                      style={{ left: `${tick.position}px` }}
                     >
                       <span className="absolute top-2 left-2 text-xs font-medium text-muted-foreground/80">
-                        {marker.label}
+                        {tick.label}
                       </span>
                     </div>
                   ))}
+
+                  {markers.map(marker => (
+                    <RulerMarker
+                      key={marker.id}
+                      marker={marker}
+                      pixelsPerSecond={zoomLevel}
+                      onSeek={onSetPlayhead}
+                      onUpdate={onUpdateMarker}
+                      onRemove={onRemoveMarker}
+                      onGestureStart={onGestureStart}
+                      onGestureEnd={onGestureEnd}
+                    />
+                  ))}
                 </div>
               </div>
             </div>
@@ -788,36 +931,53 @@ export function Timeline({
             >
               {/* Vertical time marker lines extending through all tracks */}
               <div className="absolute left-20 right-0 top-0 bottom-0 pointer-events-none">
-                {markers.map((marker, i) => (
+                {rulerTicks.map((tick, i) => (
                   <div
                     key={i}
                     className="absolute top-0 bottom-0 border-l border-border/20"
-                    style={{ left: `${marker.position}px` }}
+                    style={{ left: `${tick.position}px` }}
+                  />
+                ))}
+                {markers.map(marker => (
+                  <div
+                    key={marker.id}
+                    className="absolute top-0 bottom-0 border-l border-dashed opacity-60"
+                    style={{ left: `${marker.time * zoomLevel}px`, borderColor: MARKER_COLORS[marker.color] }}
                   />
                 ))}
               </div>
 
-              {Array.from({ length: trackCount }, (_, i) => {
-                const trackSetting = trackSettings[i] || { volume: 1, speed: 1, visible: true, muted: false };
+              {tracks.map((track, i) => {
+                const trackSetting = trackSettings[i] || DEFAULT_TRACK_SETTINGS;
                 return (
                   <TimelineTrack
-                    key={i}
+                    key={track.id}
                     trackIndex={i}
+                    track={track}
+                    tracks={tracks}
                     clips={clips}
                     assets={assets}
                     selectedClipIds={selectedClipIds}
                     pixelsPerSecond={zoomLevel}
                     snapEnabled={snapEnabled}
+                    snapTimes={markerSnapPoints}
+                    editMode={editMode}
                     onSelectClip={onSelectClip}
                     onUpdateClip={onUpdateClip}
                     onUpdateMultipleClips={onUpdateMultipleClips}
                     onDropAsset={onDropAsset}
                     onDropExternalFile={onDropExternalFile}
                     onDeselectAll={onDeselectAll}
+                    onGestureStart={onGestureStart}
+                    onGestureEnd={onGestureEnd}
+                    onRippleTrimClip={onRippleTrimClip}
+                    onRollEdit={onRollEdit}
                     onSplitAudio={onSplitAudio}
                     onDuplicate={onDuplicateClip}
                     onDeleteClip={onDeleteClip}
                     onSplitClipAtPlayhead={onSplitClipAtPlayhead}
+                    onLinkClips={onLinkClips}
+                    onUnlinkClip={onUnlinkClip}
                     trackVolume={trackSetting.volume}
                     trackSpeed={trackSetting.speed}
                     trackVisible={trackSetting.visible}
@@ -826,6 +986,13 @@ export function Timeline({
                     onTrackSpeedChange={onTrackSpeedChange}
                     onTrackVisibleChange={onTrackVisibleChange}
                     onTrackMutedChange={onTrackMutedChange}
+                    canPlaceClip={canPlaceClip}
+                    onAddTrack={onAddTrack}
+                    onDeleteTrack={onDeleteTrack}
+                    onMoveTrack={onMoveTrack}
+                    onRenameTrack={onRenameTrack}
+                    onTrackLockedChange={onTrackLockedChange}
+                    onTrackHeightChange={onTrackHeightChange}
                   />
                 );
               })}
@@ -922,6 +1089,18 @@ export function Timeline({
               }}
             />
 
+            {/* Timeline markers on scrollbar */}
+            {markers.map(marker => (
+              <div
+                key={marker.id}
+                className="absolute top-0 bottom-0 w-0.5 pointer-events-none"
+                style={{
+                  left: `${(marker.time * zoomLevel / timelineWidth) * 100}%`,
+                  backgroundColor: MARKER_COLORS[marker.color],
+                }}
+              />
+            ))}
+
             {/* Playhead position marker on scrollbar */}
             <div
               className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
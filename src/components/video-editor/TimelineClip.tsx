@@ -1,8 +1,20 @@
 import { useRef, useState, useCallback, useEffect } from 'react';
-import { TimelineClip as TimelineClipType, MediaAsset, TransitionType } from '@/types/video-editor';
+import { TimelineClip as TimelineClipType, MediaAsset, TransitionType, EditMode, Track } from '@/types/video-editor';
 import { cn } from '@/lib/utils';
-import { Video, Music, Image as ImageIcon, Sparkles } from 'lucide-react';
+import { Video, Music, Image as ImageIcon, Sparkles, Type, Link2 } from 'lucide-react';
 import { ClipContextMenu } from './ClipContextMenu';
+import { ClipWaveform } from './ClipWaveform';
+import { clipsLabel } from '@/utils/editorHistory';
+import { clampSlip, MIN_CLIP_DURATION } from '@/utils/timelineEdits';
+import { getSyncOffset } from '@/utils/clipLinks';
+import { DEFAULT_TRACK_HEIGHT, trackIndexAtOffset } from '@/utils/tracks';
+
+const TRIM_LABELS: Record<EditMode, string> = {
+  normal: 'Trim clip',
+  ripple: 'Ripple trim',
+  roll: 'Roll edit',
+  slip: 'Trim clip',
+};
 
 interface TimelineClipProps {
   clip: TimelineClipType;
@@ -12,14 +24,25 @@ interface TimelineClipProps {
   allClips?: TimelineClipType[];
   selectedClipIds?: string[];
   snapEnabled?: boolean;
+  snapTimes?: number[]; // times to snap to besides other clips' edges, e.g. markers
+  editMode?: EditMode;
+  locked?: boolean; // on a locked track: no selecting, moving, trimming or context menu
+  tracks?: Track[]; // for their heights when dragging between tracks
+  canPlaceClip?: (clip: TimelineClipType, trackIndex: number) => boolean;
   onSelect: (shiftKey: boolean) => void;
   onUpdate: (updates: Partial<TimelineClipType>) => void;
   onUpdateMultiple?: (clipIds: string[], getUpdates: (clip: TimelineClipType) => Partial<TimelineClipType>) => void;
   onDragStart: (e: React.DragEvent) => void;
+  onGestureStart?: (label: string) => void; // a move/trim begins - its updates undo as one step
+  onGestureEnd?: () => void;
+  onRippleTrim?: (clipId: string, updates: Pick<TimelineClipType, 'duration' | 'trimStart'>) => void;
+  onRollEdit?: (clipId: string, side: 'left' | 'right', cutTime: number) => void;
   onSplitAudio?: (clipId: string) => void;
   onDuplicate?: (clipId: string) => void;
   onDelete?: (clipId: string) => void;
   onSplitAtPlayhead?: (clipId: string) => void;
+  onLinkClips?: (clipIds: string[]) => void;
+  onUnlinkClip?: (clipId: string) => void;
 }
 
 export function TimelineClip({
@@ -30,14 +53,25 @@ export function TimelineClip({
   allClips = [],
   selectedClipIds = [],
   snapEnabled = true,
+  snapTimes = [],
+  editMode = 'normal',
+  locked = false,
+  tracks = [],
+  canPlaceClip,
   onSelect,
   onUpdate,
   onUpdateMultiple,
   onDragStart,
+  onGestureStart,
+  onGestureEnd,
+  onRippleTrim,
+  onRollEdit,
   onSplitAudio,
   onDuplicate,
   onDelete,
   onSplitAtPlayhead,
+  onLinkClips,
+  onUnlinkClip,
 }: TimelineClipProps) {
   const clipRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -48,15 +82,25 @@ export function TimelineClip({
   const dragStartTime = useRef(0);
   const dragStartTrack = useRef(0);
   const dragStartDuration = useRef(0);
+  const dragStartTrimStart = useRef(0);
+  // Edit mode of the current drag/trim, after modifier keys
+  const gestureMode = useRef<EditMode>('normal');
   // Store initial positions of all selected clips when multi-drag starts
   const multiDragStartPositions = useRef<Map<string, { startTime: number; trackIndex: number }>>(new Map());
 
   const widthPx = clip.duration * pixelsPerSecond;
   const leftPx = clip.startTime * pixelsPerSecond;
+  const heightPx = (tracks[clip.trackIndex]?.height ?? DEFAULT_TRACK_HEIGHT) - 16; // matches the track's clips container
+  const syncOffset = getSyncOffset(clip, allClips);
+  // Link is offered when this clip is part of a multi-selection that isn't already one group
+  const selectedClips = allClips.filter(c => selectedClipIds.includes(c.id));
+  const canLink = isSelected && selectedClips.length > 1 &&
+    !selectedClips.every(c => c.linkGroupId && c.linkGroupId === clip.linkGroupId);
 
   const getIcon = () => {
-    if (!asset) return null;
     const iconClass = 'w-3 h-3 opacity-50';
+    if (clip.caption) return <Type className={iconClass} />;
+    if (!asset) return null;
     switch (asset.type) {
       case 'video':
         return <Video className={iconClass} />;
@@ -68,6 +112,7 @@ export function TimelineClip({
   };
 
   const getClipColor = () => {
+    if (clip.caption) return 'bg-amber-500/30 border-amber-500/50';
     if (!asset) return 'bg-muted';
     switch (asset.type) {
       case 'video':
@@ -82,15 +127,44 @@ export function TimelineClip({
   const handleContextMenu = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (locked) return;
     setContextMenu({ x: e.clientX, y: e.clientY });
-    onSelect(false);
-  }, [onSelect]);
+    // Keep an existing multi-selection so it can be linked
+    if (!isSelected) onSelect(false);
+  }, [isSelected, locked, onSelect]);
+
+  // Modifiers override the toolbar mode for one gesture: Cmd/Ctrl-trim ripples, Alt-trim rolls,
+  // Alt-drag slips. Moving a clip is the same in every mode except slip.
+  const resolveGestureMode = useCallback((e: React.MouseEvent, onEdge: boolean): EditMode => {
+    if (onEdge) {
+      if (e.metaKey || e.ctrlKey) return 'ripple';
+      if (e.altKey) return 'roll';
+      return editMode === 'slip' ? 'normal' : editMode;
+    }
+    return e.altKey || editMode === 'slip' ? 'slip' : 'normal';
+  }, [editMode]);
+
+  const startResize = useCallback((e: React.MouseEvent, side: 'left' | 'right') => {
+    e.stopPropagation();
+    if (locked) return;
+    setIsResizing(side);
+    gestureMode.current = resolveGestureMode(e, true);
+    dragStartX.current = e.clientX;
+    dragStartTime.current = clip.startTime;
+    dragStartDuration.current = clip.duration;
+    dragStartTrimStart.current = clip.trimStart;
+    onGestureStart?.(TRIM_LABELS[gestureMode.current]);
+  }, [clip.startTime, clip.duration, clip.trimStart, locked, resolveGestureMode, onGestureStart]);
 
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.button !== 0) return; // Only left click
 
     // Prevent text selection during drag
     e.preventDefault();
+    if (locked) {
+      e.stopPropagation(); // not a click on the empty track either
+      return;
+    }
 
     const rect = clipRef.current?.getBoundingClientRect();
     if (!rect) return;
@@ -100,23 +174,17 @@ export function TimelineClip({
 
     // Check if clicking on resize handles (edges only)
     if (relativeX < handleWidth) {
-      setIsResizing('left');
-      dragStartX.current = e.clientX;
-      dragStartTime.current = clip.startTime;
-      dragStartDuration.current = clip.duration;
-      e.stopPropagation();
+      startResize(e, 'left');
     } else if (relativeX > rect.width - handleWidth) {
-      setIsResizing('right');
-      dragStartX.current = e.clientX;
-      dragStartTime.current = clip.startTime;
-      dragStartDuration.current = clip.duration;
-      e.stopPropagation();
+      startResize(e, 'right');
     } else {
       setIsDragging(true);
+      gestureMode.current = resolveGestureMode(e, false);
       dragStartX.current = e.clientX;
       dragStartY.current = e.clientY;
       dragStartTime.current = clip.startTime;
       dragStartTrack.current = clip.trackIndex;
+      dragStartTrimStart.current = clip.trimStart;
 
       // Store initial positions of all selected clips for multi-drag
       // Always include the current clip (it will be selected after onSelect)
@@ -129,33 +197,48 @@ export function TimelineClip({
         trackIndex: clip.trackIndex,
       });
 
-      // Store positions for all other selected clips
+      // Store positions for all other selected clips, and for clips linked to this one
       allClips.forEach(c => {
-        if (selectedClipIds.includes(c.id) && c.id !== clip.id) {
+        const isLinked = !!clip.linkGroupId && c.linkGroupId === clip.linkGroupId;
+        if ((selectedClipIds.includes(c.id) || isLinked) && c.id !== clip.id) {
           multiDragStartPositions.current.set(c.id, {
             startTime: c.startTime,
             trackIndex: c.trackIndex,
           });
         }
       });
+
+      onGestureStart?.(gestureMode.current === 'slip'
+        ? 'Slip clip'
+        : clipsLabel('Move', multiDragStartPositions.current.size));
     }
 
     onSelect(e.shiftKey);
-  }, [clip.id, clip.startTime, clip.trackIndex, clip.duration, onSelect, selectedClipIds, allClips]);
+  }, [clip.id, clip.startTime, clip.trackIndex, clip.trimStart, clip.linkGroupId, locked, onSelect, onGestureStart, selectedClipIds, allClips, resolveGestureMode, startResize]);
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
-    if (isDragging) {
+    if (isDragging && gestureMode.current === 'slip') {
+      // Slip: the clip stays put and its media slides under it, following the mouse
+      const deltaTime = (e.clientX - dragStartX.current) / pixelsPerSecond;
+      onUpdate({ trimStart: clampSlip(clip, asset, dragStartTrimStart.current - deltaTime) });
+    } else if (isDragging) {
       const deltaX = e.clientX - dragStartX.current;
       const deltaTime = deltaX / pixelsPerSecond;
       let newStartTime = Math.max(0, dragStartTime.current + deltaTime);
 
-      // Calculate track change based on vertical movement
+      // Calculate track change based on vertical movement. Tracks that can't take the dragged
+      // clips (locked, or of another kind) are passed over - the clips stay on their current track.
       const deltaY = e.clientY - dragStartY.current;
-      const trackHeight = 64; // Height of each track in pixels
-      const trackDelta = Math.round(deltaY / trackHeight);
-      const newTrackIndex = Math.max(0, dragStartTrack.current + trackDelta); // No upper limit - tracks expand dynamically
+      const hoveredTrack = tracks.length > 0
+        ? trackIndexAtOffset(tracks, dragStartTrack.current, deltaY)
+        : Math.max(0, dragStartTrack.current + Math.round(deltaY / DEFAULT_TRACK_HEIGHT));
+      const fitsTrack = (trackIndex: number) => Array.from(multiDragStartPositions.current).every(([id, initial]) => {
+        const movedClip = allClips.find(c => c.id === id) ?? clip;
+        return !canPlaceClip || canPlaceClip(movedClip, initial.trackIndex + trackIndex - dragStartTrack.current);
+      });
+      const newTrackIndex = fitsTrack(hoveredTrack) ? hoveredTrack : clip.trackIndex;
 
-      // SNAPPING: Snap to other clip edges and grid when enabled
+      // SNAPPING: Snap to other clip edges, markers and grid when enabled
       if (snapEnabled) {
         const snapThreshold = 0.15; // seconds - generous threshold for easy snapping
         const clipEndTime = newStartTime + clip.duration;
@@ -163,14 +246,14 @@ export function TimelineClip({
         // Collect all clip edges from other clips (excluding current clip and other selected clips)
         const clipEdges: number[] = [];
         allClips.forEach(otherClip => {
-          if (otherClip.id !== clip.id && !selectedClipIds.includes(otherClip.id)) {
+          if (otherClip.id !== clip.id && !multiDragStartPositions.current.has(otherClip.id)) {
             clipEdges.push(otherClip.startTime); // Start edge
             clipEdges.push(otherClip.startTime + otherClip.duration); // End edge
           }
         });
 
-        // Also add time 0 as a snap point
-        clipEdges.push(0);
+        // Also add time 0 and markers as snap points
+        clipEdges.push(0, ...snapTimes);
 
         // Find closest edge for clip start
         let bestSnapStart: number | null = null;
@@ -241,13 +324,28 @@ export function TimelineClip({
     } else if (isResizing) {
       const deltaX = e.clientX - dragStartX.current;
       const deltaTime = deltaX / pixelsPerSecond;
-
-      if (isResizing === 'left') {
+      const mode = gestureMode.current;
+
+      if (mode === 'roll') {
+        // Roll: move the cut shared with the neighbouring clip on this side
+        const edgeTime = isResizing === 'left'
+          ? dragStartTime.current
+          : dragStartTime.current + dragStartDuration.current;
+        onRollEdit?.(clip.id, isResizing, edgeTime + deltaTime);
+      } else if (isResizing === 'left' && mode === 'ripple') {
+        // Ripple: the start stays put, so trimming the head pulls later clips in
+        const newDuration = dragStartDuration.current - deltaTime;
+        const newTrimStart = dragStartTrimStart.current + deltaTime;
+
+        if (newDuration > MIN_CLIP_DURATION && newTrimStart >= 0) {
+          onRippleTrim?.(clip.id, { duration: newDuration, trimStart: newTrimStart });
+        }
+      } else if (isResizing === 'left') {
         const newStartTime = Math.max(0, dragStartTime.current + deltaTime);
         const newDuration = dragStartDuration.current - (newStartTime - dragStartTime.current);
-        const newTrimStart = clip.trimStart + (newStartTime - dragStartTime.current);
+        const newTrimStart = dragStartTrimStart.current + (newStartTime - dragStartTime.current);
 
-        if (newDuration > 0.1 && newTrimStart >= 0) {
+        if (newDuration > MIN_CLIP_DURATION && newTrimStart >= 0) {
           onUpdate({
             startTime: newStartTime,
             duration: newDuration,
@@ -255,21 +353,27 @@ export function TimelineClip({
           });
         }
       } else {
-        const newDuration = Math.max(0.1, dragStartDuration.current + deltaTime);
-        const maxDuration = (asset?.duration || 0) - clip.trimStart - clip.trimEnd;
+        const newDuration = Math.max(MIN_CLIP_DURATION, dragStartDuration.current + deltaTime);
+        // Captions have no source media, so they can be stretched freely
+        const maxDuration = clip.caption ? Infinity : (asset?.duration || 0) - clip.trimStart - clip.trimEnd;
 
         if (newDuration <= maxDuration) {
-          onUpdate({ duration: newDuration });
+          if (mode === 'ripple') {
+            onRippleTrim?.(clip.id, { duration: newDuration, trimStart: clip.trimStart });
+          } else {
+            onUpdate({ duration: newDuration });
+          }
         }
       }
     }
-  }, [isDragging, isResizing, pixelsPerSecond, clip, asset, allClips, selectedClipIds, snapEnabled, onUpdate, onUpdateMultiple]);
+  }, [isDragging, isResizing, pixelsPerSecond, clip, asset, allClips, tracks, canPlaceClip, snapEnabled, snapTimes, onUpdate, onUpdateMultiple, onRippleTrim, onRollEdit]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
     setIsResizing(null);
     multiDragStartPositions.current.clear();
-  }, []);
+    onGestureEnd?.();
+  }, [onGestureEnd]);
 
   useEffect(() => {
     if (isDragging || isResizing) {
@@ -293,36 +397,43 @@ export function TimelineClip({
     <>
       <div
         ref={clipRef}
-        draggable={!isDragging && !isResizing}
+        draggable={!locked && !isDragging && !isResizing}
         onDragStart={onDragStart}
         onMouseDown={handleMouseDown}
         onContextMenu={handleContextMenu}
         className={cn(
-          'absolute h-12 rounded-sm border overflow-hidden select-none',
+          'absolute rounded-sm border overflow-hidden select-none',
           getClipColor(),
           isSelected && 'ring-2 ring-primary border-primary',
           isDragging && 'opacity-70 cursor-move z-50',
           isResizing === 'left' && 'cursor-ew-resize',
           isResizing === 'right' && 'cursor-ew-resize',
-          !isDragging && !isResizing && 'cursor-grab hover:brightness-110',
+          locked && 'opacity-60 cursor-not-allowed',
+          !locked && !isDragging && !isResizing && 'cursor-grab hover:brightness-110',
         )}
         style={{
           left: `${leftPx}px`,
           width: `${widthPx}px`,
+          height: `${heightPx}px`,
         }}
       >
       {/* Invisible left resize handle - only active on edge */}
       <div
-        className="absolute left-0 top-0 w-1 h-full cursor-ew-resize"
-        onMouseDown={(e) => {
-          e.stopPropagation();
-          setIsResizing('left');
-          dragStartX.current = e.clientX;
-          dragStartTime.current = clip.startTime;
-          dragStartDuration.current = clip.duration;
-        }}
+        className={cn("absolute left-0 top-0 w-1 h-full", !locked && "cursor-ew-resize")}
+        onMouseDown={(e) => startResize(e, 'left')}
       />
 
+      {/* Waveform for anything with sound */}
+      {asset && (asset.type === 'audio' || asset.type === 'video') && (
+        <ClipWaveform
+          clip={clip}
+          asset={asset}
+          widthPx={widthPx}
+          heightPx={heightPx}
+          className="absolute inset-0 pointer-events-none"
+        />
+      )}
+
       {/* Transition indicator */}
       {clip.transitionIn && clip.transitionIn !== 'none' && (
         <div className="absolute left-0 top-0 bottom-0 w-6 bg-gradient-to-r from-purple-500/40 to-transparent flex items-center justify-center pointer-events-none">
@@ -344,20 +455,26 @@ export function TimelineClip({
           />
         )}
         <span className="text-xs font-medium truncate flex-1">
-          {asset?.name || 'Unknown'}
+          {clip.caption ? clip.caption.text : asset?.name || 'Unknown'}
         </span>
+        {clip.linkGroupId && (
+          syncOffset !== 0 ? (
+            <span
+              className="shrink-0 rounded bg-destructive/80 px-1 text-[10px] font-medium tabular-nums text-destructive-foreground"
+              title="Out of sync with its linked clips"
+            >
+              {syncOffset > 0 ? '+' : ''}{syncOffset.toFixed(2)}s
+            </span>
+          ) : (
+            <Link2 className="w-3 h-3 shrink-0 opacity-50" />
+          )
+        )}
       </div>
 
       {/* Invisible right resize handle - only active on edge */}
       <div
-        className="absolute right-0 top-0 w-1 h-full cursor-ew-resize"
-        onMouseDown={(e) => {
-          e.stopPropagation();
-          setIsResizing('right');
-          dragStartX.current = e.clientX;
-          dragStartTime.current = clip.startTime;
-          dragStartDuration.current = clip.duration;
-        }}
+        className={cn("absolute right-0 top-0 w-1 h-full", !locked && "cursor-ew-resize")}
+        onMouseDown={(e) => startResize(e, 'right')}
       />
     </div>
 
@@ -378,12 +495,20 @@ export function TimelineClip({
           onUpdate(updates);
         }}
         onSplitAtPlayhead={onSplitAtPlayhead}
+        onLink={canLink && onLinkClips ? () => onLinkClips(selectedClipIds) : undefined}
+        onUnlink={clip.linkGroupId ? onUnlinkClip : undefined}
         onTransitionChange={(clipId, transition, duration) => {
           onUpdate({
             transitionIn: transition,
             transitionDuration: duration,
           });
         }}
+        onKenBurnsChange={(clipId, effect) => {
+          onUpdate({ kenBurns: effect });
+        }}
+        onCaptionChange={(clipId, caption) => {
+          onUpdate({ caption });
+        }}
       />
     )}
     </>
@@ -1,27 +1,47 @@
 import { useState, useCallback } from 'react';
-import { TimelineClip as TimelineClipType, MediaAsset } from '@/types/video-editor';
+import { TimelineClip as TimelineClipType, MediaAsset, EditMode, Track, TrackKind } from '@/types/video-editor';
 import { TimelineClip } from './TimelineClip';
 import { TrackContextMenu } from './TrackContextMenu';
 import { cn } from '@/lib/utils';
-import { Eye, EyeOff, Volume2, VolumeX } from 'lucide-react';
+import { Eye, EyeOff, Volume2, VolumeX, Lock, Unlock, GripVertical, Video, Music, Type, Layers } from 'lucide-react';
+
+// dataTransfer type of a track header being dragged to reorder tracks
+const TRACK_DRAG_TYPE = 'application/x-timeline-track';
+
+const TRACK_KIND_ICONS: Record<TrackKind, typeof Video> = {
+  video: Video,
+  audio: Music,
+  caption: Type,
+  overlay: Layers,
+};
 
 interface TimelineTrackProps {
   trackIndex: number;
+  track: Track;
+  tracks: Track[];
   clips: TimelineClipType[];
   assets: MediaAsset[];
   selectedClipIds: string[];
   pixelsPerSecond: number;
   snapEnabled?: boolean;
+  snapTimes?: number[]; // times clips snap to besides other clips' edges, e.g. markers
+  editMode?: EditMode;
   onSelectClip: (clipId: string, shiftKey: boolean) => void;
   onUpdateClip: (clipId: string, updates: Partial<TimelineClipType>) => void;
   onUpdateMultipleClips?: (clipIds: string[], getUpdates: (clip: TimelineClipType) => Partial<TimelineClipType>) => void;
   onDropAsset?: (asset: MediaAsset, trackIndex: number, timePosition: number) => void;
   onDropExternalFile?: (file: File, trackIndex: number, timePosition: number) => void;
   onDeselectAll?: () => void;
+  onGestureStart?: (label: string) => void;
+  onGestureEnd?: () => void;
+  onRippleTrimClip?: (clipId: string, updates: Pick<TimelineClipType, 'duration' | 'trimStart'>) => void;
+  onRollEdit?: (clipId: string, side: 'left' | 'right', cutTime: number) => void;
   onSplitAudio?: (clipId: string) => void;
   onDuplicate?: (clipId: string) => void;
   onDeleteClip?: (clipId: string) => void;
   onSplitClipAtPlayhead?: (clipId: string) => void;
+  onLinkClips?: (clipIds: string[]) => void;
+  onUnlinkClip?: (clipId: string) => void;
   trackVolume?: number;
   trackSpeed?: number;
   trackVisible?: boolean;
@@ -30,25 +50,42 @@ interface TimelineTrackProps {
   onTrackSpeedChange?: (trackIndex: number, speed: number) => void;
   onTrackVisibleChange?: (trackIndex: number, visible: boolean) => void;
   onTrackMutedChange?: (trackIndex: number, muted: boolean) => void;
+  canPlaceClip?: (clip: TimelineClipType, trackIndex: number) => boolean;
+  onAddTrack?: (kind: TrackKind, index?: number) => void;
+  onDeleteTrack?: (trackIndex: number) => void;
+  onMoveTrack?: (fromIndex: number, toIndex: number) => void;
+  onRenameTrack?: (trackIndex: number, name: string) => void;
+  onTrackLockedChange?: (trackIndex: number, locked: boolean) => void;
+  onTrackHeightChange?: (trackIndex: number, height: number) => void;
 }
 
 export function TimelineTrack({
   trackIndex,
+  track,
+  tracks,
   clips,
   assets,
   selectedClipIds,
   pixelsPerSecond,
   snapEnabled = true,
+  snapTimes,
+  editMode = 'normal',
   onSelectClip,
   onUpdateClip,
   onUpdateMultipleClips,
   onDropAsset,
   onDropExternalFile,
   onDeselectAll,
+  onGestureStart,
+  onGestureEnd,
+  onRippleTrimClip,
+  onRollEdit,
   onSplitAudio,
   onDuplicate,
   onDeleteClip,
   onSplitClipAtPlayhead,
+  onLinkClips,
+  onUnlinkClip,
   trackVolume = 1,
   trackSpeed = 1,
   trackVisible = true,
@@ -57,9 +94,20 @@ export function TimelineTrack({
   onTrackSpeedChange,
   onTrackVisibleChange,
   onTrackMutedChange,
+  canPlaceClip,
+  onAddTrack,
+  onDeleteTrack,
+  onMoveTrack,
+  onRenameTrack,
+  onTrackLockedChange,
+  onTrackHeightChange,
 }: TimelineTrackProps) {
   const trackClips = clips.filter(c => c.trackIndex === trackIndex);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isTrackDragOver, setIsTrackDragOver] = useState(false);
+  const isCaptionTrack = track.kind === 'caption';
+  const KindIcon = TRACK_KIND_ICONS[track.kind];
 
   const handleTrackClick = (e: React.MouseEvent) => {
     // Only deselect if clicking directly on the track (not on a clip)
@@ -76,12 +124,28 @@ export function TimelineTrack({
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
-    e.dataTransfer.dropEffect = 'copy';
+    const isTrackDrag = e.dataTransfer.types.includes(TRACK_DRAG_TYPE);
+    e.dataTransfer.dropEffect = isTrackDrag ? 'move' : 'copy';
+    setIsTrackDragOver(isTrackDrag);
   };
 
   const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation(); // Prevent global handler from also processing this
+    setIsTrackDragOver(false);
+
+    // A track header dropped here moves that track to this position
+    const draggedTrack = e.dataTransfer.getData(TRACK_DRAG_TYPE);
+    if (draggedTrack) {
+      onMoveTrack?.(Number(draggedTrack), trackIndex);
+      return;
+    }
+
+    // Media dropped on a track of another kind goes on one that takes it (see useVideoEditor.addClip)
+    if (track.locked) {
+      console.warn('[TimelineTrack] Ignoring drop on locked track', trackIndex);
+      return;
+    }
 
     const rect = e.currentTarget.getBoundingClientRect();
     const relativeX = e.clientX - rect.left;
@@ -108,14 +172,48 @@ export function TimelineTrack({
     }
   };
 
+  const handleHeaderDragStart = (e: React.DragEvent) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData(TRACK_DRAG_TYPE, String(trackIndex));
+  };
+
+  const finishRename = (name: string) => {
+    setIsRenaming(false);
+    onRenameTrack?.(trackIndex, name);
+  };
+
+  // Drag the bottom edge of the header to resize the track; the whole drag undoes as one step
+  const handleResizeStart = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startY = e.clientY;
+    const startHeight = track.height;
+    onGestureStart?.('Resize track');
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      onTrackHeightChange?.(trackIndex, startHeight + moveEvent.clientY - startY);
+    };
+    const handleUp = () => {
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleUp);
+      onGestureEnd?.();
+    };
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleUp);
+  };
+
   return (
     <div
       data-drop-zone="timeline-track"
       className={cn(
-        'relative h-16 border-b border-border/40 bg-card/20',
-        'hover:bg-card/30 transition-colors'
+        'relative border-b border-border/40 bg-card/20',
+        'hover:bg-card/30 transition-colors',
+        isTrackDragOver && 'ring-1 ring-inset ring-primary/60'
       )}
+      style={{ height: `${track.height}px` }}
       onDragOver={handleDragOver}
+      onDragLeave={() => setIsTrackDragOver(false)}
       onDrop={handleDrop}
       onClick={handleTrackClick}
     >
@@ -123,9 +221,45 @@ export function TimelineTrack({
       <div
         className="absolute left-0 top-0 h-full w-20 flex flex-col items-center justify-center gap-1 border-r border-border/60 bg-card/60 text-xs font-medium text-muted-foreground z-10"
         onContextMenu={handleTrackLabelContextMenu}
+        onClick={(e) => e.stopPropagation()}
         title="Right-click for track settings"
       >
-        <div className="text-xs font-medium">Track {trackIndex + 1}</div>
+        <div className="flex items-center gap-0.5 w-full px-1">
+          {/* Drag handle for reordering */}
+          {onMoveTrack && (
+            <div
+              draggable
+              onDragStart={handleHeaderDragStart}
+              className="shrink-0 cursor-grab opacity-50 hover:opacity-100"
+              title="Drag to reorder"
+            >
+              <GripVertical className="w-3 h-3" />
+            </div>
+          )}
+          <KindIcon className="w-3 h-3 shrink-0 opacity-60" />
+          {isRenaming ? (
+            <input
+              autoFocus
+              defaultValue={track.name}
+              onBlur={(e) => finishRename(e.target.value)}
+              onKeyDown={(e) => {
+                e.stopPropagation(); // Keep editor shortcuts out of the text field
+                // Both end in onBlur; Escape puts the old name back first
+                if (e.key === 'Escape') e.currentTarget.value = track.name;
+                if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+              }}
+              className="min-w-0 flex-1 bg-background border border-border rounded px-0.5 text-xs text-foreground"
+            />
+          ) : (
+            <div
+              className="min-w-0 flex-1 truncate text-xs font-medium"
+              onDoubleClick={() => onRenameTrack && setIsRenaming(true)}
+              title={track.name}
+            >
+              {track.name}
+            </div>
+          )}
+        </div>
         <div className="flex items-center gap-1">
           {/* Visibility toggle */}
           <button
@@ -143,29 +277,57 @@ export function TimelineTrack({
             )}
           </button>
 
-          {/* Mute toggle */}
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              onTrackMutedChange?.(trackIndex, !trackMuted);
-            }}
-            className="p-0.5 rounded hover:bg-accent transition-colors"
-            title={trackMuted ? "Unmute track" : "Mute track"}
-          >
-            {trackMuted ? (
-              <VolumeX className="w-3 h-3 opacity-50" />
-            ) : (
-              <Volume2 className="w-3 h-3" />
-            )}
-          </button>
+          {/* Mute toggle (captions have no audio) */}
+          {!isCaptionTrack && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onTrackMutedChange?.(trackIndex, !trackMuted);
+              }}
+              className="p-0.5 rounded hover:bg-accent transition-colors"
+              title={trackMuted ? "Unmute track" : "Mute track"}
+            >
+              {trackMuted ? (
+                <VolumeX className="w-3 h-3 opacity-50" />
+              ) : (
+                <Volume2 className="w-3 h-3" />
+              )}
+            </button>
+          )}
+
+          {/* Lock toggle */}
+          {onTrackLockedChange && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onTrackLockedChange(trackIndex, !track.locked);
+              }}
+              className={cn('p-0.5 rounded hover:bg-accent transition-colors', track.locked && 'text-amber-500')}
+              title={track.locked ? "Unlock track" : "Lock track"}
+            >
+              {track.locked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3 opacity-50" />}
+            </button>
+          )}
         </div>
+
+        {/* Resize handle */}
+        {onTrackHeightChange && (
+          <div
+            className="absolute left-0 right-0 bottom-0 h-1 cursor-ns-resize hover:bg-primary/40"
+            onMouseDown={handleResizeStart}
+          />
+        )}
       </div>
 
       {/* Clips container - extends full timeline width */}
-      <div className={cn(
-        "clips-container absolute left-20 right-0 top-2 h-12",
-        !trackVisible && "opacity-30"
-      )}>
+      <div
+        className={cn(
+          "clips-container absolute left-20 right-0 top-2",
+          !trackVisible && "opacity-30",
+          track.locked && "bg-[repeating-linear-gradient(135deg,transparent,transparent_6px,hsl(var(--muted)/0.4)_6px,hsl(var(--muted)/0.4)_12px)]"
+        )}
+        style={{ height: `${track.height - 16}px` }}
+      >
         {trackClips.map(clip => {
           const asset = assets.find(a => a.id === clip.assetId);
           return (
@@ -178,6 +340,11 @@ export function TimelineTrack({
               allClips={clips}
               selectedClipIds={selectedClipIds}
               snapEnabled={snapEnabled}
+              snapTimes={snapTimes}
+              editMode={editMode}
+              locked={track.locked}
+              tracks={tracks}
+              canPlaceClip={canPlaceClip}
               onSelect={(shiftKey) => onSelectClip(clip.id, shiftKey)}
               onUpdate={(updates) => onUpdateClip(clip.id, updates)}
               onUpdateMultiple={onUpdateMultipleClips}
@@ -185,10 +352,16 @@ export function TimelineTrack({
                 e.dataTransfer.effectAllowed = 'move';
                 e.dataTransfer.setData('text/plain', clip.id);
               }}
+              onGestureStart={onGestureStart}
+              onGestureEnd={onGestureEnd}
+              onRippleTrim={onRippleTrimClip}
+              onRollEdit={onRollEdit}
               onSplitAudio={onSplitAudio}
               onDuplicate={onDuplicate}
               onDelete={onDeleteClip}
               onSplitAtPlayhead={onSplitClipAtPlayhead}
+              onLinkClips={onLinkClips}
+              onUnlinkClip={onUnlinkClip}
             />
           );
         })}
@@ -198,12 +371,20 @@ export function TimelineTrack({
       {contextMenu && onTrackVolumeChange && onTrackSpeedChange && (
         <TrackContextMenu
           trackIndex={trackIndex}
+          trackName={track.name}
           trackVolume={trackVolume}
           trackSpeed={trackSpeed}
+          locked={track.locked}
           position={contextMenu}
           onClose={() => setContextMenu(null)}
           onVolumeChange={onTrackVolumeChange}
           onSpeedChange={onTrackSpeedChange}
+          onRename={onRenameTrack && (() => setIsRenaming(true))}
+          onToggleLock={onTrackLockedChange && (() => onTrackLockedChange(trackIndex, !track.locked))}
+          onMoveUp={onMoveTrack && trackIndex > 0 ? () => onMoveTrack(trackIndex, trackIndex - 1) : undefined}
+          onMoveDown={onMoveTrack && trackIndex < tracks.length - 1 ? () => onMoveTrack(trackIndex, trackIndex + 1) : undefined}
+          onAddTrack={onAddTrack && ((where) => onAddTrack(track.kind, where === 'above' ? trackIndex : trackIndex + 1))}
+          onDelete={onDeleteTrack && (() => onDeleteTrack(trackIndex))}
         />
       )}
     </div>
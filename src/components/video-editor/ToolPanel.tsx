@@ -1,8 +1,10 @@
 import { useState } from 'react';
-import { Settings, Image as ImageIcon, Layers, Sliders, X } from 'lucide-react';
+import { Settings, Image as ImageIcon, Layers, Sliders, X, History } from 'lucide-react';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { MediaPanel } from './MediaPanel';
+import { HistoryPanel } from './HistoryPanel';
 import { MediaAsset, AspectRatio } from '@/types/video-editor';
+import { HistoryEntry } from '@/utils/editorHistory';
 import { cn } from '@/lib/utils';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
@@ -26,6 +28,11 @@ interface ToolPanelProps {
   zoomLevel: number;
   onZoomChange: (level: number) => void;
 
+  // History props
+  history?: HistoryEntry[];
+  historyIndex?: number;
+  onJumpToHistory?: (index: number) => void;
+
   // Panel control
   onClose?: () => void;
 }
@@ -43,6 +50,9 @@ export function ToolPanel({
   onVolumeChange,
   zoomLevel,
   onZoomChange,
+  history = [],
+  historyIndex = 0,
+  onJumpToHistory,
   onClose,
 }: ToolPanelProps) {
   const [activeTab, setActiveTab] = useState('media');
@@ -66,7 +76,7 @@ export function ToolPanel({
               </Button>
             )}
           </div>
-          <TabsList className="grid grid-cols-3 h-9 w-full bg-muted/50">
+          <TabsList className="grid grid-cols-4 h-9 w-full bg-muted/50">
             <TabsTrigger value="media" className="text-xs gap-1.5">
               <ImageIcon className="w-3.5 h-3.5" />
               Media
@@ -79,6 +89,10 @@ export function ToolPanel({
               <Layers className="w-3.5 h-3.5" />
               Effects
             </TabsTrigger>
+            <TabsTrigger value="history" className="text-xs gap-1.5">
+              <History className="w-3.5 h-3.5" />
+              History
+            </TabsTrigger>
           </TabsList>
         </div>
 
@@ -204,6 +218,15 @@ export function ToolPanel({
             </div>
           </div>
         </TabsContent>
+
+        {/* History Tab */}
+        <TabsContent value="history" className="flex-1 mt-0 overflow-auto">
+          <HistoryPanel
+            entries={history}
+            currentIndex={historyIndex}
+            onJump={(index) => onJumpToHistory?.(index)}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
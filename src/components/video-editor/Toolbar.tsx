@@ -1,5 +1,7 @@
-import { Undo2, Redo2, Scissors, Copy, Clipboard, Trash2, Magnet } from 'lucide-react';
+import { Undo2, Redo2, Scissors, Copy, Clipboard, Trash2, Magnet, MousePointer2, ArrowRightLeft, Columns2, MoveHorizontal, Link2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { EditMode } from '@/types/video-editor';
+import { cn } from '@/lib/utils';
 import { Separator } from '@/components/ui/separator';
 import {
   Tooltip,
@@ -7,11 +9,20 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 
+const EDIT_MODES: { mode: EditMode; label: string; icon: typeof MousePointer2; hint: string }[] = [
+  { mode: 'normal', label: 'Select', icon: MousePointer2, hint: 'Move and trim clips (V)' },
+  { mode: 'ripple', label: 'Ripple', icon: ArrowRightLeft, hint: 'Trims and deletes shift later clips (B, or Cmd+drag an edge)' },
+  { mode: 'roll', label: 'Roll', icon: Columns2, hint: 'Drag a cut between two clips (N, or Alt+drag an edge)' },
+  { mode: 'slip', label: 'Slip', icon: MoveHorizontal, hint: 'Slide a clip\'s media without moving it (Y, or Alt+drag)' },
+];
+
 interface ToolbarProps {
   canUndo: boolean;
   canRedo: boolean;
   hasSelection: boolean;
   snapEnabled: boolean;
+  editMode: EditMode;
+  rippleAllTracks: boolean;
   onUndo: () => void;
   onRedo: () => void;
   onCopy: () => void;
@@ -19,6 +30,8 @@ interface ToolbarProps {
   onDelete: () => void;
   onSplit: () => void;
   onToggleSnap: () => void;
+  onEditModeChange: (mode: EditMode) => void;
+  onToggleRippleAllTracks: () => void;
 }
 
 export function Toolbar({
@@ -26,6 +39,8 @@ export function Toolbar({
   canRedo,
   hasSelection,
   snapEnabled,
+  editMode,
+  rippleAllTracks,
   onUndo,
   onRedo,
   onCopy,
@@ -33,6 +48,8 @@ export function Toolbar({
   onDelete,
   onSplit,
   onToggleSnap,
+  onEditModeChange,
+  onToggleRippleAllTracks,
 }: ToolbarProps) {
   return (
     <div className="flex items-center gap-1 px-4 py-2 border-b border-border bg-card/30">
@@ -142,7 +159,7 @@ export function Toolbar({
           </Button>
         </TooltipTrigger>
         <TooltipContent>
-          <p>Delete selected (Delete)</p>
+          <p>{editMode === 'ripple' ? 'Delete selected and close the gap (Delete)' : 'Delete selected (Delete, Shift+Delete to ripple)'}</p>
         </TooltipContent>
       </Tooltip>
 
@@ -166,6 +183,47 @@ export function Toolbar({
           <p>Toggle snap to clips</p>
         </TooltipContent>
       </Tooltip>
+
+      <Separator orientation="vertical" className="h-6 mx-2" />
+
+      {/* Edit Modes */}
+      {EDIT_MODES.map(({ mode, label, icon: Icon, hint }) => (
+        <Tooltip key={mode}>
+          <TooltipTrigger asChild>
+            <Button
+              onClick={() => onEditModeChange(mode)}
+              variant="ghost"
+              size="sm"
+              className={cn('gap-2', editMode === mode && 'bg-accent text-accent-foreground')}
+              data-active={editMode === mode}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{hint}</p>
+          </TooltipContent>
+        </Tooltip>
+      ))}
+
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            onClick={onToggleRippleAllTracks}
+            variant="ghost"
+            size="sm"
+            className={cn('gap-2', rippleAllTracks && 'bg-accent text-accent-foreground')}
+            data-active={rippleAllTracks}
+          >
+            <Link2 className="w-4 h-4" />
+            All tracks
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p>Ripple edits shift every track, keeping them in sync</p>
+        </TooltipContent>
+      </Tooltip>
     </div>
   );
 }
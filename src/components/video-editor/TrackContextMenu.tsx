@@ -1,29 +1,55 @@
 import { useEffect, useRef } from 'react';
 import { cn } from '@/lib/utils';
 import { Slider } from '@/components/ui/slider';
-import { Volume2 } from 'lucide-react';
+import { Volume2, Pencil, Lock, Unlock, ArrowUp, ArrowDown, Plus, Trash2 } from 'lucide-react';
 
 interface TrackContextMenuProps {
   trackIndex: number;
+  trackName: string;
   trackVolume: number;
   trackSpeed: number;
+  locked: boolean;
   position: { x: number; y: number };
   onClose: () => void;
   onVolumeChange: (trackIndex: number, volume: number) => void;
   onSpeedChange: (trackIndex: number, speed: number) => void;
+  onRename?: () => void;
+  onToggleLock?: () => void;
+  onMoveUp?: () => void; // omitted for the top track
+  onMoveDown?: () => void; // omitted for the bottom track
+  onAddTrack?: (where: 'above' | 'below') => void; // a track of the same kind
+  onDelete?: () => void;
 }
 
 export function TrackContextMenu({
   trackIndex,
+  trackName,
   trackVolume,
   trackSpeed,
+  locked,
   position,
   onClose,
   onVolumeChange,
   onSpeedChange,
+  onRename,
+  onToggleLock,
+  onMoveUp,
+  onMoveDown,
+  onAddTrack,
+  onDelete,
 }: TrackContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
 
+  const handleAction = (action: () => void) => {
+    action();
+    onClose();
+  };
+
+  const actionClass = cn(
+    'w-full px-4 py-2 text-left text-sm flex items-center gap-3',
+    'hover:bg-accent transition-colors'
+  );
+
   // Close on click outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -76,7 +102,7 @@ export function TrackContextMenu({
     >
       {/* Track info header */}
       <div className="px-4 py-2 border-b border-border/50">
-        <div className="text-sm font-medium">Track {trackIndex + 1} Controls</div>
+        <div className="text-sm font-medium truncate">{trackName}</div>
         <div className="text-xs text-muted-foreground">Applies to all clips on this track</div>
       </div>
 
@@ -103,7 +129,7 @@ export function TrackContextMenu({
       </div>
 
       {/* Speed control */}
-      <div className="px-4 py-3">
+      <div className="px-4 py-3 border-b border-border/50">
         <div className="flex items-center gap-3">
           <svg className="w-4 h-4 text-muted-foreground shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
@@ -130,6 +156,69 @@ export function TrackContextMenu({
           </div>
         </div>
       </div>
+
+      {/* Actions */}
+      <div className="pt-1">
+        {onRename && (
+          <button onClick={() => handleAction(onRename)} className={actionClass}>
+            <Pencil className="w-4 h-4" />
+            <span>Rename Track</span>
+          </button>
+        )}
+
+        {onToggleLock && (
+          <button onClick={() => handleAction(onToggleLock)} className={actionClass}>
+            {locked ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            <span>{locked ? 'Unlock Track' : 'Lock Track'}</span>
+          </button>
+        )}
+
+        {onMoveUp && (
+          <button onClick={() => handleAction(onMoveUp)} className={actionClass}>
+            <ArrowUp className="w-4 h-4" />
+            <span>Move Track Up</span>
+          </button>
+        )}
+
+        {onMoveDown && (
+          <button onClick={() => handleAction(onMoveDown)} className={actionClass}>
+            <ArrowDown className="w-4 h-4" />
+            <span>Move Track Down</span>
+          </button>
+        )}
+
+        {onAddTrack && (
+          <>
+            <button onClick={() => handleAction(() => onAddTrack('above'))} className={actionClass}>
+              <Plus className="w-4 h-4" />
+              <span>Add Track Above</span>
+            </button>
+            <button onClick={() => handleAction(() => onAddTrack('below'))} className={actionClass}>
+              <Plus className="w-4 h-4" />
+              <span>Add Track Below</span>
+            </button>
+          </>
+        )}
+
+        {/* Delete (locked tracks can't be deleted) */}
+        {onDelete && (
+          <>
+            <div className="my-1 border-t border-border/50" />
+            <button
+              onClick={() => handleAction(onDelete)}
+              disabled={locked}
+              className={cn(
+                'w-full px-4 py-2 text-left text-sm flex items-center gap-3',
+                'hover:bg-destructive/10 text-destructive transition-colors',
+                'disabled:opacity-50 disabled:pointer-events-none'
+              )}
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Delete Track</span>
+            </button>
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { deleteApiKey, getApiKeyStatus, saveApiKey } from '@/services/apiKeyService';
+import { ApiKeyStatus } from '@/types';
+
+// Where keys were kept before they moved server-side
+const LEGACY_STORAGE_KEY = 'xai-api-key';
+
+function takeLegacyKey(): string | null {
+  try {
+    const stored = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+    const key = stored ? JSON.parse(stored) : null;
+    return typeof key === 'string' && key.trim() ? key.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function useApiKey() {
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getApiKeyStatus()
+      .then(async (status) => {
+        // Move a key left in localStorage by older versions into the vault, once
+        const legacyKey = takeLegacyKey();
+        if (!status && legacyKey) {
+          try {
+            status = await saveApiKey(legacyKey);
+            if (!cancelled) toast.success('Your API key is now stored securely on the server');
+          } catch (error) {
+            if (!cancelled) toast.error(`Your saved API key could not be moved: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+        if (!cancelled) setKeyStatus(status);
+      })
+      .catch((error) => {
+        console.error('[ApiKey] Failed to load key status:', error);
+        if (!cancelled) toast.error('Failed to load API key');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Rejections are thrown so the key dialog can show why
+  const saveKey = useCallback(async (apiKey: string) => {
+    const status = await saveApiKey(apiKey);
+    setKeyStatus(status);
+    toast.success('API key saved');
+  }, []);
+
+  const removeKey = useCallback(async () => {
+    try {
+      const status = await deleteApiKey();
+      setKeyStatus(status);
+      toast.info(status ? 'API key removed - using your workspace key' : 'API key removed');
+    } catch (error) {
+      console.error('[ApiKey] Failed to remove key:', error);
+      toast.error('Failed to remove API key');
+    }
+  }, []);
+
+  return {
+    keyStatus,
+    isLoading,
+    saveKey,
+    removeKey,
+  };
+}
@@ -0,0 +1,290 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { toast } from 'sonner';
+import { generateVoiceover, mapWithConcurrency, VoiceGenerationOptions } from '@/services/voiceService';
+import { getStyleInstructions } from '@/components/DeliveryStyleSelector';
+import { BatchScript, WordTimestamp } from '@/types';
+import { decodeWavPcm } from '@/utils/wav';
+import { createZip, ZipEntry } from '@/utils/zip';
+
+export type BatchRowStatus = 'queued' | 'generating' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchRow extends BatchScript {
+  id: string;
+  status: BatchRowStatus;
+  attempts: number;
+  error?: string;
+  audioBlob?: Blob;
+  audioUrl?: string;
+  transcript?: string;
+  words?: WordTimestamp[];
+  duration?: number; // seconds
+}
+
+type RunOptions = Pick<VoiceGenerationOptions, 'chunkGap' | 'lexicon' | 'projectId'> & {
+  concurrency?: number; // rows generated at once
+};
+
+interface UseBatchQueueResult {
+  rows: BatchRow[];
+  isRunning: boolean;
+  addRows: (scripts: BatchScript[]) => void;
+  removeRow: (id: string) => void;
+  retryRow: (id: string) => void;
+  clear: () => void;
+  run: (options?: RunOptions) => Promise<void>;
+  cancel: () => void;
+  exportZip: () => Promise<void>; // download the finished WAVs and a manifest as a ZIP
+}
+
+// Rate-limited rows are retried after 2s, 4s, 8s... (capped, with jitter) before giving up
+const MAX_RETRIES = 5;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 30000;
+
+const isRateLimited = (message: string) => /rate limit|429/i.test(message);
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Resolves after `ms`, or early once `signal` aborts (at once if it already has)
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// "03-intro-to-the-show.wav" - numbered so the files sort in batch order
+function fileName(row: BatchRow, index: number, total: number): string {
+  const slug = row.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'voiceover';
+  return `${String(index + 1).padStart(Math.max(2, String(total).length), '0')}-${slug}.wav`;
+}
+
+export function useBatchQueue(): UseBatchQueueResult {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const rowsRef = useRef<BatchRow[]>([]);
+  rowsRef.current = rows;
+
+  // Stop generating and release the audio when leaving the page
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      rowsRef.current.forEach(row => row.audioUrl && URL.revokeObjectURL(row.audioUrl));
+    };
+  }, []);
+
+  const updateRow = useCallback((id: string, updates: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...updates } : row)));
+  }, []);
+
+  const addRows = useCallback((scripts: BatchScript[]) => {
+    setRows(prev => [
+      ...prev,
+      ...scripts.map(script => ({
+        ...script,
+        id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        status: 'queued' as const,
+        attempts: 0,
+      })),
+    ]);
+  }, []);
+
+  const removeRow = useCallback((id: string) => {
+    setRows(prev => {
+      const row = prev.find(r => r.id === id);
+      if (row?.status === 'generating' || row?.status === 'waiting') return prev;
+      if (row?.audioUrl) URL.revokeObjectURL(row.audioUrl);
+      return prev.filter(r => r.id !== id);
+    });
+  }, []);
+
+  const retryRow = useCallback((id: string) => {
+    updateRow(id, { status: 'queued', attempts: 0, error: undefined });
+  }, [updateRow]);
+
+  const clear = useCallback(() => {
+    controllerRef.current?.abort();
+    rowsRef.current.forEach(row => row.audioUrl && URL.revokeObjectURL(row.audioUrl));
+    setRows([]);
+  }, []);
+
+  // Generate one row, retrying with backoff while xAI rate limits us. Resolves to the row's final status.
+  const runRow = useCallback(
+    async (row: BatchRow, options: RunOptions, signal: AbortSignal): Promise<BatchRowStatus | null> => {
+      for (let attempt = 1; ; attempt++) {
+        // Removed from the list while it waited its turn
+        if (!rowsRef.current.some(r => r.id === row.id)) return null;
+        if (signal.aborted) {
+          updateRow(row.id, { status: 'cancelled' });
+          return 'cancelled';
+        }
+        updateRow(row.id, { status: 'generating', attempts: attempt, error: undefined });
+
+        // One chunk at a time per row - the rows themselves run in parallel
+        const result = await generateVoiceover(
+          row.script,
+          row.voice,
+          getStyleInstructions(row.presetId, []),
+          { chunkGap: options.chunkGap, lexicon: options.lexicon, projectId: options.projectId, concurrency: 1, signal }
+        );
+
+        if (signal.aborted) {
+          // A partial read isn't a usable deliverable
+          if (result.audioUrl) URL.revokeObjectURL(result.audioUrl);
+          updateRow(row.id, { status: 'cancelled' });
+          return 'cancelled';
+        }
+
+        if (result.success && result.audioBlob && result.audioUrl) {
+          let duration: number | undefined;
+          try {
+            const { pcm, sampleRate } = decodeWavPcm(new Uint8Array(await result.audioBlob.arrayBuffer()));
+            duration = pcm.byteLength / 2 / sampleRate;
+          } catch (error) {
+            console.error('[useBatchQueue] Failed to read duration:', error);
+          }
+          updateRow(row.id, {
+            status: 'done',
+            audioBlob: result.audioBlob,
+            audioUrl: result.audioUrl,
+            transcript: result.transcript || '',
+            words: result.words || [],
+            duration,
+          });
+          return 'done';
+        }
+
+        const message = result.error || 'Voice generation failed';
+        if (!isRateLimited(message) || attempt > MAX_RETRIES) {
+          updateRow(row.id, { status: 'failed', error: message });
+          return 'failed';
+        }
+
+        const delay = backoffDelay(attempt);
+        console.log(`[useBatchQueue] "${row.title}" rate limited, retrying in ${Math.round(delay / 1000)}s`);
+        updateRow(row.id, { status: 'waiting', error: message });
+        await wait(delay, signal);
+      }
+    },
+    [updateRow]
+  );
+
+  const run = useCallback(
+    async (options: RunOptions = {}) => {
+      if (controllerRef.current) return;
+
+      const queued = rowsRef.current.filter(row => row.status === 'queued' || row.status === 'cancelled');
+      if (queued.length === 0) return;
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setIsRunning(true);
+      // Rows replaced by a fresh run drop their old audio
+      queued.forEach(row => row.audioUrl && URL.revokeObjectURL(row.audioUrl));
+      setRows(prev =>
+        prev.map(row =>
+          queued.some(q => q.id === row.id)
+            ? { ...row, status: 'queued', audioBlob: undefined, audioUrl: undefined, error: undefined }
+            : row
+        )
+      );
+
+      try {
+        const statuses = await mapWithConcurrency(queued, options.concurrency ?? 2, row =>
+          runRow(row, options, controller.signal)
+        );
+
+        if (!controller.signal.aborted) {
+          const failed = statuses.filter(status => status === 'failed').length;
+          if (failed > 0) {
+            toast.warning(`Batch finished - ${failed} ${failed === 1 ? 'row' : 'rows'} failed`);
+          } else {
+            toast.success('Batch finished');
+          }
+        }
+      } catch (error) {
+        console.error('[useBatchQueue] Batch failed:', error);
+        toast.error('Batch generation failed');
+      } finally {
+        controllerRef.current = null;
+        setIsRunning(false);
+      }
+    },
+    [runRow]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Named WAVs of the finished rows plus a manifest of every row
+  const exportZip = useCallback(async () => {
+    const current = rowsRef.current;
+    const entries: ZipEntry[] = [];
+    const manifest = [];
+
+    for (const [index, row] of current.entries()) {
+      const file = row.status === 'done' && row.audioBlob ? fileName(row, index, current.length) : null;
+      if (file) {
+        entries.push({ name: file, data: new Uint8Array(await row.audioBlob!.arrayBuffer()) });
+      }
+      manifest.push({
+        title: row.title,
+        file,
+        voice: row.voice,
+        preset: row.presetId,
+        status: row.status,
+        duration: row.duration ?? null,
+        transcript: row.transcript ?? null,
+        words: row.words ?? [],
+        error: row.error ?? null,
+      });
+    }
+
+    if (entries.length === 0) {
+      toast.error('No finished voiceovers to export');
+      return;
+    }
+    entries.push({
+      name: 'manifest.json',
+      data: new TextEncoder().encode(JSON.stringify({ exportedAt: new Date().toISOString(), rows: manifest }, null, 2)),
+    });
+
+    const url = URL.createObjectURL(createZip(entries));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `voiceover-batch-${Date.now()}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, []);
+
+  return {
+    rows,
+    isRunning,
+    addRows,
+    removeRow,
+    retryRow,
+    clear,
+    run,
+    cancel,
+    exportZip,
+  };
+}
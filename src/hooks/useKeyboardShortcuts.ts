@@ -1,9 +1,23 @@
 import { useEffect } from 'react';
+import { EditMode } from '@/types/video-editor';
+
+// Single-key edit mode shortcuts, as in most NLEs
+const EDIT_MODE_KEYS: Record<string, EditMode> = {
+  v: 'normal',
+  b: 'ripple',
+  n: 'roll',
+  y: 'slip',
+};
 
 interface KeyboardShortcutHandlers {
   onPlayPause?: () => void;
   onSplit?: () => void;
   onDelete?: () => void;
+  onRippleDelete?: () => void;
+  onSetEditMode?: (mode: EditMode) => void;
+  onAddMarker?: () => void;
+  onNextMarker?: () => void;
+  onPreviousMarker?: () => void;
   onCopy?: () => void;
   onPaste?: () => void;
   onUndo?: () => void;
@@ -44,12 +58,42 @@ export function useKeyboardShortcuts(handlers: KeyboardShortcutHandlers, enabled
         handlers.onSplit?.();
       }
 
+      // Shift + Delete/Backspace: Delete selected and close the gap
+      else if ((e.key === 'Delete' || e.key === 'Backspace') && !cmdKey && e.shiftKey) {
+        e.preventDefault();
+        handlers.onRippleDelete?.();
+      }
+
       // Delete/Backspace: Delete selected
       else if ((e.key === 'Delete' || e.key === 'Backspace') && !cmdKey) {
         e.preventDefault();
         handlers.onDelete?.();
       }
 
+      // V/B/N/Y: Select, ripple, roll and slip edit modes
+      else if (EDIT_MODE_KEYS[e.key] && !cmdKey && !e.shiftKey && !e.altKey) {
+        e.preventDefault();
+        handlers.onSetEditMode?.(EDIT_MODE_KEYS[e.key]);
+      }
+
+      // M: Add a marker at the playhead
+      else if (e.code === 'KeyM' && !cmdKey && !e.shiftKey && !e.altKey) {
+        e.preventDefault();
+        handlers.onAddMarker?.();
+      }
+
+      // Shift + M: Jump to the next marker
+      else if (e.code === 'KeyM' && !cmdKey && e.shiftKey) {
+        e.preventDefault();
+        handlers.onNextMarker?.();
+      }
+
+      // Cmd/Ctrl + Shift + M: Jump to the previous marker
+      else if (e.code === 'KeyM' && cmdKey && e.shiftKey) {
+        e.preventDefault();
+        handlers.onPreviousMarker?.();
+      }
+
       // Cmd/Ctrl + C: Copy
       else if (e.key === 'c' && cmdKey && !e.shiftKey) {
         e.preventDefault();
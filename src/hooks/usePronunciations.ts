@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import {
+  addPronunciation,
+  deletePronunciation,
+  getWorkspaceOwnerId,
+  listPronunciations,
+  PronunciationInput,
+  updatePronunciation,
+} from '@/services/pronunciationService';
+import { PronunciationEntry } from '@/types';
+
+export function usePronunciations(projectId: string | null) {
+  const [entries, setEntries] = useState<PronunciationEntry[]>([]);
+  const [ownerId, setOwnerId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getWorkspaceOwnerId(projectId)
+      .then(async (owner) => {
+        const result = await listPronunciations(owner);
+        if (cancelled) return;
+        setOwnerId(owner);
+        setEntries(result);
+      })
+      .catch((error) => {
+        console.error('[Pronunciations] Failed to load lexicon:', error);
+        if (!cancelled) toast.error('Failed to load pronunciations');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const addEntry = useCallback(async (entry: PronunciationInput) => {
+    if (!ownerId) return;
+    try {
+      const saved = await addPronunciation(ownerId, entry);
+      setEntries(prev => [...prev, saved].sort((a, b) => a.term.localeCompare(b.term)));
+    } catch (error) {
+      console.error('[Pronunciations] Failed to add entry:', error);
+      toast.error(`Failed to add "${entry.term}" - is it already in the lexicon?`);
+    }
+  }, [ownerId]);
+
+  const editEntry = useCallback(async (entry: PronunciationEntry, updates: PronunciationInput) => {
+    // Optimistic - roll back if the store rejects it
+    setEntries(prev => prev.map(e => (e.id === entry.id ? { ...e, ...updates } : e)));
+    try {
+      await updatePronunciation(entry.id, updates);
+    } catch (error) {
+      console.error('[Pronunciations] Failed to update entry:', error);
+      setEntries(prev => prev.map(e => (e.id === entry.id ? entry : e)));
+      toast.error('Failed to update pronunciation');
+    }
+  }, []);
+
+  const removeEntry = useCallback(async (entry: PronunciationEntry) => {
+    try {
+      await deletePronunciation(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('[Pronunciations] Failed to delete entry:', error);
+      toast.error('Failed to delete pronunciation');
+    }
+  }, []);
+
+  return {
+    entries,
+    isLoading,
+    addEntry,
+    editEntry,
+    removeEntry,
+  };
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { deleteTake, getTakeAudio, listTakes, saveTake, TakeUpdates, updateTake } from '@/services/takeService';
+import { VoiceTake } from '@/types';
+
+type NewTake = Omit<VoiceTake, 'id' | 'createdAt' | 'storagePath' | 'projectId' | 'name' | 'starred'>;
+
+export function useTakeHistory(projectId: string | null) {
+  const [takes, setTakes] = useState<VoiceTake[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Blob URLs for takes that have been played, revoked on unmount
+  const audioUrlsRef = useRef<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    listTakes(projectId)
+      .then((result) => {
+        if (!cancelled) setTakes(result);
+      })
+      .catch((error) => {
+        console.error('[TakeHistory] Failed to load takes:', error);
+        if (!cancelled) toast.error('Failed to load take history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    const audioUrls = audioUrlsRef.current;
+    return () => {
+      audioUrls.forEach(url => URL.revokeObjectURL(url));
+      audioUrls.clear();
+    };
+  }, []);
+
+  const addTake = useCallback(async (take: NewTake, audio: Blob) => {
+    try {
+      const saved = await saveTake(
+        { ...take, projectId, name: `Take ${takes.length + 1}`, starred: false },
+        audio
+      );
+      audioUrlsRef.current.set(saved.id, URL.createObjectURL(audio));
+      setTakes(prev => [saved, ...prev]);
+    } catch (error) {
+      console.error('[TakeHistory] Failed to save take:', error);
+      toast.error('Failed to save take to history');
+    }
+  }, [projectId, takes.length]);
+
+  const editTake = useCallback(async (take: VoiceTake, updates: TakeUpdates) => {
+    // Optimistic - roll back if the store rejects it
+    setTakes(prev => prev.map(t => (t.id === take.id ? { ...t, ...updates } : t)));
+    try {
+      await updateTake(take, updates);
+    } catch (error) {
+      console.error('[TakeHistory] Failed to update take:', error);
+      setTakes(prev => prev.map(t => (t.id === take.id ? take : t)));
+      toast.error('Failed to update take');
+    }
+  }, []);
+
+  const removeTake = useCallback(async (take: VoiceTake) => {
+    try {
+      await deleteTake(take);
+      const url = audioUrlsRef.current.get(take.id);
+      if (url) {
+        URL.revokeObjectURL(url);
+        audioUrlsRef.current.delete(take.id);
+      }
+      setTakes(prev => prev.filter(t => t.id !== take.id));
+    } catch (error) {
+      console.error('[TakeHistory] Failed to delete take:', error);
+      toast.error('Failed to delete take');
+    }
+  }, []);
+
+  // Playable URL for a take, loading its audio on first use
+  const getAudioUrl = useCallback(async (take: VoiceTake): Promise<string> => {
+    const cached = audioUrlsRef.current.get(take.id);
+    if (cached) return cached;
+
+    const url = URL.createObjectURL(await getTakeAudio(take));
+    audioUrlsRef.current.set(take.id, url);
+    return url;
+  }, []);
+
+  return {
+    takes,
+    isLoading,
+    addTake,
+    editTake,
+    removeTake,
+    getAudioUrl,
+  };
+}
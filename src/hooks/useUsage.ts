@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import { getMonthlyCost, getMonthlyLimit, listUsage, setMonthlyLimit } from '@/services/usageService';
+import { getWorkspaceOwnerId } from '@/services/pronunciationService';
+import { UsageRecord } from '@/types';
+
+export type UsagePeriod = 'month' | '30d' | '90d';
+
+export interface UsageTotals {
+  generations: number;
+  characters: number;
+  audioSeconds: number;
+  estimatedCost: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+const EMPTY_TOTALS: UsageTotals = { generations: 0, characters: 0, audioSeconds: 0, estimatedCost: 0 };
+
+function periodStart(period: UsagePeriod): Date {
+  const now = new Date();
+  if (period === 'month') {
+    // Calendar month in UTC, matching the limit check
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+  const days = period === '30d' ? 30 : 90;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): UsageTotals {
+  return {
+    generations: totals.generations + 1,
+    characters: totals.characters + record.characters,
+    audioSeconds: totals.audioSeconds + record.audioSeconds,
+    estimatedCost: totals.estimatedCost + record.estimatedCost,
+  };
+}
+
+// Totals per key, biggest spend first
+function groupBy(records: UsageRecord[], keyOf: (record: UsageRecord) => [string, string]): UsageGroup[] {
+  const groups = new Map<string, UsageGroup>();
+  for (const record of records) {
+    const [key, label] = keyOf(record);
+    const group = groups.get(key) ?? { key, label, ...EMPTY_TOTALS };
+    groups.set(key, { ...group, ...addRecord(group, record) });
+  }
+  return [...groups.values()].sort((a, b) => b.estimatedCost - a.estimatedCost);
+}
+
+export function useUsage(period: UsagePeriod) {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [ownerId, setOwnerId] = useState<string | null>(null);
+  const [monthlyLimit, setLimitState] = useState<number | null>(null);
+  const [monthlyCost, setMonthlyCost] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getWorkspaceOwnerId(null)
+      .then(async (owner) => {
+        const [usage, limit, cost] = await Promise.all([
+          listUsage(periodStart(period)),
+          getMonthlyLimit(owner),
+          getMonthlyCost(owner),
+        ]);
+        if (cancelled) return;
+        setOwnerId(owner);
+        setRecords(usage);
+        setLimitState(limit);
+        setMonthlyCost(cost);
+      })
+      .catch((error) => {
+        console.error('[Usage] Failed to load usage:', error);
+        if (!cancelled) toast.error('Failed to load usage');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period]);
+
+  const totals = useMemo(() => records.reduce(addRecord, EMPTY_TOTALS), [records]);
+
+  const byUser = useMemo(
+    () => groupBy(records, record => [
+      record.userId,
+      record.userId === ownerId ? 'You' : record.userEmail || 'Unknown member',
+    ]),
+    [records, ownerId]
+  );
+
+  const byProject = useMemo(
+    () => groupBy(records, record => [
+      record.projectId ?? 'none',
+      record.projectId ? record.projectName || 'Shared project' : 'No project',
+    ]),
+    [records]
+  );
+
+  // Estimated cost per day, oldest first, for the chart
+  const byDay = useMemo(() => {
+    const days = new Map<string, number>();
+    for (const record of [...records].reverse()) {
+      const day = record.createdAt.slice(0, 10);
+      days.set(day, (days.get(day) ?? 0) + record.estimatedCost);
+    }
+    return [...days.entries()].map(([day, estimatedCost]) => ({ day, estimatedCost }));
+  }, [records]);
+
+  const updateLimit = useCallback(async (limit: number | null) => {
+    if (!ownerId) return;
+    const previous = monthlyLimit;
+    // Optimistic - roll back if the store rejects it
+    setLimitState(limit);
+    try {
+      await setMonthlyLimit(ownerId, limit);
+      toast.success(limit === null ? 'Monthly limit removed' : `Monthly limit set to $${limit.toFixed(2)}`);
+    } catch (error) {
+      console.error('[Usage] Failed to update limit:', error);
+      setLimitState(previous);
+      toast.error('Failed to update monthly limit');
+    }
+  }, [ownerId, monthlyLimit]);
+
+  return {
+    records,
+    totals,
+    byUser,
+    byProject,
+    byDay,
+    monthlyLimit,
+    monthlyCost,
+    isLoading,
+    updateLimit,
+  };
+}
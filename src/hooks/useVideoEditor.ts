@@ -1,11 +1,43 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   MediaAsset,
   TimelineClip,
   EditorState,
   AspectRatio,
   ClipboardData,
+  TimelineMarker,
+  Track,
+  TrackKind,
+  TrackSettings,
 } from '@/types/video-editor';
+import { CaptionStyle } from '@/types/editor';
+import { CaptionSegment } from '@/utils/captions';
+import {
+  applyHistoryEntry,
+  clipsLabel,
+  createHistoryEntry,
+  EditorHistory,
+  EMPTY_HISTORY,
+  HistoryEntry,
+  pushHistoryEntry,
+} from '@/utils/editorHistory';
+import { rippleDelete, rippleTrim, rollEdit as rollCut } from '@/utils/timelineEdits';
+import { applyLinkedUpdate, expandLinkedIds, generateLinkGroupId, remapLinkGroups } from '@/utils/clipLinks';
+import {
+  createDefaultTracks,
+  createTrack,
+  DEFAULT_TRACK_SETTINGS,
+  ensureTracks,
+  insertTrack,
+  MAX_TRACK_HEIGHT,
+  MIN_TRACK_HEIGHT,
+  moveTrack as moveTrackTo,
+  protectLockedTracks,
+  removeTrack,
+  resolveClipTrack,
+  trackSettingsByIndex,
+} from '@/utils/tracks';
+import { createMarker, findAdjacentMarker, sortMarkers } from '@/utils/markers';
 
 const INITIAL_STATE: EditorState = {
   assets: [],
@@ -17,7 +49,9 @@ const INITIAL_STATE: EditorState = {
   aspectRatio: '16:9',
   volume: 1,
   duration: 0,
+  tracks: createDefaultTracks(),
   trackSettings: {},
+  markers: [],
   seekVersion: 0, // Increments on explicit user seeks to trigger media sync
 };
 
@@ -33,15 +67,23 @@ interface UseVideoEditorResult {
   // Clips
   addClip: (clip: Omit<TimelineClip, 'id'>) => string;
   removeClip: (clipId: string) => void;
-  updateClip: (clipId: string, updates: Partial<TimelineClip>) => void;
-  updateMultipleClips: (clipIds: string[], getUpdates: (clip: TimelineClip) => Partial<TimelineClip>) => void;
+  updateClip: (clipId: string, updates: Partial<TimelineClip>, label?: string) => void;
+  updateMultipleClips: (clipIds: string[], getUpdates: (clip: TimelineClip) => Partial<TimelineClip>, label?: string) => void;
+  rippleTrimClip: (clipId: string, updates: Pick<TimelineClip, 'duration' | 'trimStart'>, allTracks: boolean) => void;
+  rollEdit: (clipId: string, side: 'left' | 'right', cutTime: number) => void;
   getClip: (clipId: string) => TimelineClip | undefined;
   getClipsAtTime: (time: number) => TimelineClip[];
 
+  // Captions
+  addCaptionClips: (segments: CaptionSegment[], style: CaptionStyle, trackIndex?: number) => string[];
+
   // Selection
   selectClip: (clipId: string, multiSelect?: boolean) => void;
   deselectAll: () => void;
   deleteSelected: () => void;
+  linkClips: (clipIds: string[]) => void;
+  unlinkClip: (clipId: string) => void;
+  rippleDeleteSelected: (allTracks: boolean) => void;
 
   // Playback
   setPlayheadPosition: (position: number) => void;
@@ -57,12 +99,27 @@ interface UseVideoEditorResult {
   setAspectRatio: (ratio: AspectRatio) => void;
   setVolume: (volume: number) => void;
 
+  // Tracks
+  addTrack: (kind: TrackKind, index?: number) => void; // appended when no index is given
+  deleteTrack: (trackIndex: number) => void;
+  moveTrack: (fromIndex: number, toIndex: number) => void;
+  renameTrack: (trackIndex: number, name: string) => void;
+  setTrackLocked: (trackIndex: number, locked: boolean) => void;
+  setTrackHeight: (trackIndex: number, height: number) => void;
+
   // Track settings
   setTrackVolume: (trackIndex: number, volume: number) => void;
   setTrackSpeed: (trackIndex: number, speed: number) => void;
   setTrackVisible: (trackIndex: number, visible: boolean) => void;
   setTrackMuted: (trackIndex: number, muted: boolean) => void;
-  getTrackSettings: (trackIndex: number) => { volume: number; speed: number; visible: boolean; muted: boolean };
+  getTrackSettings: (trackIndex: number) => TrackSettings;
+  trackSettingsByIndex: Record<number, TrackSettings>; // for the preview and exporters, which look up clip.trackIndex
+
+  // Markers
+  addMarker: (time?: number) => void; // at the playhead when no time is given
+  updateMarker: (markerId: string, updates: Partial<Omit<TimelineMarker, 'id'>>, label?: string) => void;
+  removeMarker: (markerId: string) => void;
+  jumpToMarker: (direction: 'next' | 'prev') => void;
 
   // Clipboard
   copySelected: () => void;
@@ -76,6 +133,11 @@ interface UseVideoEditorResult {
   redo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  history: HistoryEntry[];
+  historyIndex: number; // number of history entries currently applied
+  jumpToHistory: (index: number) => void;
+  beginGesture: (label: string) => void; // edits until endGesture() undo as one step
+  endGesture: () => void;
 
   // Project management
   loadState: (newState: EditorState) => void;
@@ -85,22 +147,29 @@ interface UseVideoEditorResult {
 
 export function useVideoEditor(): UseVideoEditorResult {
   const [state, setState] = useState<EditorState>(INITIAL_STATE);
-  const [history, setHistory] = useState<EditorState[]>([INITIAL_STATE]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const [history, setHistory] = useState<EditorHistory>(EMPTY_HISTORY);
+  // Open drag/trim gesture: its first and latest states, recorded as a single entry when it ends
+  const gestureRef = useRef<{ label: string; before: EditorState | null; after: EditorState | null } | null>(null);
   const clipboard = useRef<ClipboardData>({ clips: [] });
   const playbackInterval = useRef<number | null>(null);
 
   // Generate unique ID
   const generateId = () => `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-  // Add to history for undo/redo
-  const addToHistory = useCallback((newState: EditorState) => {
-    setHistory(prev => {
-      const newHistory = prev.slice(0, historyIndex + 1);
-      return [...newHistory, newState];
-    });
-    setHistoryIndex(prev => prev + 1);
-  }, [historyIndex]);
+  // Add an undoable edit to history. Edits made during a gesture are collected and recorded by endGesture.
+  const addToHistory = useCallback((label: string, before: EditorState, after: EditorState) => {
+    const gesture = gestureRef.current;
+    if (gesture) {
+      gesture.before = gesture.before ?? before;
+      gesture.after = after;
+      return;
+    }
+
+    const entry = createHistoryEntry(label, before, after);
+    if (entry) {
+      setHistory(prev => pushHistoryEntry(prev, entry));
+    }
+  }, []);
 
   // Update duration based on clips
   const calculateDuration = useCallback((clips: TimelineClip[]): number => {
@@ -108,6 +177,18 @@ export function useVideoEditor(): UseVideoEditorResult {
     return Math.max(...clips.map(clip => clip.startTime + clip.duration));
   }, []);
 
+  // Every clip edit ends here: changes to locked tracks are undone, clips placed past the last track
+  // get one, and the selection and duration follow the clips
+  const settleClipEdit = useCallback((prev: EditorState, newState: EditorState) => {
+    newState.clips = protectLockedTracks(prev.clips, newState.clips, prev.tracks);
+    newState.tracks = ensureTracks(newState.tracks, newState.clips, newState.assets);
+    if (newState.clips !== prev.clips) {
+      const clipIds = new Set(newState.clips.map(c => c.id));
+      newState.selectedClipIds = newState.selectedClipIds.filter(id => clipIds.has(id));
+    }
+    newState.duration = calculateDuration(newState.clips);
+  }, [calculateDuration]);
+
   // Assets
   const addAsset = useCallback((asset: MediaAsset) => {
     setState(prev => {
@@ -115,7 +196,7 @@ export function useVideoEditor(): UseVideoEditorResult {
         ...prev,
         assets: [...prev.assets, asset],
       };
-      addToHistory(newState);
+      addToHistory(`Add ${asset.name}`, prev, newState);
       return newState;
     });
   }, [addToHistory]);
@@ -128,7 +209,7 @@ export function useVideoEditor(): UseVideoEditorResult {
         clips: prev.clips.filter(c => c.assetId !== assetId),
       };
       newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      addToHistory(`Remove ${prev.assets.find(a => a.id === assetId)?.name ?? 'media'}`, prev, newState);
       return newState;
     });
   }, [addToHistory, calculateDuration]);
@@ -138,49 +219,56 @@ export function useVideoEditor(): UseVideoEditorResult {
   }, [state.assets]);
 
   // Clips
+  // A clip aimed at a track that can't take it (locked, or the wrong kind) goes on one that can
   const addClip = useCallback((clip: Omit<TimelineClip, 'id'>): string => {
     const id = generateId();
-    const newClip: TimelineClip = { ...clip, id };
 
     setState(prev => {
+      const newClip: TimelineClip = { ...clip, id };
+      const asset = prev.assets.find(a => a.id === clip.assetId);
+      newClip.trackIndex = resolveClipTrack(prev.tracks, clip.trackIndex, newClip, asset);
+
       const newState = {
         ...prev,
         clips: [...prev.clips, newClip],
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory('Add clip', prev, newState);
       return newState;
     });
 
     return id;
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
 
+  // Removes the clip along with any clips linked to it
   const removeClip = useCallback((clipId: string) => {
     setState(prev => {
+      const removedIds = expandLinkedIds(prev.clips, [clipId]);
       const newState = {
         ...prev,
-        clips: prev.clips.filter(c => c.id !== clipId),
-        selectedClipIds: prev.selectedClipIds.filter(id => id !== clipId),
+        clips: prev.clips.filter(c => !removedIds.includes(c.id)),
+        selectedClipIds: prev.selectedClipIds.filter(id => !removedIds.includes(id)),
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory(clipsLabel('Delete', removedIds.length), prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
 
-  const updateClip = useCallback((clipId: string, updates: Partial<TimelineClip>) => {
+  // Timing changes (move, trim, slip) carry over to linked clips
+  const updateClip = useCallback((clipId: string, updates: Partial<TimelineClip>, label = 'Edit clip') => {
     setState(prev => {
-      const newState = {
-        ...prev,
-        clips: prev.clips.map(c => c.id === clipId ? { ...c, ...updates } : c),
-      };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      const clips = applyLinkedUpdate(prev.clips, prev.assets, clipId, updates);
+      if (clips === prev.clips) return prev;
+
+      const newState = { ...prev, clips };
+      settleClipEdit(prev, newState);
+      addToHistory(label, prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
 
-  const updateMultipleClips = useCallback((clipIds: string[], getUpdates: (clip: TimelineClip) => Partial<TimelineClip>) => {
+  const updateMultipleClips = useCallback((clipIds: string[], getUpdates: (clip: TimelineClip) => Partial<TimelineClip>, label?: string) => {
     setState(prev => {
       const newState = {
         ...prev,
@@ -192,11 +280,37 @@ export function useVideoEditor(): UseVideoEditorResult {
           return c;
         }),
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory(label ?? clipsLabel('Edit', clipIds.length), prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
+
+  // Trim without moving the clip's start, shifting later clips by the change in length
+  const rippleTrimClip = useCallback((clipId: string, updates: Pick<TimelineClip, 'duration' | 'trimStart'>, allTracks: boolean) => {
+    setState(prev => {
+      const clips = rippleTrim(prev.clips, prev.assets, clipId, updates, allTracks);
+      if (clips === prev.clips) return prev;
+
+      const newState = { ...prev, clips };
+      settleClipEdit(prev, newState);
+      addToHistory('Ripple trim', prev, newState);
+      return newState;
+    });
+  }, [addToHistory, settleClipEdit]);
+
+  // Move the cut between a clip and its neighbour on one side
+  const rollEdit = useCallback((clipId: string, side: 'left' | 'right', cutTime: number) => {
+    setState(prev => {
+      const clips = rollCut(prev.clips, prev.assets, clipId, side, cutTime);
+      if (clips === prev.clips) return prev;
+
+      const newState = { ...prev, clips };
+      settleClipEdit(prev, newState);
+      addToHistory('Roll edit', prev, newState);
+      return newState;
+    });
+  }, [addToHistory, settleClipEdit]);
 
   const getClip = useCallback((clipId: string) => {
     return state.clips.find(c => c.id === clipId);
@@ -208,16 +322,59 @@ export function useVideoEditor(): UseVideoEditorResult {
     );
   }, [state.clips]);
 
+  // Captions
+  // Adds one caption clip per segment. Without a trackIndex, a new captions track is added below all others.
+  const addCaptionClips = useCallback((segments: CaptionSegment[], style: CaptionStyle, trackIndex?: number): string[] => {
+    if (segments.length === 0) return [];
+
+    const newClips: TimelineClip[] = segments.map(segment => ({
+      id: generateId(),
+      assetId: '',
+      trackIndex: 0, // assigned below once we know the target track
+      startTime: segment.startTime,
+      duration: segment.duration,
+      trimStart: 0,
+      trimEnd: 0,
+      caption: { text: segment.text, style },
+    }));
+
+    setState(prev => {
+      const tracks = trackIndex === undefined ? [...prev.tracks, createTrack(prev.tracks, 'caption')] : prev.tracks;
+      const targetTrack = trackIndex ?? prev.tracks.length;
+      const clips = newClips.map(clip => ({ ...clip, trackIndex: targetTrack }));
+
+      const newState = {
+        ...prev,
+        clips: [...prev.clips, ...clips],
+        tracks,
+        selectedClipIds: clips.map(c => c.id),
+      };
+      settleClipEdit(prev, newState);
+      addToHistory('Add captions', prev, newState);
+      return newState;
+    });
+
+    return newClips.map(c => c.id);
+  }, [addToHistory, settleClipEdit]);
+
   // Selection
+  // Selecting a linked clip selects its whole group, so copy, delete and split act on all of it.
+  // Clips on locked tracks can't be selected.
   const selectClip = useCallback((clipId: string, multiSelect = false) => {
-    setState(prev => ({
-      ...prev,
-      selectedClipIds: multiSelect
-        ? prev.selectedClipIds.includes(clipId)
-          ? prev.selectedClipIds.filter(id => id !== clipId)
-          : [...prev.selectedClipIds, clipId]
-        : [clipId],
-    }));
+    setState(prev => {
+      const isLocked = (id: string) => !!prev.tracks[prev.clips.find(c => c.id === id)?.trackIndex ?? -1]?.locked;
+      if (isLocked(clipId)) return prev;
+
+      const groupIds = expandLinkedIds(prev.clips, [clipId]).filter(id => !isLocked(id));
+      return {
+        ...prev,
+        selectedClipIds: multiSelect
+          ? prev.selectedClipIds.includes(clipId)
+            ? prev.selectedClipIds.filter(id => !groupIds.includes(id))
+            : [...prev.selectedClipIds, ...groupIds.filter(id => !prev.selectedClipIds.includes(id))]
+          : groupIds,
+      };
+    });
   }, []);
 
   const deselectAll = useCallback(() => {
@@ -234,11 +391,58 @@ export function useVideoEditor(): UseVideoEditorResult {
         clips: prev.clips.filter(c => !prev.selectedClipIds.includes(c.id)),
         selectedClipIds: [],
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory(clipsLabel('Delete', prev.selectedClipIds.length), prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
+
+  // Link clips so they move, trim, split and delete together
+  const linkClips = useCallback((clipIds: string[]) => {
+    if (clipIds.length < 2) return;
+    const linkGroupId = generateLinkGroupId();
+
+    setState(prev => {
+      const newState = {
+        ...prev,
+        clips: prev.clips.map(c => clipIds.includes(c.id) ? { ...c, linkGroupId } : c),
+      };
+      addToHistory(clipsLabel('Link', clipIds.length), prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  // Unlink a clip's whole group. A group of two would leave a single clip linked to nothing.
+  const unlinkClip = useCallback((clipId: string) => {
+    setState(prev => {
+      const groupIds = expandLinkedIds(prev.clips, [clipId]);
+      if (groupIds.length < 2) return prev;
+
+      const newState = {
+        ...prev,
+        clips: prev.clips.map(c => groupIds.includes(c.id) ? { ...c, linkGroupId: undefined } : c),
+        selectedClipIds: [clipId],
+      };
+      addToHistory(clipsLabel('Unlink', groupIds.length), prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  // Delete the selection and close the gaps it leaves
+  const rippleDeleteSelected = useCallback((allTracks: boolean) => {
+    setState(prev => {
+      if (prev.selectedClipIds.length === 0) return prev;
+
+      const newState = {
+        ...prev,
+        clips: rippleDelete(prev.clips, prev.selectedClipIds, allTracks),
+        selectedClipIds: [],
+      };
+      settleClipEdit(prev, newState);
+      addToHistory(clipsLabel('Ripple delete', prev.selectedClipIds.length), prev, newState);
+      return newState;
+    });
+  }, [addToHistory, settleClipEdit]);
 
   // Track the playback start state to avoid restarting on every position change
   const playbackStartRef = useRef<{ startTime: number; startPosition: number; version: number } | null>(null);
@@ -373,62 +577,174 @@ export function useVideoEditor(): UseVideoEditorResult {
     }));
   }, []);
 
+  // Tracks
+  const addTrack = useCallback((kind: TrackKind, index?: number) => {
+    setState(prev => {
+      const track = createTrack(prev.tracks, kind);
+      const { tracks, clips } = insertTrack(prev.tracks, prev.clips, index ?? prev.tracks.length, track);
+      const newState = { ...prev, tracks, clips };
+      addToHistory(`Add ${track.name}`, prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  // Deletes the track along with its clips. Locked tracks can't be deleted.
+  const deleteTrack = useCallback((trackIndex: number) => {
+    setState(prev => {
+      const track = prev.tracks[trackIndex];
+      if (!track || track.locked) return prev;
+
+      const { tracks, clips } = removeTrack(prev.tracks, prev.clips, trackIndex);
+      const clipIds = new Set(clips.map(c => c.id));
+      const newState = {
+        ...prev,
+        tracks,
+        clips,
+        selectedClipIds: prev.selectedClipIds.filter(id => clipIds.has(id)),
+        duration: calculateDuration(clips),
+      };
+      addToHistory(`Delete ${track.name}`, prev, newState);
+      return newState;
+    });
+  }, [addToHistory, calculateDuration]);
+
+  // Reordering changes which track draws on top - lower tracks are drawn first
+  const moveTrack = useCallback((fromIndex: number, toIndex: number) => {
+    setState(prev => {
+      const { tracks, clips } = moveTrackTo(prev.tracks, prev.clips, fromIndex, toIndex);
+      if (tracks === prev.tracks) return prev;
+
+      const newState = { ...prev, tracks, clips };
+      addToHistory('Reorder tracks', prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  // Apply changes to one track and record them
+  const updateTrack = useCallback((trackIndex: number, getUpdates: (track: Track) => Partial<Track> | null, label: string) => {
+    setState(prev => {
+      const track = prev.tracks[trackIndex];
+      const updates = track && getUpdates(track);
+      if (!updates) return prev;
+
+      const newState = {
+        ...prev,
+        tracks: prev.tracks.map((t, i) => i === trackIndex ? { ...t, ...updates } : t),
+      };
+      addToHistory(label, prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  const renameTrack = useCallback((trackIndex: number, name: string) => {
+    const trimmed = name.trim();
+    updateTrack(trackIndex, track => trimmed && trimmed !== track.name ? { name: trimmed } : null, 'Rename track');
+  }, [updateTrack]);
+
+  // Locking also drops the track's clips from the selection
+  const setTrackLocked = useCallback((trackIndex: number, locked: boolean) => {
+    updateTrack(trackIndex, track => track.locked !== locked ? { locked } : null, locked ? 'Lock track' : 'Unlock track');
+    if (locked) {
+      setState(prev => ({
+        ...prev,
+        selectedClipIds: prev.selectedClipIds.filter(id => prev.clips.find(c => c.id === id)?.trackIndex !== trackIndex),
+      }));
+    }
+  }, [updateTrack]);
+
+  const setTrackHeight = useCallback((trackIndex: number, height: number) => {
+    const clamped = Math.round(Math.max(MIN_TRACK_HEIGHT, Math.min(height, MAX_TRACK_HEIGHT)));
+    updateTrack(trackIndex, track => track.height !== clamped ? { height: clamped } : null, 'Resize track');
+  }, [updateTrack]);
+
   // Track settings
-  const setTrackVolume = useCallback((trackIndex: number, volume: number) => {
-    setState(prev => ({
-      ...prev,
-      trackSettings: {
-        ...prev.trackSettings,
-        [trackIndex]: {
-          ...(prev.trackSettings[trackIndex] || { volume: 1, speed: 1, visible: true, muted: false }),
-          volume: Math.max(0, Math.min(volume, 1)),
+  // Mixer settings aren't undoable, so they live outside the tracks, keyed by track id
+  const updateTrackSettings = useCallback((trackIndex: number, updates: Partial<TrackSettings>) => {
+    setState(prev => {
+      const track = prev.tracks[trackIndex];
+      if (!track) return prev;
+
+      return {
+        ...prev,
+        trackSettings: {
+          ...prev.trackSettings,
+          [track.id]: { ...(prev.trackSettings[track.id] || DEFAULT_TRACK_SETTINGS), ...updates },
         },
-      },
-    }));
+      };
+    });
   }, []);
 
+  const setTrackVolume = useCallback((trackIndex: number, volume: number) => {
+    updateTrackSettings(trackIndex, { volume: Math.max(0, Math.min(volume, 1)) });
+  }, [updateTrackSettings]);
+
   const setTrackSpeed = useCallback((trackIndex: number, speed: number) => {
-    setState(prev => ({
-      ...prev,
-      trackSettings: {
-        ...prev.trackSettings,
-        [trackIndex]: {
-          ...(prev.trackSettings[trackIndex] || { volume: 1, speed: 1, visible: true, muted: false }),
-          speed: Math.max(0.25, Math.min(speed, 4)),
-        },
-      },
-    }));
-  }, []);
+    updateTrackSettings(trackIndex, { speed: Math.max(0.25, Math.min(speed, 4)) });
+  }, [updateTrackSettings]);
 
   const setTrackVisible = useCallback((trackIndex: number, visible: boolean) => {
-    setState(prev => ({
-      ...prev,
-      trackSettings: {
-        ...prev.trackSettings,
-        [trackIndex]: {
-          ...(prev.trackSettings[trackIndex] || { volume: 1, speed: 1, visible: true, muted: false }),
-          visible,
-        },
-      },
-    }));
-  }, []);
+    updateTrackSettings(trackIndex, { visible });
+  }, [updateTrackSettings]);
 
   const setTrackMuted = useCallback((trackIndex: number, muted: boolean) => {
-    setState(prev => ({
-      ...prev,
-      trackSettings: {
-        ...prev.trackSettings,
-        [trackIndex]: {
-          ...(prev.trackSettings[trackIndex] || { volume: 1, speed: 1, visible: true, muted: false }),
-          muted,
-        },
-      },
-    }));
-  }, []);
+    updateTrackSettings(trackIndex, { muted });
+  }, [updateTrackSettings]);
 
   const getTrackSettings = useCallback((trackIndex: number) => {
-    return state.trackSettings[trackIndex] || { volume: 1, speed: 1, visible: true, muted: false };
-  }, [state.trackSettings]);
+    return state.trackSettings[state.tracks[trackIndex]?.id] || DEFAULT_TRACK_SETTINGS;
+  }, [state.tracks, state.trackSettings]);
+
+  const indexedTrackSettings = useMemo(
+    () => trackSettingsByIndex(state.tracks, state.trackSettings),
+    [state.tracks, state.trackSettings]
+  );
+
+  // Markers
+  // Adding a marker where one already is does nothing, so holding the shortcut doesn't stack them
+  const addMarker = useCallback((time?: number) => {
+    setState(prev => {
+      const at = Math.max(0, time ?? prev.playheadPosition);
+      if (prev.markers.some(m => Math.abs(m.time - at) < 0.01)) return prev;
+
+      const newState = { ...prev, markers: sortMarkers([...prev.markers, createMarker(prev.markers, at)]) };
+      addToHistory('Add marker', prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  const updateMarker = useCallback((
+    markerId: string,
+    updates: Partial<Omit<TimelineMarker, 'id'>>,
+    label = 'Edit marker'
+  ) => {
+    setState(prev => {
+      const marker = prev.markers.find(m => m.id === markerId);
+      if (!marker) return prev;
+
+      const updated = { ...marker, ...updates };
+      updated.time = Math.max(0, updated.time);
+      if (!updated.duration || updated.duration <= 0) delete updated.duration;
+
+      const newState = { ...prev, markers: sortMarkers(prev.markers.map(m => m.id === markerId ? updated : m)) };
+      addToHistory(label, prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  const removeMarker = useCallback((markerId: string) => {
+    setState(prev => {
+      if (!prev.markers.some(m => m.id === markerId)) return prev;
+
+      const newState = { ...prev, markers: prev.markers.filter(m => m.id !== markerId) };
+      addToHistory('Delete marker', prev, newState);
+      return newState;
+    });
+  }, [addToHistory]);
+
+  const jumpToMarker = useCallback((direction: 'next' | 'prev') => {
+    const marker = findAdjacentMarker(state.markers, state.playheadPosition, direction);
+    if (marker) seekTo(marker.time);
+  }, [state.markers, state.playheadPosition, seekTo]);
 
   // Clipboard
   const copySelected = useCallback(() => {
@@ -442,22 +758,24 @@ export function useVideoEditor(): UseVideoEditorResult {
     if (clipboard.current.clips.length === 0) return;
 
     setState(prev => {
-      const newClips = clipboard.current.clips.map(clip => ({
+      // Keep the copied clips' spacing, so linked clips stay in sync
+      const earliest = Math.min(...clipboard.current.clips.map(c => c.startTime));
+      const newClips = remapLinkGroups(clipboard.current.clips.map(clip => ({
         ...clip,
         id: generateId(),
-        startTime: prev.playheadPosition,
-      }));
+        startTime: prev.playheadPosition + clip.startTime - earliest,
+      })));
 
       const newState = {
         ...prev,
         clips: [...prev.clips, ...newClips],
         selectedClipIds: newClips.map(c => c.id),
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory(clipsLabel('Paste', newClips.length), prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
 
   const splitClipAtPlayhead = useCallback(() => {
     setState(prev => {
@@ -474,9 +792,10 @@ export function useVideoEditor(): UseVideoEditorResult {
       }
 
       // If there are selected clips, only split those that are both selected AND at playhead
-      // Otherwise, split all clips at playhead (legacy behavior)
+      // (plus anything linked to them). Otherwise, split all clips at playhead (legacy behavior)
+      const splitIds = expandLinkedIds(prev.clips, prev.selectedClipIds);
       const clipsToSplit = prev.selectedClipIds.length > 0
-        ? clipsAtPlayhead.filter(clip => prev.selectedClipIds.includes(clip.id))
+        ? clipsAtPlayhead.filter(clip => splitIds.includes(clip.id))
         : clipsAtPlayhead;
 
       if (clipsToSplit.length === 0) {
@@ -484,7 +803,7 @@ export function useVideoEditor(): UseVideoEditorResult {
       }
 
       let newClips = [...prev.clips];
-      const newRightClipIds: string[] = []; // Track IDs of newly created right-side clips
+      let rightClips: TimelineClip[] = [];
 
       clipsToSplit.forEach(clip => {
         const clipEndTime = clip.startTime + clip.duration;
@@ -504,11 +823,9 @@ export function useVideoEditor(): UseVideoEditorResult {
 
           // Create right part
           const rightDuration = clip.duration - leftDuration;
-          const rightClipId = generateId();
-          newRightClipIds.push(rightClipId);
-          newClips.push({
+          rightClips.push({
             ...clip,
-            id: rightClipId,
+            id: generateId(),
             startTime: playhead,
             duration: rightDuration,
             trimStart: clip.trimStart + leftDuration,
@@ -516,17 +833,22 @@ export function useVideoEditor(): UseVideoEditorResult {
         }
       });
 
+      // Right-side parts of a linked group get a group of their own
+      rightClips = remapLinkGroups(rightClips);
+      newClips.push(...rightClips);
+      const newRightClipIds = rightClips.map(c => c.id);
+
       const newState = {
         ...prev,
         clips: newClips,
         // Select the right-side clips after split for easy manipulation
         selectedClipIds: newRightClipIds.length > 0 ? newRightClipIds : prev.selectedClipIds,
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory(clipsLabel('Split', newRightClipIds.length), prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
 
   const duplicateClip = useCallback((clipId: string) => {
     setState(prev => {
@@ -538,6 +860,7 @@ export function useVideoEditor(): UseVideoEditorResult {
         ...clip,
         id: generateId(),
         startTime: clip.startTime + clip.duration,
+        linkGroupId: undefined, // the copy isn't part of the original's group
       };
 
       const newState = {
@@ -545,11 +868,11 @@ export function useVideoEditor(): UseVideoEditorResult {
         clips: [...prev.clips, newClip],
         selectedClipIds: [newClip.id],
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory('Duplicate clip', prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
 
   const splitAudioFromVideo = useCallback((clipId: string) => {
     setState(prev => {
@@ -569,60 +892,92 @@ export function useVideoEditor(): UseVideoEditorResult {
         file: videoAsset.file,
       };
 
-      // Create a new audio-only clip on the track below
+      // Create a new audio-only clip on the first audio track below, or a new one at the bottom
+      // Link the two so they stay in sync
+      const audioTrack = prev.tracks.findIndex((t, i) => i > clip.trackIndex && t.kind === 'audio' && !t.locked);
+      const linkGroupId = clip.linkGroupId ?? generateLinkGroupId();
       const audioClip: TimelineClip = {
         ...clip,
         id: generateId(),
         assetId: audioAsset.id, // Reference the new audio asset
-        trackIndex: clip.trackIndex + 1,
+        trackIndex: audioTrack !== -1 ? audioTrack : prev.tracks.length,
+        linkGroupId,
       };
 
       // Mute the original video clip
       const updatedClips = prev.clips.map(c =>
-        c.id === clipId ? { ...c, volume: 0 } : c
+        c.id === clipId ? { ...c, volume: 0, linkGroupId } : c
       );
 
       const newState = {
         ...prev,
         assets: [...prev.assets, audioAsset], // Add the new audio asset
         clips: [...updatedClips, audioClip],
-        selectedClipIds: [audioClip.id],
+        selectedClipIds: [clipId, audioClip.id],
       };
-      newState.duration = calculateDuration(newState.clips);
-      addToHistory(newState);
+      settleClipEdit(prev, newState);
+      addToHistory('Detach audio', prev, newState);
       return newState;
     });
-  }, [addToHistory, calculateDuration]);
+  }, [addToHistory, settleClipEdit]);
 
   // Undo/Redo
+  // Step through entries from the current position to `index`, undoing or redoing each one
+  const jumpToHistory = useCallback((index: number) => {
+    const target = Math.max(0, Math.min(index, history.entries.length));
+    if (target === history.index) return;
+
+    setState(prev => {
+      let next = prev;
+      for (let i = history.index - 1; i >= target; i--) {
+        next = applyHistoryEntry(next, history.entries[i], 'undo');
+      }
+      for (let i = history.index; i < target; i++) {
+        next = applyHistoryEntry(next, history.entries[i], 'redo');
+      }
+      return { ...next, duration: calculateDuration(next.clips) };
+    });
+    setHistory(prev => ({ ...prev, index: target }));
+  }, [history, calculateDuration]);
+
   const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(prev => prev - 1);
-      setState(history[historyIndex - 1]);
-    }
-  }, [history, historyIndex]);
+    jumpToHistory(history.index - 1);
+  }, [jumpToHistory, history.index]);
 
   const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(prev => prev + 1);
-      setState(history[historyIndex + 1]);
-    }
-  }, [history, historyIndex]);
+    jumpToHistory(history.index + 1);
+  }, [jumpToHistory, history.index]);
 
-  // Load a complete state (for project loading)
+  // Drags and trims call updateClip on every mouse move - bracket them so they undo as one step
+  const beginGesture = useCallback((label: string) => {
+    gestureRef.current = { label, before: null, after: null };
+  }, []);
+
+  const endGesture = useCallback(() => {
+    // Queued behind any pending mouse-move updates, so the gesture sees its final state
+    setState(prev => {
+      const gesture = gestureRef.current;
+      gestureRef.current = null;
+      if (gesture?.before && gesture.after) {
+        const entry = createHistoryEntry(gesture.label, gesture.before, gesture.after);
+        if (entry) {
+          setHistory(current => pushHistoryEntry(current, entry));
+        }
+      }
+      return prev;
+    });
+  }, []);
+
+  // Load a complete state (for project loading). A freshly opened project has nothing to undo.
   const loadState = useCallback((newState: EditorState) => {
     setState(newState);
-    addToHistory(newState);
-  }, [addToHistory]);
+    setHistory(EMPTY_HISTORY);
+  }, []);
 
   // Replace assets (for project loading)
   const replaceAssets = useCallback((assets: MediaAsset[]) => {
-    setState(prev => {
-      const newState = { ...prev, assets };
-      addToHistory(newState);
-      return newState;
-    });
-  }, [addToHistory]);
+    setState(prev => ({ ...prev, assets }));
+  }, []);
 
   // Get current state (for project saving)
   const getCurrentState = useCallback(() => {
@@ -638,11 +993,17 @@ export function useVideoEditor(): UseVideoEditorResult {
     removeClip,
     updateClip,
     updateMultipleClips,
+    rippleTrimClip,
+    rollEdit,
     getClip,
     getClipsAtTime,
+    addCaptionClips,
     selectClip,
     deselectAll,
     deleteSelected,
+    linkClips,
+    unlinkClip,
+    rippleDeleteSelected,
     setPlayheadPosition,
     seekTo,
     play,
@@ -653,11 +1014,22 @@ export function useVideoEditor(): UseVideoEditorResult {
     setZoomLevel,
     setAspectRatio,
     setVolume,
+    addTrack,
+    deleteTrack,
+    moveTrack,
+    renameTrack,
+    setTrackLocked,
+    setTrackHeight,
     setTrackVolume,
     setTrackSpeed,
     setTrackVisible,
     setTrackMuted,
     getTrackSettings,
+    trackSettingsByIndex: indexedTrackSettings,
+    addMarker,
+    updateMarker,
+    removeMarker,
+    jumpToMarker,
     copySelected,
     paste,
     splitClipAtPlayhead,
@@ -665,8 +1037,13 @@ export function useVideoEditor(): UseVideoEditorResult {
     splitAudioFromVideo,
     undo,
     redo,
-    canUndo: historyIndex > 0,
-    canRedo: historyIndex < history.length - 1,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length,
+    history: history.entries,
+    historyIndex: history.index,
+    jumpToHistory,
+    beginGesture,
+    endGesture,
     loadState,
     replaceAssets,
     getCurrentState,
@@ -1,6 +1,21 @@
-import { useState, useCallback, useRef } from 'react';
-import { generateVoiceover } from '@/services/voiceService';
-import { VoiceId } from '@/types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { toast } from 'sonner';
+import { generateDialogue, generateVoiceover, DialoguePart, SpeakerStem, VoiceGenerationOptions } from '@/services/voiceService';
+import { AUDIO_FORMATS, encodeVoiceover } from '@/services/audioEncoder';
+import { PcmStreamPlayer } from '@/services/pcmStreamPlayer';
+import { AudioFormat, VoiceId, WordTimestamp } from '@/types';
+
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+}
+
+type GenerateOptions = Pick<VoiceGenerationOptions, 'chunkGap' | 'concurrency' | 'lexicon' | 'projectId'> & {
+  speed?: number;
+  format?: AudioFormat;
+  parts?: DialoguePart[]; // multi-speaker scripts, generated instead of script/voice/styleInstructions
+  livePlayback?: boolean; // play the audio as it streams in (at 1x, before speed is applied)
+};
 
 interface UseVoiceGenerationResult {
   isGenerating: boolean;
@@ -8,9 +23,20 @@ interface UseVoiceGenerationResult {
   error: string | null;
   audioUrl: string | null;
   audioBlob: Blob | null;
+  format: AudioFormat; // format of audioBlob - WAV if encoding failed
   transcript: string;
-  generate: (script: string, voice: VoiceId, apiKey: string, styleInstructions?: string) => Promise<void>;
+  words: WordTimestamp[];
+  stems: SpeakerStem[]; // per-speaker tracks of multi-speaker scripts, in `format`
+  chunkProgress: ChunkProgress | null;
+  liveTranscript: string; // transcript streamed so far while generating
+  generate: (
+    script: string,
+    voice: VoiceId,
+    styleInstructions?: string,
+    options?: GenerateOptions
+  ) => Promise<void>;
   download: () => void;
+  cancel: () => void; // stop early, keeping the audio generated so far
   reset: () => void;
 }
 
@@ -20,20 +46,36 @@ export function useVoiceGeneration(): UseVoiceGenerationResult {
   const [error, setError] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [format, setFormat] = useState<AudioFormat>('wav');
   const [transcript, setTranscript] = useState('');
+  const [words, setWords] = useState<WordTimestamp[]>([]);
+  const [stems, setStems] = useState<SpeakerStem[]>([]);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress | null>(null);
+  const [liveTranscript, setLiveTranscript] = useState('');
   const abortRef = useRef(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const playerRef = useRef<PcmStreamPlayer | null>(null);
+
+  // Don't keep a session (or the speakers) going after leaving the page
+  useEffect(() => {
+    return () => {
+      controllerRef.current?.abort();
+      playerRef.current?.stop();
+    };
+  }, []);
 
   const generate = useCallback(
-    async (script: string, voice: VoiceId, apiKey: string, styleInstructions: string = '') => {
+    async (
+      script: string,
+      voice: VoiceId,
+      styleInstructions: string = '',
+      options: GenerateOptions = {}
+    ) => {
       // Validate inputs
       if (!script.trim()) {
         setError('Please enter a script');
         return;
       }
-      if (!apiKey.trim()) {
-        setError('Please enter your xAI API key');
-        return;
-      }
 
       // Clean up previous audio URL
       if (audioUrl) {
@@ -41,29 +83,109 @@ export function useVoiceGeneration(): UseVoiceGenerationResult {
       }
 
       abortRef.current = false;
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      // Started here, inside the click that asked for it, so the browser allows playback
+      playerRef.current?.stop();
+      playerRef.current = null;
+      if (options.livePlayback) {
+        playerRef.current = new PcmStreamPlayer();
+        playerRef.current.start();
+      }
+      const player = playerRef.current;
+
       setIsGenerating(true);
       setError(null);
       setProgress('Connecting to xAI...');
       setAudioUrl(null);
       setAudioBlob(null);
+      setFormat('wav');
       setTranscript('');
+      setWords([]);
+      setStems([]);
+      setChunkProgress(null);
+      setLiveTranscript('');
 
       try {
         setProgress('Generating voiceover... This may take a moment.');
 
-        const result = await generateVoiceover(apiKey, script, voice, styleInstructions);
+        const { speed = 1, format: requestedFormat = 'wav', parts, livePlayback, ...generationOptions } = options;
+        const serviceOptions: VoiceGenerationOptions = {
+          ...generationOptions,
+          signal: controller.signal,
+          onAudio: (pcm) => player?.push(pcm),
+          onTranscript: (delta) => {
+            if (!abortRef.current) setLiveTranscript(prev => prev + delta);
+          },
+          onChunkProgress: (completed, total) => {
+            if (abortRef.current) return;
+            setChunkProgress({ completed, total });
+            if (total > 1) {
+              setProgress(`Generating voiceover... ${completed}/${total} parts done`);
+            }
+          },
+        };
+        const result = parts
+          ? await generateDialogue(parts, serviceOptions)
+          : await generateVoiceover(script, voice, styleInstructions, serviceOptions);
 
         if (abortRef.current) {
           return;
         }
 
+        if (result.partial) {
+          toast.info('Stopped early - kept the audio generated so far');
+        }
+
         if (result.success && result.audioUrl && result.audioBlob) {
-          setAudioUrl(result.audioUrl);
-          setAudioBlob(result.audioBlob);
+          let outputUrl = result.audioUrl;
+          let outputBlob = result.audioBlob;
+          let outputFormat: AudioFormat = 'wav';
+          let outputWords = result.words || [];
+          let outputStems = result.stems || [];
+
+          // Speed and format are applied after generation so the voice itself stays untouched
+          if (speed !== 1 || requestedFormat !== 'wav') {
+            try {
+              const scaleWords = (list: WordTimestamp[]) =>
+                list.map(word => ({ ...word, start: word.start / speed, end: word.end / speed }));
+              const encoded = await encodeVoiceover(result.audioBlob, { speed, format: requestedFormat, onStatus: setProgress });
+              const encodedStems: SpeakerStem[] = [];
+              for (const stem of outputStems) {
+                setProgress(`Encoding speaker tracks... ${encodedStems.length + 1}/${outputStems.length}`);
+                const stemBlob = await encodeVoiceover(stem.audioBlob, { speed, format: requestedFormat });
+                encodedStems.push({ ...stem, audioBlob: stemBlob, words: scaleWords(stem.words) });
+              }
+
+              URL.revokeObjectURL(result.audioUrl);
+              outputBlob = encoded;
+              outputUrl = URL.createObjectURL(outputBlob);
+              outputFormat = requestedFormat;
+              outputWords = scaleWords(outputWords);
+              outputStems = encodedStems;
+            } catch (encodeError) {
+              // Keep the generated audio rather than throwing away a paid generation
+              console.error('[useVoiceGeneration] Encoding failed:', encodeError);
+              toast.warning(`Could not apply ${speed}x ${requestedFormat.toUpperCase()} - kept the original WAV`);
+            }
+
+            if (abortRef.current) {
+              URL.revokeObjectURL(outputUrl);
+              return;
+            }
+          }
+
+          setAudioUrl(outputUrl);
+          setAudioBlob(outputBlob);
+          setFormat(outputFormat);
           setTranscript(result.transcript || '');
+          setWords(outputWords);
+          setStems(outputStems);
           setProgress('Complete!');
         } else {
-          setError(result.error || 'Voice generation failed');
+          // Cancelled before any audio arrived - nothing to keep, but nothing went wrong either
+          if (!controller.signal.aborted) setError(result.error || 'Voice generation failed');
           setProgress('');
         }
       } catch (err) {
@@ -73,35 +195,52 @@ export function useVoiceGeneration(): UseVoiceGenerationResult {
           setProgress('');
         }
       } finally {
+        if (controllerRef.current === controller) controllerRef.current = null;
         setIsGenerating(false);
       }
     },
     [audioUrl]
   );
 
+  const cancel = useCallback(() => {
+    if (!controllerRef.current) return;
+    controllerRef.current.abort();
+    playerRef.current?.stop();
+    playerRef.current = null;
+    setProgress('Stopping...');
+  }, []);
+
   const download = useCallback(() => {
     if (!audioBlob) return;
     
     const url = URL.createObjectURL(audioBlob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `voiceover-${Date.now()}.wav`;
+    a.download = `voiceover-${Date.now()}.${AUDIO_FORMATS[format].extension}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [audioBlob]);
+  }, [audioBlob, format]);
 
   const reset = useCallback(() => {
     abortRef.current = true;
+    controllerRef.current?.abort();
+    playerRef.current?.stop();
+    playerRef.current = null;
     if (audioUrl) {
       URL.revokeObjectURL(audioUrl);
     }
     setAudioUrl(null);
     setAudioBlob(null);
+    setFormat('wav');
     setError(null);
     setProgress('');
     setTranscript('');
+    setWords([]);
+    setStems([]);
+    setChunkProgress(null);
+    setLiveTranscript('');
   }, [audioUrl]);
 
   return {
@@ -110,9 +249,15 @@ export function useVoiceGeneration(): UseVoiceGenerationResult {
     error,
     audioUrl,
     audioBlob,
+    format,
     transcript,
+    words,
+    stems,
+    chunkProgress,
+    liveTranscript,
     generate,
     download,
+    cancel,
     reset,
   };
 }
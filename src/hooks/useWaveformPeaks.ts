@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { getWaveformPeaks, WaveformPeaks } from '@/services/waveformService';
+
+// Peaks for an audio source, or null while decoding (or if it has no audio)
+export function useWaveformPeaks(key: string | null | undefined, src: string | null | undefined): WaveformPeaks | null {
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+
+  useEffect(() => {
+    setPeaks(null);
+    if (!key || !src) return;
+
+    let cancelled = false;
+    getWaveformPeaks(key, src).then((result) => {
+      if (!cancelled) setPeaks(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, src]);
+
+  return peaks;
+}
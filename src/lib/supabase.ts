@@ -16,6 +16,18 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export { supabase };
 
+// Headers for calling our edge functions as the signed-in user, who they resolve the xAI key from
+export async function getFunctionHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Please sign in to generate voiceovers');
+
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session.access_token}`,
+    apikey: supabaseAnonKey || '',
+  };
+}
+
 // Database types
 export type Database = {
   public: {
@@ -7,10 +7,12 @@ import { SettingsPanel } from '@/components/SettingsPanel';
 import { AudioPlayer } from '@/components/AudioPlayer';
 import { GenerateButton } from '@/components/GenerateButton';
 import { VideoForgeTab } from '@/components/VideoForge/VideoForgeTab';
-import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useApiKey } from '@/hooks/useApiKey';
 import { useVoiceGeneration } from '@/hooks/useVoiceGeneration';
 import { VoiceId, GenerationSettings } from '@/types';
 import { buildStyleInstructions } from '@/config/styleMixer';
+import { DEFAULT_CHUNK_GAP } from '@/utils/scriptChunker';
+import { AUDIO_FORMATS } from '@/services/audioEncoder';
 import { toast } from 'sonner';
 import { AlertCircle, ExternalLink } from 'lucide-react';
 
@@ -30,7 +32,7 @@ And that's it for today! [whisper]Don't forget to subscribe[/whisper].`;
 
 export default function Index() {
   const [activeTab, setActiveTab] = useState<StudioTab>('voice');
-  const [apiKey, setApiKey] = useLocalStorage<string | null>('xai-api-key', null);
+  const { keyStatus, saveKey, removeKey } = useApiKey();
   const [script, setScript] = useState(SAMPLE_SCRIPT);
   const [selectedVoice, setSelectedVoice] = useState<VoiceId>('Rex');
   const [styleInstructions, setStyleInstructions] = useState(
@@ -39,6 +41,7 @@ export default function Index() {
   const [settings, setSettings] = useState<GenerationSettings>({
     speed: 1.0,
     format: 'wav',
+    chunkGap: DEFAULT_CHUNK_GAP,
   });
 
   const {
@@ -47,15 +50,11 @@ export default function Index() {
     error,
     audioUrl,
     audioBlob,
+    format,
     generate,
     reset,
   } = useVoiceGeneration();
 
-  const handleClearApiKey = useCallback(() => {
-    setApiKey(null);
-    toast.success('API key removed');
-  }, [setApiKey]);
-
   const handleStyleChange = useCallback((instructions: string, recommendedVoice?: VoiceId) => {
     setStyleInstructions(instructions);
     if (recommendedVoice) {
@@ -64,7 +63,7 @@ export default function Index() {
   }, []);
 
   const handleGenerate = useCallback(async () => {
-    if (!apiKey) {
+    if (!keyStatus) {
       toast.error('Please add your xAI API key first');
       return;
     }
@@ -75,8 +74,12 @@ export default function Index() {
     }
 
     reset();
-    await generate(script, selectedVoice, apiKey, styleInstructions);
-  }, [apiKey, script, selectedVoice, styleInstructions, generate, reset]);
+    await generate(script, selectedVoice, styleInstructions, {
+      chunkGap: settings.chunkGap,
+      speed: settings.speed,
+      format: settings.format,
+    });
+  }, [keyStatus, script, selectedVoice, styleInstructions, settings, generate, reset]);
 
   const handleDownload = useCallback(() => {
     if (!audioBlob || !audioUrl) return;
@@ -91,7 +94,7 @@ export default function Index() {
       .replace(/[^a-z0-9_]/g, '');
 
     const timestamp = new Date().toISOString().slice(0, 10);
-    const filename = `${firstWords || 'voiceover'}_${timestamp}.wav`;
+    const filename = `${firstWords || 'voiceover'}_${timestamp}.${AUDIO_FORMATS[format].extension}`;
 
     const link = document.createElement('a');
     link.href = audioUrl;
@@ -101,16 +104,16 @@ export default function Index() {
     document.body.removeChild(link);
 
     toast.success(`Downloaded ${filename}`);
-  }, [audioBlob, audioUrl, script]);
+  }, [audioBlob, audioUrl, script, format]);
 
-  const isGenerateDisabled = !apiKey || !script.trim();
+  const isGenerateDisabled = !keyStatus || !script.trim();
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Header
-        apiKey={apiKey}
-        onSaveApiKey={setApiKey}
-        onClearApiKey={handleClearApiKey}
+        keyStatus={keyStatus}
+        onSaveApiKey={saveKey}
+        onClearApiKey={removeKey}
         activeTab={activeTab}
         onTabChange={setActiveTab}
         hasVoiceover={!!audioUrl}
@@ -158,7 +161,7 @@ export default function Index() {
               <AudioPlayer
                 audioUrl={audioUrl}
                 onDownload={handleDownload}
-                format="wav"
+                format={format}
               />
             </div>
 
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { BarChart3, Gauge, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useUsage, UsageGroup, UsagePeriod, UsageTotals } from '@/hooks/useUsage';
+import { VOICE_COST_PER_MINUTE } from '@/utils/pricing';
+import { cn } from '@/lib/utils';
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  month: 'This month',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+};
+
+const chartConfig = {
+  estimatedCost: { label: 'Estimated cost', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 3 : 2)}`;
+}
+
+function formatMinutes(seconds: number): string {
+  return `${(seconds / 60).toFixed(1)} min`;
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-2xl font-semibold mt-1">{value}</p>
+    </div>
+  );
+}
+
+function UsageTable({ title, groups }: { title: string; groups: UsageGroup[] }) {
+  return (
+    <div className="rounded-xl border border-border bg-card p-5 space-y-3">
+      <p className="text-sm font-medium">{title}</p>
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No usage in this period</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Runs</TableHead>
+              <TableHead className="text-right">Audio</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map(group => (
+              <TableRow key={group.key}>
+                <TableCell className="max-w-[12rem] truncate">{group.label}</TableCell>
+                <TableCell className="text-right tabular-nums">{group.generations}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatMinutes(group.audioSeconds)}</TableCell>
+                <TableCell className="text-right tabular-nums">{formatCost(group.estimatedCost)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+function Stats({ totals }: { totals: UsageTotals }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <StatCard label="Estimated cost" value={formatCost(totals.estimatedCost)} />
+      <StatCard label="Audio generated" value={formatMinutes(totals.audioSeconds)} />
+      <StatCard label="Characters" value={totals.characters.toLocaleString()} />
+      <StatCard label="Generations" value={totals.generations.toLocaleString()} />
+    </div>
+  );
+}
+
+export default function Usage() {
+  const [period, setPeriod] = useState<UsagePeriod>('month');
+  const [limitInput, setLimitInput] = useState('');
+  const { totals, byUser, byProject, byDay, monthlyLimit, monthlyCost, isLoading, updateLimit } = useUsage(period);
+
+  const limitValue = Number(limitInput);
+  const canSaveLimit = limitInput.trim() !== '' && isFinite(limitValue) && limitValue > 0;
+  const limitUsed = monthlyLimit ? Math.min(100, (monthlyCost / monthlyLimit) * 100) : 0;
+
+  const handleSaveLimit = () => {
+    if (!canSaveLimit) return;
+    updateLimit(Math.round(limitValue * 100) / 100);
+    setLimitInput('');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header space - matches fixed header h-16 (64px) */}
+      <div className="h-16" />
+
+      <main className="container max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="w-5 h-5 text-primary" />
+            <div>
+              <h1 className="text-xl font-semibold">Usage</h1>
+              <p className="text-sm text-muted-foreground">
+                Voice generation, estimated at ${VOICE_COST_PER_MINUTE.toFixed(2)} per minute of audio
+              </p>
+            </div>
+          </div>
+          <Select value={period} onValueChange={(value: UsagePeriod) => setPeriod(value)}>
+            <SelectTrigger className="w-40 bg-background">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PERIOD_LABELS) as UsagePeriod[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {PERIOD_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <Stats totals={totals} />
+
+            <div className="rounded-xl border border-border bg-card p-5 space-y-3">
+              <p className="text-sm font-medium">Estimated cost per day</p>
+              {byDay.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No usage in this period</p>
+              ) : (
+                <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                  <BarChart data={byDay}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(day: string) => day.slice(5)} />
+                    <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(usd: number) => `$${usd.toFixed(2)}`} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent formatter={(value) => formatCost(Number(value))} />}
+                    />
+                    <Bar dataKey="estimatedCost" fill="var(--color-estimatedCost)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <UsageTable title="By member" groups={byUser} />
+              <UsageTable title="By project" groups={byProject} />
+            </div>
+          </>
+        )}
+
+        {/* Monthly soft limit of the signed-in user's own workspace */}
+        <div className="rounded-xl border border-border bg-card p-5 space-y-4">
+          <div className="flex items-center gap-2">
+            <Gauge className="w-4 h-4 text-muted-foreground" />
+            <span className="text-sm font-medium">Monthly limit</span>
+          </div>
+
+          {monthlyLimit !== null ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  {formatCost(monthlyCost)} of {formatCost(monthlyLimit)} this month
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateLimit(null)}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  Remove limit
+                </Button>
+              </div>
+              <Progress value={limitUsed} className={cn(limitUsed >= 100 && '[&>div]:bg-destructive')} />
+              {limitUsed >= 100 && (
+                <p className="text-xs text-destructive">
+                  Limit reached - new generations with your workspace key are refused until next month
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No limit. {formatCost(monthlyCost)} spent with your workspace key this month.
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <div className="relative w-40">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">$</span>
+              <Input
+                type="number"
+                min="0"
+                step="1"
+                value={limitInput}
+                onChange={(e) => setLimitInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveLimit()}
+                placeholder={monthlyLimit !== null ? monthlyLimit.toFixed(2) : '25.00'}
+                className="pl-6 h-9"
+              />
+            </div>
+            <Button size="sm" onClick={handleSaveLimit} disabled={!canSaveLimit}>
+              {monthlyLimit !== null ? 'Update limit' : 'Set limit'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A soft limit: it is checked when a generation starts, so the last one of the month can go slightly over.
+            Applies to everyone generating with your key.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -6,13 +6,16 @@ import { useAutoSave } from '@/hooks/useAutoSave';
 import { ToolPanel } from '@/components/video-editor/ToolPanel';
 import { PreviewCanvas } from '@/components/video-editor/PreviewCanvas';
 import { Timeline } from '@/components/video-editor/Timeline';
-import { MediaAsset } from '@/types/video-editor';
-import { getProject, saveProjectData } from '@/services/projectService';
+import { CaptionsRequest } from '@/components/video-editor/CaptionsDialog';
+import { EditMode, MediaAsset, TimelineClip } from '@/types/video-editor';
+import { getProject, updateProjectData } from '@/services/projectService';
 import { uploadFile, downloadFile } from '@/services/storageService';
 import { VideoForgeProjectData } from '@/types/project';
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { buildCaptionSegments, isCaptionClip } from '@/utils/captions';
+import { loadTracks } from '@/utils/tracks';
 
 export default function VideoForge() {
   console.log('[VideoForge] Component rendering...');
@@ -25,6 +28,8 @@ export default function VideoForge() {
 
   const editor = useVideoEditor();
   const [snapEnabled, setSnapEnabled] = useState(true);
+  const [editMode, setEditMode] = useState<EditMode>('normal');
+  const [rippleAllTracks, setRippleAllTracks] = useState(false);
   const [draggedAsset, setDraggedAsset] = useState<MediaAsset | null>(null);
   const [isDraggingExternal, setIsDraggingExternal] = useState(false);
   const [timelineHeight, setTimelineHeight] = useState(288); // 72 * 4 = 288px default (h-72 = 18rem = 288px)
@@ -183,6 +188,8 @@ export default function VideoForge() {
           duration: asset.duration,
           thumbnail: asset.thumbnail || '',
           storagePath: storagePath,
+          transcript: asset.transcript,
+          words: asset.words,
         };
       });
 
@@ -216,7 +223,9 @@ export default function VideoForge() {
           aspectRatio: currentState.aspectRatio,
           volume: currentState.volume,
           duration: currentState.duration,
+          tracks: currentState.tracks,
           trackSettings: currentState.trackSettings,
+          markers: currentState.markers,
         },
         mediaMetadata,
       };
@@ -224,8 +233,8 @@ export default function VideoForge() {
       console.log('[VideoForge] Data to save:', JSON.stringify(projectData, null, 2));
 
       // Save to Supabase
-      console.log('[VideoForge] Calling saveProjectData...');
-      await saveProjectData(projectId, projectData);
+      console.log('[VideoForge] Calling updateProjectData...');
+      await updateProjectData(projectId, projectData);
 
       console.log('[VideoForge] ========== AUTO-SAVE SUCCESS ==========');
     } catch (error) {
@@ -604,7 +613,7 @@ export default function VideoForge() {
       // Use exact asset duration for videos/audio, default 3 seconds for images
       const clipDuration = asset.duration || (asset.type === 'image' ? 3 : 5);
 
-      // Add clip to track 0 at current playhead position
+      // Add clip at current playhead position, on the top track that takes it
       editor.addClip({
         assetId: asset.id,
         trackIndex: 0,
@@ -613,7 +622,7 @@ export default function VideoForge() {
         trimStart: 0,
         trimEnd: 0,
       });
-      toast.success(`Added ${file.name} to Track 1`);
+      toast.success(`Added ${file.name} to timeline`);
     }
   }, [processSingleFile, editor]);
 
@@ -621,7 +630,7 @@ export default function VideoForge() {
   const handleAddToTimeline = useCallback((asset: MediaAsset) => {
     const clipDuration = asset.duration || (asset.type === 'image' ? 3 : 5);
 
-    // Add to track 0 at the end of existing content
+    // Add to the top track that takes it, at the end of existing content
     const lastClipEnd = editor.state.clips.length > 0
       ? Math.max(...editor.state.clips.map(c => c.startTime + c.duration))
       : 0;
@@ -638,6 +647,24 @@ export default function VideoForge() {
     toast.success(`Added ${asset.name} to timeline`);
   }, [editor]);
 
+  // Turn a transcript into caption clips on a new captions track
+  const handleAddCaptions = useCallback((request: CaptionsRequest) => {
+    const segments = buildCaptionSegments(
+      request.transcript,
+      request.startTime,
+      request.duration,
+      request.wordsPerCaption
+    );
+
+    if (segments.length === 0) {
+      toast.error('No caption text to add');
+      return;
+    }
+
+    editor.addCaptionClips(segments, request.style);
+    toast.success(`Added ${segments.length} captions`);
+  }, [editor]);
+
   // Load project data if projectId exists
   useEffect(() => {
     console.log('[VideoForge] useEffect triggered, projectId:', projectId);
@@ -721,6 +748,8 @@ export default function VideoForge() {
                 file: file,
                 duration: metadata.duration,
                 thumbnail: metadata.thumbnail,
+                transcript: metadata.transcript,
+                words: metadata.words,
               };
 
               loadedAssets.push(restoredAsset);
@@ -746,6 +775,7 @@ export default function VideoForge() {
           const assetIds = new Set(loadedAssets.map(a => a.id));
 
           for (const clip of clips) {
+            if (isCaptionClip(clip)) continue; // Captions have no asset
             const hasMatchingAsset = assetIds.has(clip.assetId);
             console.log(`[VideoForge] Clip ${clip.id}: assetId=${clip.assetId}, hasMatchingAsset=${hasMatchingAsset}`);
             if (!hasMatchingAsset) {
@@ -755,9 +785,11 @@ export default function VideoForge() {
 
           // Restore editor state with loaded assets and clips
           if (projectData.editorState) {
+            // Projects saved before tracks were stored get theirs built from the clips' trackIndex
+            const restored = loadTracks({ ...projectData.editorState, clips }, loadedAssets);
             const newState = {
               assets: loadedAssets,
-              clips: clips,
+              clips: restored.clips,
               playheadPosition: projectData.editorState.playheadPosition || 0,
               isPlaying: false,
               selectedClipIds: [],
@@ -765,7 +797,9 @@ export default function VideoForge() {
               aspectRatio: (projectData.editorState.aspectRatio as any) || '16:9',
               volume: projectData.editorState.volume || 1,
               duration: projectData.editorState.duration || 0,
-              trackSettings: projectData.editorState.trackSettings || {},
+              tracks: restored.tracks,
+              trackSettings: restored.trackSettings,
+              markers: projectData.editorState.markers || [],
             };
 
             console.log('[VideoForge] Loading state into editor:', {
@@ -848,6 +882,16 @@ export default function VideoForge() {
     prevAssetCountRef.current = currentAssetCount;
   }, [editor.state?.assets?.length, projectId, isLoadingProject]);
 
+  // Detect marker edits, which change neither count above
+  const prevMarkersRef = useRef(editor.state.markers);
+  useEffect(() => {
+    if (prevMarkersRef.current === editor.state.markers) return;
+    prevMarkersRef.current = editor.state.markers;
+    if (!projectId || isLoadingProject || !hasLoadedRef.current) return;
+
+    markAsChangedRef.current?.();
+  }, [editor.state.markers, projectId, isLoadingProject]);
+
   // Monitor auto-save state every 30 seconds
   useEffect(() => {
     if (!projectId) return;
@@ -973,11 +1017,27 @@ export default function VideoForge() {
     };
   }, [processFiles]);
 
+  // In ripple mode Delete closes the gap; Shift+Delete always does
+  const handleRippleDelete = useCallback(() => {
+    editor.rippleDeleteSelected(rippleAllTracks);
+  }, [editor, rippleAllTracks]);
+
+  const handleDelete = editMode === 'ripple' ? handleRippleDelete : editor.deleteSelected;
+
+  const handleRippleTrimClip = useCallback((clipId: string, updates: Pick<TimelineClip, 'duration' | 'trimStart'>) => {
+    editor.rippleTrimClip(clipId, updates, rippleAllTracks);
+  }, [editor, rippleAllTracks]);
+
   // Keyboard shortcuts
   useKeyboardShortcuts({
     onPlayPause: editor.togglePlayPause,
     onSplit: editor.splitClipAtPlayhead,
-    onDelete: editor.deleteSelected,
+    onDelete: handleDelete,
+    onRippleDelete: handleRippleDelete,
+    onSetEditMode: setEditMode,
+    onAddMarker: () => editor.addMarker(),
+    onNextMarker: () => editor.jumpToMarker('next'),
+    onPreviousMarker: () => editor.jumpToMarker('prev'),
     onCopy: editor.copySelected,
     onPaste: editor.paste,
     onUndo: editor.undo,
@@ -1081,6 +1141,9 @@ export default function VideoForge() {
                 onVolumeChange={editor.setVolume}
                 zoomLevel={editor.state.zoomLevel}
                 onZoomChange={editor.setZoomLevel}
+                history={editor.history}
+                historyIndex={editor.historyIndex}
+                onJumpToHistory={editor.jumpToHistory}
                 onClose={() => setIsMediaPanelCollapsed(true)}
               />
 
@@ -1122,7 +1185,7 @@ export default function VideoForge() {
               isPlaying={editor.state.isPlaying}
               aspectRatio={editor.state.aspectRatio}
               volume={editor.state.volume}
-              trackSettings={editor.state.trackSettings}
+              trackSettings={editor.trackSettingsByIndex}
               onDropFile={handleDropOnPreview}
               seekVersion={editor.state.seekVersion}
             />
@@ -1161,16 +1224,24 @@ export default function VideoForge() {
               onDropAsset={handleDropAsset}
               onDropExternalFile={handleDropExternalFile}
               onDeselectAll={editor.deselectAll}
+              onGestureStart={editor.beginGesture}
+              onGestureEnd={editor.endGesture}
+              onRippleTrimClip={handleRippleTrimClip}
+              onRollEdit={editor.rollEdit}
               canUndo={editor.canUndo}
               canRedo={editor.canRedo}
               snapEnabled={snapEnabled}
+              editMode={editMode}
+              rippleAllTracks={rippleAllTracks}
               onUndo={editor.undo}
               onRedo={editor.redo}
               onCopy={editor.copySelected}
               onPaste={editor.paste}
-              onDelete={editor.deleteSelected}
+              onDelete={handleDelete}
               onSplit={editor.splitClipAtPlayhead}
               onToggleSnap={() => setSnapEnabled(!snapEnabled)}
+              onEditModeChange={setEditMode}
+              onToggleRippleAllTracks={() => setRippleAllTracks(!rippleAllTracks)}
               isPlaying={editor.state.isPlaying}
               volume={editor.state.volume}
               onPlayPause={editor.togglePlayPause}
@@ -1181,11 +1252,25 @@ export default function VideoForge() {
               onDuplicateClip={editor.duplicateClip}
               onDeleteClip={editor.removeClip}
               onSplitClipAtPlayhead={editor.splitClipAtPlayhead}
-              trackSettings={editor.state.trackSettings}
+              onLinkClips={editor.linkClips}
+              onUnlinkClip={editor.unlinkClip}
+              tracks={editor.state.tracks}
+              trackSettings={editor.trackSettingsByIndex}
               onTrackVolumeChange={editor.setTrackVolume}
               onTrackSpeedChange={editor.setTrackSpeed}
               onTrackVisibleChange={editor.setTrackVisible}
               onTrackMutedChange={editor.setTrackMuted}
+              onAddTrack={editor.addTrack}
+              onDeleteTrack={editor.deleteTrack}
+              onMoveTrack={editor.moveTrack}
+              onRenameTrack={editor.renameTrack}
+              onTrackLockedChange={editor.setTrackLocked}
+              onTrackHeightChange={editor.setTrackHeight}
+              onAddCaptions={handleAddCaptions}
+              markers={editor.state.markers}
+              onAddMarker={() => editor.addMarker()}
+              onUpdateMarker={editor.updateMarker}
+              onRemoveMarker={editor.removeMarker}
               projectId={projectId}
               isSaving={isSaving}
               hasUnsavedChanges={hasUnsavedChanges}
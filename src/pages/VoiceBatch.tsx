@@ -0,0 +1,447 @@
+import { useState, useRef, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Download,
+  Layers,
+  Loader2,
+  Pause,
+  Play,
+  RefreshCw,
+  Square,
+  Trash2,
+  Upload,
+} from 'lucide-react';
+import { APIKeyInput } from '@/components/APIKeyInput';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useApiKey } from '@/hooks/useApiKey';
+import { useBatchQueue, BatchRowStatus } from '@/hooks/useBatchQueue';
+import { usePronunciations } from '@/hooks/usePronunciations';
+import { QUICK_PRESETS } from '@/config/styleMixer';
+import { VOICES } from '@/utils/voices';
+import {
+  BatchImportFormat,
+  DEFAULT_DOCUMENT_DELIMITER,
+  formatForFile,
+  importCsv,
+  importDocument,
+  importJson,
+} from '@/utils/batchImport';
+import { DEFAULT_CHUNK_GAP } from '@/utils/scriptChunker';
+import { SpeakerConfig, VoiceId } from '@/types';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+
+// Select can't hold an empty value, so "no preset" gets a placeholder id
+const NO_PRESET = 'none';
+
+const FORMAT_HINTS: Record<BatchImportFormat, string> = {
+  csv: 'Header row with title, script, voice and preset columns - only script is required',
+  json: 'An array of { "title", "script", "voice", "preset" } objects',
+  document: 'One script per section, split on lines holding only the delimiter. A leading "# Heading" becomes the title',
+};
+
+const STATUS_LABELS: Record<BatchRowStatus, string> = {
+  queued: 'Queued',
+  generating: 'Generating',
+  waiting: 'Rate limited - retrying',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+function formatDuration(seconds?: number): string {
+  if (!seconds || !isFinite(seconds)) return '--:--';
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+export default function VoiceBatch() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const projectId = searchParams.get('project');
+
+  const apiKey = useApiKey();
+  const [defaults, setDefaults] = useState<SpeakerConfig>({ voice: 'Rex', presetId: null });
+  const [concurrency, setConcurrency] = useLocalStorage('voicebatch-concurrency', 2);
+  const [importFormat, setImportFormat] = useState<BatchImportFormat>('csv');
+  const [delimiter, setDelimiter] = useState(DEFAULT_DOCUMENT_DELIMITER);
+  const [importText, setImportText] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const { rows, isRunning, addRows, removeRow, retryRow, clear, run, cancel, exportZip } = useBatchQueue();
+  const { entries: lexicon } = usePronunciations(projectId);
+
+  const pendingCount = rows.filter(row => row.status === 'queued' || row.status === 'cancelled').length;
+  const doneCount = rows.filter(row => row.status === 'done').length;
+  const playingRow = rows.find(row => row.id === playingId);
+
+  // Stop playback when the playing row goes away
+  useEffect(() => {
+    if (playingId && !playingRow?.audioUrl) setPlayingId(null);
+  }, [playingId, playingRow]);
+
+  const handleFile = async (file: File) => {
+    try {
+      setImportText(await file.text());
+      setImportFormat(formatForFile(file.name));
+      setWarnings([]);
+    } catch (error) {
+      console.error('[VoiceBatch] Failed to read file:', error);
+      toast.error('Failed to read file');
+    }
+  };
+
+  const handleImport = () => {
+    const result =
+      importFormat === 'csv'
+        ? importCsv(importText, defaults)
+        : importFormat === 'json'
+          ? importJson(importText, defaults)
+          : importDocument(importText, defaults, delimiter);
+
+    setWarnings(result.warnings);
+    if (result.scripts.length === 0) {
+      toast.error('No scripts found');
+      return;
+    }
+    addRows(result.scripts);
+    setImportText('');
+    toast.success(`Added ${result.scripts.length} ${result.scripts.length === 1 ? 'script' : 'scripts'}`);
+  };
+
+  const togglePlay = (id: string) => {
+    if (playingId === id) {
+      audioRef.current?.pause();
+      setPlayingId(null);
+    } else {
+      setPlayingId(id);
+    }
+  };
+
+  const handleStart = () => {
+    run({
+      concurrency,
+      chunkGap: DEFAULT_CHUNK_GAP,
+      projectId,
+      lexicon: lexicon.map(({ term, respelling }) => ({ term, respelling })),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header space - matches fixed header h-16 (64px) */}
+      <div className="h-16" />
+
+      <main className="container max-w-6xl mx-auto px-4 py-8">
+        <div className="grid lg:grid-cols-[1fr,340px] gap-8">
+          {/* Main Content */}
+          <div className="space-y-6">
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => navigate(projectId ? `/voiceforge?project=${projectId}` : '/voiceforge')}
+                title="Back to VoiceForge"
+              >
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+              <div>
+                <h1 className="text-xl font-semibold">Batch Voiceovers</h1>
+                <p className="text-sm text-muted-foreground">Generate a list of scripts and download them as one ZIP</p>
+              </div>
+            </div>
+
+            {/* Import */}
+            <div className="rounded-xl border border-border bg-card p-5 space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={importFormat} onValueChange={(value: BatchImportFormat) => setImportFormat(value)}>
+                  <SelectTrigger className="w-36 bg-background h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="json">JSON</SelectItem>
+                    <SelectItem value="document">Document</SelectItem>
+                  </SelectContent>
+                </Select>
+                {importFormat === 'document' && (
+                  <Input
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value)}
+                    className="w-24 h-9 font-mono"
+                    title="Section delimiter"
+                  />
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.json,.txt,.md"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+                <Button variant="outline" size="sm" className="gap-2 ml-auto" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="w-3.5 h-3.5" />
+                  Open file
+                </Button>
+              </div>
+
+              <Textarea
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                placeholder="Paste rows or a document here"
+                className="min-h-40 font-mono text-sm"
+              />
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-muted-foreground">{FORMAT_HINTS[importFormat]}</p>
+                <Button size="sm" onClick={handleImport} disabled={!importText.trim()}>
+                  Add to queue
+                </Button>
+              </div>
+
+              {warnings.length > 0 && (
+                <div className="rounded-lg border border-yellow-500/40 bg-yellow-500/10 p-3 space-y-1">
+                  {warnings.map((warning, i) => (
+                    <p key={i} className="flex items-start gap-2 text-xs text-yellow-600 dark:text-yellow-400">
+                      <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Queue */}
+            <div className="rounded-xl border border-border bg-card p-5 space-y-4">
+              <audio
+                ref={audioRef}
+                src={playingRow?.audioUrl}
+                autoPlay
+                onEnded={() => setPlayingId(null)}
+              />
+
+              <div className="flex items-center gap-2">
+                <Layers className="w-4 h-4 text-muted-foreground" />
+                <span className="text-sm font-medium text-muted-foreground">Queue</span>
+                <span className="text-xs text-muted-foreground">
+                  ({doneCount}/{rows.length} done)
+                </span>
+                <div className="ml-auto flex items-center gap-2">
+                  {isRunning ? (
+                    <Button variant="outline" size="sm" className="gap-2" onClick={cancel}>
+                      <Square className="w-3.5 h-3.5" />
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button size="sm" className="gap-2" onClick={handleStart} disabled={!apiKey.keyStatus || pendingCount === 0}>
+                      <Play className="w-3.5 h-3.5" />
+                      Generate {pendingCount > 0 ? pendingCount : ''}
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" className="gap-2" onClick={exportZip} disabled={doneCount === 0}>
+                    <Download className="w-3.5 h-3.5" />
+                    Export ZIP
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clear}
+                    disabled={rows.length === 0}
+                    className="text-muted-foreground hover:text-destructive"
+                  >
+                    Clear
+                  </Button>
+                </div>
+              </div>
+
+              {rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  Imported scripts will be queued here
+                </p>
+              ) : (
+                <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                  {rows.map((row, index) => (
+                    <div key={row.id} className="flex items-center gap-3 rounded-lg border border-border px-3 py-2">
+                      <span className="w-6 text-xs text-muted-foreground tabular-nums">{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{row.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {row.voice}
+                          {row.presetId && ` · ${QUICK_PRESETS.find(p => p.id === row.presetId)?.name ?? row.presetId}`}
+                          {row.status === 'done' && ` · ${formatDuration(row.duration)}`}
+                          {row.error && (row.status === 'failed' || row.status === 'waiting') && ` · ${row.error}`}
+                        </p>
+                      </div>
+
+                      <Badge
+                        variant={row.status === 'failed' ? 'destructive' : row.status === 'done' ? 'default' : 'secondary'}
+                        className={cn('text-xs gap-1 shrink-0', row.status === 'waiting' && 'text-yellow-600 dark:text-yellow-400')}
+                      >
+                        {(row.status === 'generating' || row.status === 'waiting') && (
+                          <Loader2 className="w-3 h-3 animate-spin" />
+                        )}
+                        {STATUS_LABELS[row.status]}
+                        {row.attempts > 1 && ` (try ${row.attempts})`}
+                      </Badge>
+
+                      {row.status === 'done' && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="w-7 h-7"
+                          onClick={() => togglePlay(row.id)}
+                          title={playingId === row.id ? 'Pause' : 'Play'}
+                        >
+                          {playingId === row.id ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+                        </Button>
+                      )}
+                      {row.status === 'failed' && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="w-7 h-7"
+                          onClick={() => retryRow(row.id)}
+                          title="Queue again"
+                        >
+                          <RefreshCw className="w-3.5 h-3.5" />
+                        </Button>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="w-7 h-7 text-muted-foreground hover:text-destructive"
+                        onClick={() => removeRow(row.id)}
+                        disabled={row.status === 'generating' || row.status === 'waiting'}
+                        title="Remove"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            <div className="lg:sticky lg:top-24">
+              <div className="rounded-xl border border-border bg-card p-5 space-y-6">
+                {/* API Key Input */}
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">API Key</p>
+                  <APIKeyInput
+                    keyStatus={apiKey.keyStatus}
+                    isLoading={apiKey.isLoading}
+                    onSave={apiKey.saveKey}
+                    onClear={apiKey.removeKey}
+                  />
+                </div>
+
+                <div className="border-t border-border" />
+
+                <div className="space-y-3">
+                  <p className="text-sm font-medium">Defaults</p>
+                  <p className="text-xs text-muted-foreground">
+                    Used for rows that don't name a voice or preset
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={defaults.voice}
+                      onValueChange={(voice: VoiceId) => setDefaults(prev => ({ ...prev, voice }))}
+                    >
+                      <SelectTrigger className="bg-background h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VOICES.map((voice) => (
+                          <SelectItem key={voice.id} value={voice.id}>
+                            {voice.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={defaults.presetId || NO_PRESET}
+                      onValueChange={(value) => setDefaults(prev => ({ ...prev, presetId: value === NO_PRESET ? null : value }))}
+                    >
+                      <SelectTrigger className="bg-background h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PRESET}>No preset</SelectItem>
+                        {QUICK_PRESETS.map((preset) => (
+                          <SelectItem key={preset.id} value={preset.id}>
+                            {preset.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="border-t border-border" />
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Scripts at once</Label>
+                  <Select
+                    value={String(concurrency)}
+                    onValueChange={(value) => setConcurrency(Number(value))}
+                    disabled={isRunning}
+                  >
+                    <SelectTrigger className="bg-background h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4].map(n => (
+                        <SelectItem key={n} value={String(n)}>
+                          {n}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Rate-limited scripts wait and retry automatically
+                  </p>
+                </div>
+
+                {lexicon.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {lexicon.length} workspace {lexicon.length === 1 ? 'pronunciation' : 'pronunciations'} applied
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      {/* Background gradient */}
+      <div className="fixed inset-0 -z-10 overflow-hidden pointer-events-none">
+        <div className="absolute top-0 left-1/4 w-96 h-96 bg-primary/5 rounded-full blur-3xl" />
+        <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-cyan-500/5 rounded-full blur-3xl" />
+      </div>
+    </div>
+  );
+}
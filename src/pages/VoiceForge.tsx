@@ -1,5 +1,5 @@
-import { useState, useCallback } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { ScriptEditor } from '@/components/ScriptEditor';
 import { VoiceSelector } from '@/components/VoiceSelector';
 import { SettingsPanel } from '@/components/SettingsPanel';
@@ -7,11 +7,30 @@ import { AudioPlayer } from '@/components/AudioPlayer';
 import { GenerateButton } from '@/components/GenerateButton';
 import { APIKeyInput } from '@/components/APIKeyInput';
 import { DeliveryStyleSelector, getStyleInstructions } from '@/components/DeliveryStyleSelector';
+import { SpeakerSettings } from '@/components/SpeakerSettings';
+import { PronunciationPanel } from '@/components/PronunciationPanel';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useApiKey } from '@/hooks/useApiKey';
 import { useVoiceGeneration } from '@/hooks/useVoiceGeneration';
-import { VoiceId, GenerationSettings } from '@/types';
+import { useTakeHistory } from '@/hooks/useTakeHistory';
+import { usePronunciations } from '@/hooks/usePronunciations';
+import { useAutoSave } from '@/hooks/useAutoSave';
+import { TakeHistory } from '@/components/TakeHistory';
+import { uploadFile } from '@/services/storageService';
+import { addMediaToProject, getProject, updateProjectData } from '@/services/projectService';
+import { AUDIO_FORMATS } from '@/services/audioEncoder';
+import { DialoguePart } from '@/services/voiceService';
+import { getScriptSpeakers, parseSpeakerSegments } from '@/utils/styleTagProcessor';
+import { resolveSpeakerConfigs } from '@/utils/voices';
+import { DEFAULT_CHUNK_GAP } from '@/utils/scriptChunker';
+import { VOICE_COST_PER_MINUTE } from '@/utils/pricing';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { VoiceId, GenerationSettings, SpeakerConfig, VoiceTake } from '@/types';
+import { VoiceForgeProjectState } from '@/types/project';
 import { toast } from 'sonner';
-import { AlertCircle, ExternalLink } from 'lucide-react';
+import { AlertCircle, Check, ExternalLink, Film, Layers, Loader2, Square } from 'lucide-react';
 
 const SAMPLE_SCRIPT = `[whisper]Hey there[/whisper]
 
@@ -27,63 +46,272 @@ Welcome back to the channel! Today we're going to explore something [emphasis]ab
 
 And that's it for today! [whisper]Don't forget to subscribe[/whisper].`;
 
+// Name voiceover files after the opening words of the script
+function getVoiceoverFilename(script: string, extension: string): string {
+  const firstWords = script
+    .replace(/\[.*?\]/g, '')
+    .trim()
+    .split(/\s+/)
+    .slice(0, 5)
+    .join('_')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, '');
+
+  const timestamp = new Date().toISOString().slice(0, 10);
+  return `${firstWords || 'voiceover'}_${timestamp}.${extension}`;
+}
+
+// Read the playable length of an audio blob
+function getAudioDuration(url: string): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => resolve(isFinite(audio.duration) ? audio.duration : undefined);
+    audio.onerror = () => resolve(undefined);
+    audio.src = url;
+  });
+}
+
+// Everything a take needs to be re-generated
+interface GenerationRequest {
+  script: string;
+  voice: VoiceId;
+  presetId: string | null;
+  traits: string[];
+  settings: GenerationSettings;
+  speakers?: Record<string, SpeakerConfig>;
+}
+
+// Split a multi-speaker script into parts voiced per speaker; undefined for single-voice scripts
+function buildDialogueParts(request: GenerationRequest): DialoguePart[] | undefined {
+  const segments = parseSpeakerSegments(request.script);
+  if (!segments.some(segment => segment.speaker !== null)) return undefined;
+
+  const speakers = resolveSpeakerConfigs(getScriptSpeakers(request.script), request.speakers || {});
+  const defaultStyle = getStyleInstructions(request.presetId, request.traits);
+
+  return segments.map(({ speaker, text }) => {
+    const config = speaker !== null ? speakers[speaker] : null;
+    return {
+      speaker,
+      script: text,
+      voice: config ? config.voice : request.voice,
+      styleInstructions: config ? getStyleInstructions(config.presetId, []) : defaultStyle,
+    };
+  });
+}
+
 export default function VoiceForge() {
+  const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const projectId = searchParams.get('project');
+  const [isSending, setIsSending] = useState(false);
+  const [placeOnTimeline, setPlaceOnTimeline] = useState(true);
+  const [trackPerSpeaker, setTrackPerSpeaker] = useState(false);
+  const [livePlayback, setLivePlayback] = useLocalStorage('voiceforge-live-playback', true);
 
-  const [apiKey, setApiKey] = useLocalStorage<string | null>('xai-api-key', null);
+  const apiKey = useApiKey();
   const [script, setScript] = useState(SAMPLE_SCRIPT);
   const [selectedVoice, setSelectedVoice] = useState<VoiceId>('Rex');
   const [settings, setSettings] = useState<GenerationSettings>({
     speed: 1.0,
     format: 'wav',
+    chunkGap: DEFAULT_CHUNK_GAP,
   });
 
   // Delivery style state
   const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
   const [selectedTraits, setSelectedTraits] = useState<string[]>([]);
 
+  // Voice per named speaker - kept for speakers no longer in the script in case they come back
+  const [speakerConfigs, setSpeakerConfigs] = useState<Record<string, SpeakerConfig>>({});
+  const scriptSpeakers = useMemo(() => getScriptSpeakers(script), [script]);
+  const speakers = useMemo(
+    () => resolveSpeakerConfigs(scriptSpeakers, speakerConfigs),
+    [scriptSpeakers, speakerConfigs]
+  );
+
+  const [isLoadingProject, setIsLoadingProject] = useState(!!projectId);
+  // Skips the change notification caused by restoring the saved state
+  const hasRestoredRef = useRef(false);
+
+  // Restore the project's script and voice settings
+  useEffect(() => {
+    if (!projectId) return;
+
+    let cancelled = false;
+    hasRestoredRef.current = false;
+    setIsLoadingProject(true);
+
+    getProject(projectId)
+      .then((project) => {
+        const saved = project.data?.voiceForge as VoiceForgeProjectState | undefined;
+        if (cancelled || !saved) return;
+        console.log('[VoiceForge] Restoring project state');
+        setScript(saved.script);
+        setSelectedVoice(saved.voice);
+        setSelectedPresetId(saved.presetId);
+        setSelectedTraits(saved.traits);
+        setSettings(prev => ({ ...prev, ...saved.settings }));
+        setSpeakerConfigs(saved.speakers || {});
+      })
+      .catch((err) => {
+        console.error('[VoiceForge] Failed to load project:', err);
+        toast.error('Failed to load project');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingProject(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const handleSave = useCallback(async () => {
+    if (!projectId) return;
+    const voiceForge: VoiceForgeProjectState = {
+      script,
+      voice: selectedVoice,
+      presetId: selectedPresetId,
+      traits: selectedTraits,
+      settings,
+      speakers: speakerConfigs,
+    };
+    await updateProjectData(projectId, { voiceForge });
+  }, [projectId, script, selectedVoice, selectedPresetId, selectedTraits, settings, speakerConfigs]);
+
+  const { isSaving, lastSaved, hasUnsavedChanges, markAsChanged } = useAutoSave({
+    onSave: handleSave,
+    interval: 5000,
+    enabled: !!projectId && !isLoadingProject,
+  });
+
+  useEffect(() => {
+    if (!projectId || isLoadingProject) return;
+    if (!hasRestoredRef.current) {
+      hasRestoredRef.current = true;
+      return;
+    }
+    markAsChanged();
+  }, [projectId, isLoadingProject, script, selectedVoice, selectedPresetId, selectedTraits, settings, speakerConfigs, markAsChanged]);
+
+  // Flush unsaved edits when leaving the page
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+  pendingSaveRef.current = hasUnsavedChanges ? handleSave : null;
+
+  useEffect(() => {
+    const pendingSave = pendingSaveRef;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!pendingSave.current) return;
+      pendingSave.current().catch(err => {
+        console.error('[VoiceForge] Failed to save on browser close:', err);
+      });
+      e.preventDefault();
+      e.returnValue = 'You have unsaved changes. Are you sure you want to leave?';
+      return e.returnValue;
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      pendingSave.current?.().catch(err => {
+        console.error('[VoiceForge] Failed to save on unmount:', err);
+      });
+    };
+  }, []);
+
   const {
     isGenerating,
     progress,
     error,
     audioUrl,
     audioBlob,
+    format,
+    transcript,
+    words,
+    stems,
+    liveTranscript,
     generate,
+    cancel,
     reset,
   } = useVoiceGeneration();
 
-  const handleGenerate = useCallback(async () => {
-    if (!apiKey) {
+  const { takes, isLoading: isLoadingTakes, addTake, editTake, removeTake, getAudioUrl } = useTakeHistory(projectId);
+  const pronunciations = usePronunciations(projectId);
+  // Parameters of the generation in flight, saved with its take once audio arrives
+  const pendingTakeRef = useRef<GenerationRequest | null>(null);
+
+  const runGeneration = useCallback(async (request: GenerationRequest) => {
+    if (!apiKey.keyStatus) {
       toast.error('Please add your xAI API key first');
       return;
     }
 
-    if (!script.trim()) {
+    if (!request.script.trim()) {
       toast.error('Please enter a script');
       return;
     }
 
-    const styleInstructions = getStyleInstructions(selectedPresetId, selectedTraits);
+    const styleInstructions = getStyleInstructions(request.presetId, request.traits);
 
     reset();
-    await generate(script, selectedVoice, apiKey, styleInstructions);
-  }, [apiKey, script, selectedVoice, selectedPresetId, selectedTraits, generate, reset]);
+    pendingTakeRef.current = request;
+    await generate(request.script, request.voice, styleInstructions, {
+      chunkGap: request.settings.chunkGap,
+      speed: request.settings.speed,
+      format: request.settings.format,
+      parts: buildDialogueParts(request),
+      lexicon: pronunciations.entries,
+      projectId,
+      livePlayback,
+    });
+  }, [apiKey.keyStatus, generate, reset, pronunciations.entries, projectId, livePlayback]);
+
+  const handleGenerate = useCallback(() => {
+    runGeneration({
+      script,
+      voice: selectedVoice,
+      presetId: selectedPresetId,
+      traits: selectedTraits,
+      settings,
+      speakers,
+    });
+  }, [runGeneration, script, selectedVoice, selectedPresetId, selectedTraits, settings, speakers]);
+
+  // Restore a take's inputs and generate it again
+  const handleRegenerate = useCallback((take: VoiceTake) => {
+    setScript(take.script);
+    setSelectedVoice(take.voice);
+    setSelectedPresetId(take.presetId);
+    setSelectedTraits(take.traits);
+    setSettings(take.settings);
+    setSpeakerConfigs(prev => ({ ...prev, ...take.speakers }));
+    runGeneration({
+      script: take.script,
+      voice: take.voice,
+      presetId: take.presetId,
+      traits: take.traits,
+      settings: take.settings,
+      speakers: take.speakers,
+    });
+  }, [runGeneration]);
+
+  // Keep every finished generation in the take history
+  useEffect(() => {
+    const request = pendingTakeRef.current;
+    if (!request || !audioBlob || !audioUrl) return;
+    pendingTakeRef.current = null;
+
+    getAudioDuration(audioUrl).then((duration) => {
+      addTake({ ...request, transcript, words, duration, format }, audioBlob);
+    });
+  }, [audioBlob, audioUrl, transcript, words, format, addTake]);
 
   const handleDownload = useCallback(() => {
     if (!audioBlob || !audioUrl) return;
 
-    const firstWords = script
-      .replace(/\[.*?\]/g, '')
-      .trim()
-      .split(/\s+/)
-      .slice(0, 5)
-      .join('_')
-      .toLowerCase()
-      .replace(/[^a-z0-9_]/g, '');
-
-    const timestamp = new Date().toISOString().slice(0, 10);
-    const filename = `${firstWords || 'voiceover'}_${timestamp}.wav`;
+    const filename = getVoiceoverFilename(script, AUDIO_FORMATS[format].extension);
 
     const link = document.createElement('a');
     link.href = audioUrl;
@@ -93,9 +321,62 @@ export default function VoiceForge() {
     document.body.removeChild(link);
 
     toast.success(`Downloaded ${filename}`);
-  }, [audioBlob, audioUrl, script]);
+  }, [audioBlob, audioUrl, script, format]);
+
+  // Upload the voiceover into the project's storage and register it as a media asset
+  const handleSendToVideoForge = useCallback(async () => {
+    if (!projectId || !audioBlob || !audioUrl) return;
+
+    setIsSending(true);
+    try {
+      const { extension, mimeType } = AUDIO_FORMATS[format];
+      const baseName = getVoiceoverFilename(script, extension).replace(/\.[^.]+$/, '');
+      const duration = await getAudioDuration(audioUrl);
+
+      // Either the mixed voiceover, or one file per speaker (all the same length)
+      const sources = trackPerSpeaker && stems.length > 1
+        ? stems.map(stem => ({
+            blob: stem.audioBlob,
+            name: `${baseName}_${(stem.speaker || selectedVoice).toLowerCase().replace(/[^a-z0-9]+/g, '_')}.${extension}`,
+            transcript: stem.transcript,
+            words: stem.words,
+          }))
+        : [{ blob: audioBlob, name: `${baseName}.${extension}`, transcript, words }];
+
+      const media = await Promise.all(sources.map(async (source) => {
+        const file = new File([source.blob], source.name, { type: mimeType });
+        const storagePath = await uploadFile(projectId, file);
+        return {
+          id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          name: file.name,
+          type: 'audio' as const,
+          duration,
+          thumbnail: '',
+          storagePath,
+          transcript: source.transcript || undefined,
+          words: source.words.length > 0 ? source.words : undefined,
+        };
+      }));
+
+      await addMediaToProject(projectId, media, { addToTimeline: placeOnTimeline });
+
+      const what = media.length > 1 ? `${media.length} speaker tracks` : 'Voiceover';
+      toast.success(placeOnTimeline ? `${what} added to the timeline` : `${what} added to project media`, {
+        action: {
+          label: 'Open',
+          onClick: () => navigate(`/videoforge?project=${projectId}`),
+        },
+      });
+    } catch (err) {
+      console.error('[VoiceForge] Send to VideoForge failed:', err);
+      const message = err instanceof Error ? err.message : String(err);
+      toast.error(`Failed to send voiceover: ${message}`);
+    } finally {
+      setIsSending(false);
+    }
+  }, [projectId, audioBlob, audioUrl, script, format, transcript, words, stems, trackPerSpeaker, selectedVoice, placeOnTimeline, navigate]);
 
-  const isGenerateDisabled = !apiKey || !script.trim();
+  const isGenerateDisabled = !apiKey.keyStatus || !script.trim();
 
   return (
     <div className="min-h-screen bg-background">
@@ -106,6 +387,24 @@ export default function VoiceForge() {
         <div className="grid lg:grid-cols-[1fr,340px] gap-8">
           {/* Main Content */}
           <div className="space-y-6">
+            {projectId && (
+              <div className="flex items-center justify-end gap-1.5 -mb-4 text-xs text-muted-foreground">
+                {isLoadingProject || isSaving ? (
+                  <>
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    {isLoadingProject ? 'Loading project...' : 'Saving...'}
+                  </>
+                ) : hasUnsavedChanges ? (
+                  'Unsaved changes'
+                ) : lastSaved ? (
+                  <>
+                    <Check className="w-3 h-3" />
+                    Saved {lastSaved.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </>
+                ) : null}
+              </div>
+            )}
+
             <ScriptEditor script={script} onChange={setScript} />
 
             <GenerateButton
@@ -115,6 +414,32 @@ export default function VoiceForge() {
               onClick={handleGenerate}
             />
 
+            <div className="flex items-center justify-between gap-4 -mt-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="live-playback"
+                  checked={livePlayback}
+                  onCheckedChange={setLivePlayback}
+                />
+                <Label htmlFor="live-playback" className="text-sm text-muted-foreground">
+                  Play while generating
+                </Label>
+              </div>
+              {isGenerating && (
+                <Button variant="outline" size="sm" onClick={cancel} className="gap-2">
+                  <Square className="w-3.5 h-3.5" />
+                  Stop & keep audio
+                </Button>
+              )}
+            </div>
+
+            {/* Transcript as it streams in */}
+            {isGenerating && liveTranscript && (
+              <div className="rounded-xl border border-border bg-card p-4 max-h-40 overflow-y-auto">
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{liveTranscript}</p>
+              </div>
+            )}
+
             {/* Error Display */}
             {error && (
               <div className="rounded-xl border border-destructive/50 bg-destructive/10 p-4 space-y-2">
@@ -142,7 +467,51 @@ export default function VoiceForge() {
             <AudioPlayer
               audioUrl={audioUrl}
               onDownload={handleDownload}
-              format="wav"
+              format={format}
+            />
+
+            {projectId && audioBlob && (
+              <div className="rounded-xl border border-border bg-card p-4 flex items-center justify-between gap-4">
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="place-on-timeline"
+                      checked={placeOnTimeline}
+                      onCheckedChange={setPlaceOnTimeline}
+                    />
+                    <Label htmlFor="place-on-timeline" className="text-sm">
+                      Place on timeline at playhead
+                    </Label>
+                  </div>
+                  {stems.length > 1 && (
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="track-per-speaker"
+                        checked={trackPerSpeaker}
+                        onCheckedChange={setTrackPerSpeaker}
+                      />
+                      <Label htmlFor="track-per-speaker" className="text-sm">
+                        Separate track per speaker
+                      </Label>
+                    </div>
+                  )}
+                </div>
+                <Button onClick={handleSendToVideoForge} disabled={isSending} className="gap-2">
+                  {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Film className="w-4 h-4" />}
+                  Send to VideoForge
+                </Button>
+              </div>
+            )}
+
+            <TakeHistory
+              takes={takes}
+              isLoading={isLoadingTakes}
+              isGenerating={isGenerating}
+              getAudioUrl={getAudioUrl}
+              onRename={(take, name) => editTake(take, { name })}
+              onToggleStar={(take) => editTake(take, { starred: !take.starred })}
+              onDelete={removeTake}
+              onRegenerate={handleRegenerate}
             />
           </div>
 
@@ -154,20 +523,26 @@ export default function VoiceForge() {
                 <div className="space-y-2">
                   <p className="text-sm font-medium">API Key</p>
                   <APIKeyInput
-                    apiKey={apiKey}
-                    onSave={(key) => {
-                      setApiKey(key);
-                      toast.success('API key saved');
-                    }}
-                    onClear={() => {
-                      setApiKey(null);
-                      toast.info('API key cleared');
-                    }}
+                    keyStatus={apiKey.keyStatus}
+                    isLoading={apiKey.isLoading}
+                    onSave={apiKey.saveKey}
+                    onClear={apiKey.removeKey}
                   />
                 </div>
 
                 <div className="border-t border-border" />
 
+                {scriptSpeakers.length > 0 && (
+                  <>
+                    <SpeakerSettings
+                      speakers={speakers}
+                      onChange={(speaker, config) => setSpeakerConfigs(prev => ({ ...prev, [speaker]: config }))}
+                    />
+
+                    <div className="border-t border-border" />
+                  </>
+                )}
+
                 <VoiceSelector
                   selectedVoice={selectedVoice}
                   onSelectVoice={setSelectedVoice}
@@ -191,21 +566,35 @@ export default function VoiceForge() {
 
                 <SettingsPanel settings={settings} onChange={setSettings} />
 
+                <div className="border-t border-border" />
+
+                <PronunciationPanel
+                  entries={pronunciations.entries}
+                  isLoading={pronunciations.isLoading}
+                  onAdd={pronunciations.addEntry}
+                  onUpdate={pronunciations.editEntry}
+                  onDelete={pronunciations.removeEntry}
+                />
+
                 {/* API Info */}
                 <div className="border-t border-border pt-4">
                   <p className="text-xs text-muted-foreground">
-                    Uses xAI Grok Voice API via WebSocket. Voice API costs ~$0.05/min.{' '}
-                    <a
-                      href="https://console.x.ai"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-primary hover:underline"
-                    >
-                      Check billing →
-                    </a>
+                    Uses xAI Grok Voice API via WebSocket. Voice API costs ~${VOICE_COST_PER_MINUTE.toFixed(2)}/min.{' '}
+                    <Link to="/usage" className="text-primary hover:underline">
+                      View usage →
+                    </Link>
                   </p>
                 </div>
               </div>
+
+              <Button
+                variant="outline"
+                className="w-full mt-4 gap-2"
+                onClick={() => navigate(projectId ? `/voiceforge/batch?project=${projectId}` : '/voiceforge/batch')}
+              >
+                <Layers className="w-4 h-4" />
+                Batch mode
+              </Button>
             </div>
           </div>
         </div>
@@ -0,0 +1,59 @@
+import { getFunctionHeaders } from '@/lib/supabase';
+import { ApiKeyStatus } from '@/types';
+
+// xAI API keys are kept encrypted server-side, one per workspace. The api-key edge function
+// stores and validates them; the browser only ever sees the last 4 characters.
+
+type ApiKeyAction = { action: 'status' } | { action: 'save'; apiKey: string } | { action: 'delete' };
+
+async function callApiKeyFunction(body: ApiKeyAction): Promise<ApiKeyStatus | null> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  if (!supabaseUrl) {
+    throw new Error('Backend not configured. Please ensure Lovable Cloud is enabled.');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/api-key`, {
+    method: 'POST',
+    headers: await getFunctionHeaders(),
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to ${body.action} API key`);
+  }
+  return data.key ?? null;
+}
+
+// The key generations will use: the user's own, or one shared by their workspace
+export async function getApiKeyStatus(): Promise<ApiKeyStatus | null> {
+  try {
+    return await callApiKeyFunction({ action: 'status' });
+  } catch (error) {
+    console.error('[apiKeyService] Failed to load API key status:', error);
+    throw error;
+  }
+}
+
+/**
+ * Validate a key against xAI and save it for the user's workspace. Throws with a readable
+ * message (wrong format, invalid key, no realtime access...) if it is rejected.
+ */
+export async function saveApiKey(apiKey: string): Promise<ApiKeyStatus | null> {
+  try {
+    return await callApiKeyFunction({ action: 'save', apiKey });
+  } catch (error) {
+    console.error('[apiKeyService] Failed to save API key:', error);
+    throw error;
+  }
+}
+
+// Remove the user's own key; resolves to the workspace key that takes over, if any
+export async function deleteApiKey(): Promise<ApiKeyStatus | null> {
+  try {
+    return await callApiKeyFunction({ action: 'delete' });
+  } catch (error) {
+    console.error('[apiKeyService] Failed to delete API key:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import { AudioFormat } from '@/types';
+import { buildAtempoFilter, initFFmpeg } from '@/services/videoExporter';
+
+interface AudioFormatInfo {
+  extension: string;
+  mimeType: string;
+  codecArgs: string[];
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatInfo> = {
+  wav: { extension: 'wav', mimeType: 'audio/wav', codecArgs: ['-c:a', 'pcm_s16le'] },
+  mp3: { extension: 'mp3', mimeType: 'audio/mpeg', codecArgs: ['-c:a', 'libmp3lame', '-b:a', '128k'] },
+  opus: { extension: 'opus', mimeType: 'audio/ogg', codecArgs: ['-c:a', 'libopus', '-b:a', '64k'] },
+};
+
+interface VoiceoverEncodeOptions {
+  speed: number;
+  format: AudioFormat;
+  onStatus?: (status: string) => void;
+}
+
+// Time-stretch and/or re-encode a generated WAV. Returns the input untouched for 1x WAV.
+export async function encodeVoiceover(wav: Blob, { speed, format, onStatus }: VoiceoverEncodeOptions): Promise<Blob> {
+  if (speed === 1 && format === 'wav') return wav;
+
+  const ff = await initFFmpeg(undefined, onStatus);
+  const { extension, mimeType, codecArgs } = AUDIO_FORMATS[format];
+  const inputName = 'voiceover-input.wav';
+  const outputName = `voiceover-output.${extension}`;
+
+  console.log('[AudioEncoder] Encoding voiceover:', { speed, format });
+  onStatus?.(`Encoding ${format.toUpperCase()}...`);
+
+  try {
+    await ff.writeFile(inputName, new Uint8Array(await wav.arrayBuffer()));
+
+    const atempo = buildAtempoFilter(speed);
+    const exitCode = await ff.exec([
+      '-i', inputName,
+      ...(atempo ? ['-filter:a', atempo] : []),
+      ...codecArgs,
+      '-y', outputName,
+    ]);
+    if (exitCode !== 0) {
+      throw new Error(`FFmpeg exited with code ${exitCode}`);
+    }
+
+    const data = await ff.readFile(outputName);
+    if (typeof data === 'string') {
+      throw new Error('Unexpected text output from FFmpeg');
+    }
+    return new Blob([data], { type: mimeType });
+  } finally {
+    try { await ff.deleteFile(inputName); } catch { /* ignore */ }
+    try { await ff.deleteFile(outputName); } catch { /* ignore */ }
+  }
+}
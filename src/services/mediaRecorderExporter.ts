@@ -1,4 +1,7 @@
 import { TimelineClip, MediaAsset } from '@/types/video-editor';
+import { compositeTransition, getActiveTransition } from '@/utils/transitions';
+import { drawWithKenBurns } from '@/utils/kenBurns';
+import { drawCaption, isCaptionClip } from '@/utils/captions';
 
 interface ExportOptions {
   clips: TimelineClip[];
@@ -108,6 +111,11 @@ export async function exportWithMediaRecorder({
     imageElement: HTMLImageElement;
   }
 
+  // Caption clips have no media to load - they are drawn over each frame
+  const captionClips = visibleClips
+    .filter(isCaptionClip)
+    .sort((a, b) => b.trackIndex - a.trackIndex);
+
   const videoClipData: VideoClipData[] = [];
   const audioClipData: AudioClipData[] = [];
   const imageClipData: ImageClipData[] = [];
@@ -350,6 +358,39 @@ export async function exportWithMediaRecorder({
       ctx.fillStyle = 'black';
       ctx.fillRect(0, 0, width, height);
 
+      // Draw whichever element backs a clip - used for the outgoing side of transitions
+      const drawClipFrame = (clip: TimelineClip) => {
+        const video = videoClipData.find(d => d.clip.id === clip.id);
+        if (video) {
+          drawMediaToCanvas(ctx, video.videoElement, width, height);
+          return;
+        }
+        const image = imageClipData.find(d => d.clip.id === clip.id);
+        if (image) {
+          drawWithKenBurns(ctx, width, height, clip.kenBurns, 1, () =>
+            drawMediaToCanvas(ctx, image.imageElement, width, height)
+          );
+        }
+      };
+
+      const drawWithTransition = (clip: TimelineClip, drawIncoming: () => void) => {
+        const transition = getActiveTransition(clip, visibleClips, currentTime);
+        if (!transition) {
+          drawIncoming();
+          return;
+        }
+        const outgoing = transition.outgoing;
+        compositeTransition(
+          ctx,
+          width,
+          height,
+          transition.type,
+          transition.progress,
+          outgoing ? () => drawClipFrame(outgoing) : null,
+          drawIncoming
+        );
+      };
+
       // Render video clips (sorted by track index for layering)
       const activeVideoClips = videoClipData
         .filter(data => {
@@ -370,7 +411,7 @@ export async function exportWithMediaRecorder({
         }
 
         // Draw video frame
-        drawMediaToCanvas(ctx, data.videoElement, width, height);
+        drawWithTransition(data.clip, () => drawMediaToCanvas(ctx, data.videoElement, width, height));
 
         // Handle audio from video
         if (data.audioElement && data.audioGain && !trackSetting.muted) {
@@ -384,10 +425,14 @@ export async function exportWithMediaRecorder({
         }
       }
 
-      // Mute video audio for clips that are no longer active
+      // Mute and pause video for clips that are no longer active
       for (const data of videoClipData) {
         const clipEnd = data.clip.startTime + data.clip.duration;
         const isActive = currentTime >= data.clip.startTime && currentTime < clipEnd;
+        // Paused elements hold their last frame for the next clip's transition
+        if (!isActive && !data.videoElement.paused) {
+          data.videoElement.pause();
+        }
         if (!isActive && data.audioGain) {
           data.audioGain.gain.value = 0;
           if (data.audioElement && !data.audioElement.paused) {
@@ -405,7 +450,19 @@ export async function exportWithMediaRecorder({
         .sort((a, b) => a.clip.trackIndex - b.clip.trackIndex);
 
       for (const data of activeImageClips) {
-        drawMediaToCanvas(ctx, data.imageElement, width, height);
+        const progress = (currentTime - data.clip.startTime) / data.clip.duration;
+        drawWithTransition(data.clip, () =>
+          drawWithKenBurns(ctx, width, height, data.clip.kenBurns, progress, () =>
+            drawMediaToCanvas(ctx, data.imageElement, width, height)
+          )
+        );
+      }
+
+      // Burn in captions on top of everything else
+      for (const clip of captionClips) {
+        if (currentTime >= clip.startTime && currentTime < clip.startTime + clip.duration) {
+          drawCaption(ctx, width, height, clip.caption!, currentTime - clip.startTime, clip.duration);
+        }
       }
 
       // Handle standalone audio clips
@@ -0,0 +1,66 @@
+// Plays 16-bit mono PCM while it is still streaming in: every delta becomes an AudioBuffer that is
+// scheduled to start exactly where the previous one ends.
+
+// Headroom before the first buffer (and after any underrun) so it isn't scheduled in the past
+const START_LEAD_SECONDS = 0.1;
+
+export class PcmStreamPlayer {
+  private context: AudioContext | null = null;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private remainder: Uint8Array | null = null; // odd trailing byte of a delta split mid-sample
+
+  constructor(private sampleRate: number = 24000) {}
+
+  // Call from a user gesture (e.g. the Generate click) so the browser lets audio start
+  start() {
+    this.stop();
+    this.context = new AudioContext();
+    this.nextStartTime = 0;
+  }
+
+  push(pcm: Uint8Array) {
+    const context = this.context;
+    if (!context || pcm.byteLength === 0) return;
+
+    let bytes = pcm;
+    if (this.remainder) {
+      bytes = new Uint8Array(this.remainder.byteLength + pcm.byteLength);
+      bytes.set(this.remainder);
+      bytes.set(pcm, this.remainder.byteLength);
+      this.remainder = null;
+    }
+    const sampleCount = Math.floor(bytes.byteLength / 2);
+    if (bytes.byteLength % 2) this.remainder = bytes.slice(-1);
+    if (sampleCount === 0) return;
+
+    // The context resamples buffers recorded at other rates on playback
+    const buffer = context.createBuffer(1, sampleCount, this.sampleRate);
+    const channel = buffer.getChannelData(0);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, sampleCount * 2);
+    for (let i = 0; i < sampleCount; i++) {
+      channel[i] = view.getInt16(i * 2, true) / 0x8000;
+    }
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.onended = () => this.sources.delete(source);
+
+    const startAt = Math.max(this.nextStartTime, context.currentTime + START_LEAD_SECONDS);
+    source.start(startAt);
+    this.nextStartTime = startAt + buffer.duration;
+    this.sources.add(source);
+  }
+
+  stop() {
+    this.sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+    });
+    this.sources.clear();
+    this.remainder = null;
+    this.context?.close();
+    this.context = null;
+  }
+}
@@ -1,4 +1,7 @@
 import { supabase } from '@/lib/supabase';
+import { ProjectMediaMetadata, VideoForgeProjectData } from '@/types/project';
+import { TimelineClip } from '@/types/video-editor';
+import { createDefaultTracks, createTrack } from '@/utils/tracks';
 
 export interface Project {
   id: string;
@@ -142,6 +145,102 @@ export async function saveProjectData(projectId: string, data: any): Promise<voi
     .catch(err => console.warn('[projectService] Failed to update timestamp:', err));
 }
 
+// Save some sections of a project's data, keeping the rest as stored - VideoForge and VoiceForge
+// each autosave their own part of the same row
+export async function updateProjectData(
+  projectId: string,
+  sections: Partial<VideoForgeProjectData>
+): Promise<void> {
+  const project = await getProject(projectId);
+  await saveProjectData(projectId, { ...project.data, ...sections });
+}
+
+// First unlocked audio track that is free over [start, end], or a new audio track below the rest
+// (added to `data`)
+function findAudioTrack(data: VideoForgeProjectData, start: number, end: number): number {
+  const { clips, tracks } = data.editorState;
+  if (tracks) {
+    const isFree = (trackIndex: number) =>
+      !clips.some(c => c.trackIndex === trackIndex && c.startTime < end && c.startTime + c.duration > start);
+    const index = tracks.findIndex((t, i) => t.kind === 'audio' && !t.locked && isFree(i));
+    if (index !== -1) return index;
+
+    data.editorState.tracks = [...tracks, createTrack(tracks, 'audio')];
+    return tracks.length;
+  }
+
+  // Projects saved before tracks were stored: a track that only holds audio counts as an audio track
+  const audioAssetIds = new Set(data.mediaMetadata.filter(m => m.type === 'audio').map(m => m.id));
+  const trackIndices = [...new Set(clips.map(c => c.trackIndex))].sort((a, b) => a - b);
+
+  for (const trackIndex of trackIndices) {
+    if (data.editorState.trackTypes?.[trackIndex] === 'captions') continue;
+    const trackClips = clips.filter(c => c.trackIndex === trackIndex);
+    if (!trackClips.every(c => audioAssetIds.has(c.assetId))) continue;
+    const overlaps = trackClips.some(c => c.startTime < end && c.startTime + c.duration > start);
+    if (!overlaps) return trackIndex;
+  }
+
+  return trackIndices.length > 0 ? trackIndices[trackIndices.length - 1] + 1 : 0;
+}
+
+// Register uploaded files as media assets of a project, optionally placing them on audio tracks at the
+// playhead - several files at once (e.g. one per speaker) each get their own track
+export async function addMediaToProject(
+  projectId: string,
+  media: ProjectMediaMetadata[],
+  options: { addToTimeline?: boolean } = {}
+): Promise<void> {
+  console.log('[projectService] addMediaToProject called');
+  console.log('[projectService]   projectId:', projectId);
+  console.log('[projectService]   media:', media.map(m => m.storagePath));
+
+  const project = await getProject(projectId);
+  const existing = project.data as VideoForgeProjectData | undefined;
+
+  const data: VideoForgeProjectData = {
+    ...existing,
+    version: 1,
+    editorState: {
+      clips: [],
+      playheadPosition: 0,
+      isPlaying: false,
+      selectedClipIds: [],
+      zoomLevel: 50,
+      aspectRatio: '16:9',
+      volume: 1,
+      duration: 0,
+      trackSettings: {},
+      ...existing?.editorState,
+      // Saved projects without tracks keep using trackIndex alone until the editor opens them
+      tracks: existing?.editorState ? existing.editorState.tracks : createDefaultTracks(),
+    },
+    mediaMetadata: [...(existing?.mediaMetadata || []), ...media],
+  };
+
+  if (options.addToTimeline) {
+    const startTime = data.editorState.playheadPosition || 0;
+    for (const item of media) {
+      const duration = item.duration || 5;
+      const clip: TimelineClip = {
+        id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        assetId: item.id,
+        trackIndex: findAudioTrack(data, startTime, startTime + duration),
+        startTime,
+        duration,
+        trimStart: 0,
+        trimEnd: 0,
+      };
+
+      data.editorState.clips = [...data.editorState.clips, clip];
+      data.editorState.duration = Math.max(data.editorState.duration || 0, startTime + duration);
+      console.log('[projectService]   placed', item.name, 'on track:', clip.trackIndex, 'at', startTime);
+    }
+  }
+
+  await saveProjectData(projectId, data);
+}
+
 // Delete project
 export async function deleteProject(projectId: string): Promise<void> {
   const { error } = await supabase
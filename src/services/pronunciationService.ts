@@ -0,0 +1,101 @@
+import { supabase } from '@/lib/supabase';
+import { PronunciationEntry } from '@/types';
+
+// Pronunciation lexicon: one per workspace, keyed by the workspace owner's user id.
+// Inside a project that is the project owner, so collaborators share the owner's lexicon.
+
+interface PronunciationRow {
+  id: string;
+  owner_id: string;
+  term: string;
+  respelling: string;
+}
+
+export type PronunciationInput = Omit<PronunciationEntry, 'id'>;
+
+function fromRow(row: PronunciationRow): PronunciationEntry {
+  return { id: row.id, term: row.term, respelling: row.respelling };
+}
+
+/**
+ * Workspace the lexicon belongs to: the project owner's, or the signed-in user's own workspace.
+ */
+export async function getWorkspaceOwnerId(projectId: string | null): Promise<string> {
+  if (projectId) {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('owner_id')
+      .eq('id', projectId)
+      .single();
+
+    if (error) {
+      console.error('[pronunciationService] Failed to resolve project workspace:', error);
+      throw error;
+    }
+    return data.owner_id;
+  }
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+export async function listPronunciations(ownerId: string): Promise<PronunciationEntry[]> {
+  const { data, error } = await supabase
+    .from('pronunciations')
+    .select('id, owner_id, term, respelling')
+    .eq('owner_id', ownerId)
+    .order('term', { ascending: true });
+
+  if (error) {
+    console.error('[pronunciationService] Failed to list pronunciations:', error);
+    throw error;
+  }
+  return (data as PronunciationRow[]).map(fromRow);
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+export async function addPronunciation(ownerId: string, entry: PronunciationInput): Promise<PronunciationEntry> {
+  const { data, error } = await supabase
+    .from('pronunciations')
+    .insert({ owner_id: ownerId, term: entry.term, respelling: entry.respelling })
+    .select('id, owner_id, term, respelling')
+    .single();
+
+  if (error) {
+    console.error('[pronunciationService] Failed to add pronunciation:', error);
+    throw error;
+  }
+  return fromRow(data as PronunciationRow);
+}
+
+export async function updatePronunciation(id: string, entry: PronunciationInput): Promise<void> {
+  const { error } = await supabase
+    .from('pronunciations')
+    .update({ term: entry.term, respelling: entry.respelling, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('[pronunciationService] Failed to update pronunciation:', error);
+    throw error;
+  }
+}
+
+export async function deletePronunciation(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('pronunciations')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('[pronunciationService] Failed to delete pronunciation:', error);
+    throw error;
+  }
+}
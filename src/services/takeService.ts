@@ -0,0 +1,217 @@
+import { supabase } from '@/lib/supabase';
+import { uploadFile, downloadFile, deleteFile } from '@/services/storageService';
+import { AUDIO_FORMATS } from '@/services/audioEncoder';
+import { VoiceTake } from '@/types';
+
+// Take history: local takes live in IndexedDB with their audio, project takes in the
+// voice_takes table with audio in project storage.
+
+const DB_NAME = 'voicespark-takes';
+const DB_VERSION = 1;
+const STORE_NAME = 'takes';
+
+type NewTake = Omit<VoiceTake, 'id' | 'createdAt' | 'storagePath'>;
+export type TakeUpdates = Partial<Pick<VoiceTake, 'name' | 'starred'>>;
+
+interface LocalTakeRecord extends VoiceTake {
+  audio: Blob;
+}
+
+interface TakeRow {
+  id: string;
+  project_id: string;
+  name: string;
+  starred: boolean;
+  created_at: string;
+  script: string;
+  voice: VoiceTake['voice'];
+  preset_id: string | null;
+  traits: string[];
+  settings: VoiceTake['settings'];
+  speakers: VoiceTake['speakers'] | null;
+  transcript: string;
+  words: VoiceTake['words'];
+  duration: number | null;
+  format: VoiceTake['format'];
+  storage_path: string;
+}
+
+// ============================================
+// INDEXEDDB
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function toTake({ audio, ...take }: LocalTakeRecord): VoiceTake {
+  return take;
+}
+
+function fromRow(row: TakeRow): VoiceTake {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    starred: row.starred,
+    createdAt: row.created_at,
+    script: row.script,
+    voice: row.voice,
+    presetId: row.preset_id,
+    traits: row.traits || [],
+    settings: row.settings,
+    speakers: row.speakers || undefined,
+    transcript: row.transcript,
+    words: row.words || [],
+    duration: row.duration ?? undefined,
+    format: row.format,
+    storagePath: row.storage_path,
+  };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Takes for a project (from Supabase) or, with no project, the local history. Newest first.
+ */
+export async function listTakes(projectId: string | null): Promise<VoiceTake[]> {
+  if (!projectId) {
+    const records = await runStore<LocalTakeRecord[]>('readonly', store => store.getAll());
+    return records.map(toTake).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  const { data, error } = await supabase
+    .from('voice_takes')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[takeService] Failed to list takes:', error);
+    throw error;
+  }
+  return (data as TakeRow[]).map(fromRow);
+}
+
+export async function getTakeAudio(take: VoiceTake): Promise<Blob> {
+  if (take.storagePath) {
+    return downloadFile(take.storagePath);
+  }
+
+  const record = await runStore<LocalTakeRecord | undefined>('readonly', store => store.get(take.id));
+  if (!record) throw new Error('Take audio not found');
+  return record.audio;
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+export async function saveTake(take: NewTake, audio: Blob): Promise<VoiceTake> {
+  if (!take.projectId) {
+    const saved: VoiceTake = { ...take, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+    await runStore('readwrite', store => store.put({ ...saved, audio }));
+    return saved;
+  }
+
+  const file = new File([audio], `take-${Date.now()}.${AUDIO_FORMATS[take.format].extension}`, {
+    type: AUDIO_FORMATS[take.format].mimeType,
+  });
+  const storagePath = await uploadFile(take.projectId, file);
+
+  const { data, error } = await supabase
+    .from('voice_takes')
+    .insert({
+      project_id: take.projectId,
+      name: take.name,
+      starred: take.starred,
+      script: take.script,
+      voice: take.voice,
+      preset_id: take.presetId,
+      traits: take.traits,
+      settings: take.settings,
+      speakers: take.speakers || {},
+      transcript: take.transcript,
+      words: take.words,
+      duration: take.duration ?? null,
+      format: take.format,
+      storage_path: storagePath,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[takeService] Failed to save take:', error);
+    deleteFile(storagePath).catch(() => { /* ignore */ });
+    throw error;
+  }
+  return fromRow(data as TakeRow);
+}
+
+export async function updateTake(take: VoiceTake, updates: TakeUpdates): Promise<VoiceTake> {
+  if (!take.projectId) {
+    const record = await runStore<LocalTakeRecord | undefined>('readonly', store => store.get(take.id));
+    if (!record) throw new Error('Take not found');
+    const updated = { ...record, ...updates };
+    await runStore('readwrite', store => store.put(updated));
+    return toTake(updated);
+  }
+
+  const { error } = await supabase
+    .from('voice_takes')
+    .update(updates)
+    .eq('id', take.id);
+
+  if (error) {
+    console.error('[takeService] Failed to update take:', error);
+    throw error;
+  }
+  return { ...take, ...updates };
+}
+
+export async function deleteTake(take: VoiceTake): Promise<void> {
+  if (!take.projectId) {
+    await runStore('readwrite', store => store.delete(take.id));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('voice_takes')
+    .delete()
+    .eq('id', take.id);
+
+  if (error) {
+    console.error('[takeService] Failed to delete take:', error);
+    throw error;
+  }
+
+  if (take.storagePath) {
+    deleteFile(take.storagePath).catch(err => console.warn('[takeService] Failed to delete take audio:', err));
+  }
+}
@@ -0,0 +1,112 @@
+import { supabase } from '@/lib/supabase';
+import { UsageRecord } from '@/types';
+
+// Usage rows are written by the generate-voice edge function; the app only reads them. RLS
+// shows a workspace owner all usage of their workspace and everyone else their own.
+
+interface UsageRow {
+  id: string;
+  owner_id: string;
+  user_id: string;
+  user_email: string | null;
+  project_id: string | null;
+  voice: string;
+  characters: number;
+  audio_seconds: number | string; // NUMERIC columns can come back as strings
+  estimated_cost: number | string;
+  created_at: string;
+  project: { name: string } | null;
+}
+
+function fromRow(row: UsageRow): UsageRecord {
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    projectId: row.project_id,
+    projectName: row.project?.name ?? null,
+    voice: row.voice,
+    characters: row.characters,
+    audioSeconds: Number(row.audio_seconds),
+    estimatedCost: Number(row.estimated_cost),
+    createdAt: row.created_at,
+  };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Usage recorded since `since`, newest first
+ */
+export async function listUsage(since: Date): Promise<UsageRecord[]> {
+  const { data, error } = await supabase
+    .from('voice_usage')
+    .select(`
+      *,
+      project:projects(name)
+    `)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[usageService] Failed to list usage:', error);
+    throw error;
+  }
+
+  return ((data || []) as UsageRow[]).map(fromRow);
+}
+
+/**
+ * Monthly soft limit of a workspace in USD, or null if it has none
+ */
+export async function getMonthlyLimit(ownerId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('usage_limits')
+    .select('monthly_cost_limit')
+    .eq('owner_id', ownerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[usageService] Failed to get usage limit:', error);
+    throw error;
+  }
+
+  return data ? Number(data.monthly_cost_limit) : null;
+}
+
+/**
+ * Estimated cost of a workspace this calendar month (UTC), as the limit check counts it
+ */
+export async function getMonthlyCost(ownerId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('get_monthly_voice_cost', { workspace_id: ownerId });
+
+  if (error) {
+    console.error('[usageService] Failed to get monthly cost:', error);
+    throw error;
+  }
+
+  return Number(data) || 0;
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+/**
+ * Set the signed-in owner's monthly limit, or remove it with null
+ */
+export async function setMonthlyLimit(ownerId: string, limit: number | null): Promise<void> {
+  const { error } = limit === null
+    ? await supabase.from('usage_limits').delete().eq('owner_id', ownerId)
+    : await supabase
+        .from('usage_limits')
+        .upsert({ owner_id: ownerId, monthly_cost_limit: limit, updated_at: new Date().toISOString() });
+
+  if (error) {
+    console.error('[usageService] Failed to set usage limit:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { TimelineClip } from '@/types/video-editor';
+import { buildAtempoFilter, buildVideoSpeedFilter, getClipSpeed } from './videoExporter';
+
+const clip = (overrides: Partial<TimelineClip> = {}): TimelineClip => ({
+  id: 'clip',
+  assetId: 'asset',
+  trackIndex: 0,
+  startTime: 0,
+  duration: 5,
+  trimStart: 0,
+  trimEnd: 0,
+  ...overrides,
+});
+
+describe('buildVideoSpeedFilter', () => {
+  it.each([
+    [0.25, 'setpts=(PTS-STARTPTS)/0.25'],
+    [0.5, 'setpts=(PTS-STARTPTS)/0.5'],
+    [1, 'setpts=PTS-STARTPTS'],
+    [1.5, 'setpts=(PTS-STARTPTS)/1.5'],
+    [2, 'setpts=(PTS-STARTPTS)/2'],
+    [3, 'setpts=(PTS-STARTPTS)/3'],
+    [4, 'setpts=(PTS-STARTPTS)/4'],
+  ])('retimes %sx video', (speed, expected) => {
+    expect(buildVideoSpeedFilter(speed)).toBe(expected);
+  });
+});
+
+describe('buildAtempoFilter', () => {
+  it.each([
+    [0.25, 'atempo=0.5,atempo=0.5'],
+    [0.5, 'atempo=0.5'],
+    [1, ''],
+    [1.5, 'atempo=1.5'],
+    [2, 'atempo=2.0'],
+    [3, 'atempo=2.0,atempo=1.5'],
+    [4, 'atempo=2.0,atempo=2.0'],
+  ])('builds the atempo chain for %sx', (speed, expected) => {
+    expect(buildAtempoFilter(speed)).toBe(expected);
+  });
+
+  it.each([0.25, 0.3, 0.5, 0.75, 1.5, 2, 2.5, 3, 4])('keeps every stage in range and multiplies out to %sx', (speed) => {
+    const factors = buildAtempoFilter(speed).split(',').map(f => Number(f.replace('atempo=', '')));
+    factors.forEach(factor => {
+      expect(factor).toBeGreaterThanOrEqual(0.5);
+      expect(factor).toBeLessThanOrEqual(2);
+    });
+    expect(factors.reduce((product, factor) => product * factor, 1)).toBeCloseTo(speed, 5);
+  });
+});
+
+describe('getClipSpeed', () => {
+  it('multiplies clip speed by track speed', () => {
+    expect(getClipSpeed(clip({ speed: 2 }), { 0: { volume: 1, speed: 1.5, visible: true, muted: false } })).toBe(3);
+  });
+
+  it('defaults to 1x without clip or track speed', () => {
+    expect(getClipSpeed(clip(), {})).toBe(1);
+  });
+
+  it('falls back to 1x for invalid speeds', () => {
+    expect(getClipSpeed(clip({ speed: 0 }), {})).toBe(1);
+    expect(getClipSpeed(clip({ speed: Infinity }), {})).toBe(1);
+  });
+});
@@ -1,6 +1,17 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
 import { MediaAsset, TimelineClip } from '@/types/video-editor';
+import {
+  ActiveTransitionType,
+  buildIncomingTransitionFilter,
+  buildOutgoingTransitionFilter,
+  getNextTransitionType,
+  getOutgoingHoldDuration,
+  getTransitionDuration,
+  hasTransition,
+} from '@/utils/transitions';
+import { buildKenBurnsFilter } from '@/utils/kenBurns';
+import { isCaptionClip, renderCaptionToPng } from '@/utils/captions';
 
 let ffmpeg: FFmpeg | null = null;
 let ffmpegLoaded = false;
@@ -185,13 +196,68 @@ export async function initFFmpeg(onProgress?: (progress: number) => void, onStat
   }
 }
 
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'bmp', 'gif'];
+
+// FFmpeg picks the image decoder from the file extension
+function getImageExtension(asset: MediaAsset): string {
+  const ext = asset.name.split('.').pop()?.toLowerCase();
+  return ext && IMAGE_EXTENSIONS.includes(ext) ? ext : 'png';
+}
+
+type TrackSettings = Record<number, { volume: number; speed: number; visible: boolean; muted: boolean }>;
+
+// Effective playback rate of a clip - same as the preview (clip speed x track speed)
+export function getClipSpeed(clip: TimelineClip, trackSettings: TrackSettings): number {
+  const speed = (clip.speed ?? 1) * (trackSettings[clip.trackIndex]?.speed ?? 1);
+  return speed > 0 && isFinite(speed) ? speed : 1;
+}
+
+// Reset timestamps to 0 and retime the video stream for the given speed
+export function buildVideoSpeedFilter(speed: number): string {
+  if (speed === 1) return 'setpts=PTS-STARTPTS';
+  return `setpts=(PTS-STARTPTS)/${speed}`;
+}
+
+// atempo only accepts 0.5-2, so larger changes are chained (e.g. 4x = atempo=2.0,atempo=2.0)
+export function buildAtempoFilter(speed: number): string {
+  if (speed === 1) return '';
+
+  const filters: string[] = [];
+  let remaining = speed;
+  while (remaining >= 2) {
+    filters.push('atempo=2.0');
+    remaining /= 2;
+  }
+  while (remaining <= 0.5) {
+    filters.push('atempo=0.5');
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 1e-6) {
+    filters.push(`atempo=${Number(remaining.toFixed(6))}`);
+  }
+  return filters.join(',');
+}
+
+// Audio chain for one clip: trim the source range the clip plays, retime it, then place it on the timeline
+function buildAudioClipFilter(clip: TimelineClip, speed: number, volume: number): string {
+  const delayMs = Math.round(clip.startTime * 1000);
+  const sourceDuration = clip.duration * speed;
+  const atempo = buildAtempoFilter(speed);
+
+  return (
+    `atrim=start=${clip.trimStart}:duration=${sourceDuration},asetpts=PTS-STARTPTS,` +
+    (atempo ? `${atempo},` : '') +
+    `volume=${volume},adelay=${delayMs}|${delayMs}`
+  );
+}
+
 interface ExportOptions {
   clips: TimelineClip[];
   assets: MediaAsset[];
   resolution: { width: number; height: number };
   format: 'mp4' | 'webm' | 'mov';
   fps?: number;
-  trackSettings: Record<number, { volume: number; speed: number; visible: boolean; muted: boolean }>;
+  trackSettings: TrackSettings;
   onProgress?: (progress: number) => void;
   onStatus?: (status: string) => void;
 }
@@ -237,10 +303,26 @@ export async function exportVideo({
     hasAudio: boolean; // Track whether this input has an audio stream
   }> = [];
 
+  // Captions are rendered to transparent PNGs and overlaid like stills
+  const captionInputs: Array<{ inputName: string; clip: TimelineClip }> = [];
+
   let inputIdx = 0;
 
   for (let i = 0; i < visibleClips.length; i++) {
     const clip = visibleClips[i];
+
+    if (isCaptionClip(clip)) {
+      try {
+        const inputName = `caption${captionInputs.length}.png`;
+        await ff.writeFile(inputName, await renderCaptionToPng(clip.caption!, resolution.width, resolution.height));
+        captionInputs.push({ inputName, clip });
+      } catch (error) {
+        console.error(`[VideoExporter] Failed to render caption ${clip.id}:`, error);
+        throw new Error(`Failed to render caption: "${clip.caption!.text}"`);
+      }
+      continue;
+    }
+
     const asset = assets.find((a) => a.id === clip.assetId);
 
     if (!asset) {
@@ -248,11 +330,6 @@ export async function exportVideo({
       continue;
     }
 
-    // Only process video and audio clips
-    if (asset.type !== 'video' && asset.type !== 'audio') {
-      console.log(`[VideoExporter] Skipping non-media clip type: ${asset.type}`);
-      continue;
-    }
 
     try {
       console.log(`[VideoExporter] Loading clip ${i + 1}/${visibleClips.length}: ${asset.name} (${asset.type})`);
@@ -263,7 +340,7 @@ export async function exportVideo({
         throw new Error(`File is empty or could not be loaded: ${asset.name}`);
       }
 
-      const ext = asset.type === 'video' ? 'mp4' : 'mp3';
+      const ext = asset.type === 'video' ? 'mp4' : asset.type === 'audio' ? 'mp3' : getImageExtension(asset);
       const inputName = `input${inputIdx}.${ext}`;
       await ff.writeFile(inputName, fileData);
 
@@ -287,24 +364,28 @@ export async function exportVideo({
 
   console.log(`[VideoExporter] Successfully loaded ${processedClips.length} clips`);
 
-  if (processedClips.length === 0) {
-    throw new Error('No valid video or audio clips found');
+  if (processedClips.length === 0 && captionInputs.length === 0) {
+    throw new Error('No valid video, image or audio clips found');
   }
 
-  // Separate video and audio clips
+  // Separate visual (video + image) and audio clips
   const videoClips = processedClips.filter(pc => pc.asset.type === 'video');
+  const imageClips = processedClips.filter(pc => pc.asset.type === 'image');
+  const visualClips = processedClips.filter(pc => pc.asset.type === 'video' || pc.asset.type === 'image');
   const audioOnlyClips = processedClips.filter(pc => pc.asset.type === 'audio');
 
   // Calculate total timeline duration
   let totalDuration = 0;
-  for (const pc of processedClips) {
-    const clipEnd = pc.clip.startTime + pc.clip.duration;
+  for (const { clip } of [...processedClips, ...captionInputs]) {
+    const clipEnd = clip.startTime + clip.duration;
     totalDuration = Math.max(totalDuration, clipEnd);
   }
 
   console.log('[VideoExporter] Timeline analysis:');
   console.log(`  - Video clips: ${videoClips.length}`);
+  console.log(`  - Image clips: ${imageClips.length}`);
   console.log(`  - Audio-only clips: ${audioOnlyClips.length}`);
+  console.log(`  - Caption clips: ${captionInputs.length}`);
   console.log(`  - Total duration: ${totalDuration.toFixed(2)}s`);
 
   // Log each clip for debugging
@@ -329,46 +410,110 @@ export async function exportVideo({
 
     // === INPUTS 1+: All media files ===
     for (const pc of processedClips) {
-      args.push('-i', pc.inputName);
+      if (pc.asset.type === 'image') {
+        // Stills are looped into a stream long enough to cover the clip plus any transition hold
+        const imageDuration = pc.clip.duration + getOutgoingHoldDuration(pc.clip, visibleClips);
+        args.push('-loop', '1', '-framerate', String(fps), '-t', String(imageDuration), '-i', pc.inputName);
+      } else {
+        args.push('-i', pc.inputName);
+      }
+    }
+    for (const ci of captionInputs) {
+      args.push('-loop', '1', '-framerate', String(fps), '-t', String(ci.clip.duration), '-i', ci.inputName);
     }
 
     // === VIDEO PROCESSING ===
-    // Strategy: Start with black background, overlay each video clip using 'enable' for timing
-    if (videoClips.length > 0) {
-      let currentBase = '[0:v]';
+    // Strategy: Start with black background, overlay each video/image clip using 'enable' for timing
+    let currentBase = '[0:v]';
 
-      for (let i = 0; i < videoClips.length; i++) {
-        const vc = videoClips[i];
+    if (visualClips.length > 0) {
+      for (let i = 0; i < visualClips.length; i++) {
+        const vc = visualClips[i];
+        const isImage = vc.asset.type === 'image';
         const inputNum = vc.inputIndex + 1; // +1 because input 0 is the black background
         const clipStart = vc.clip.startTime;
-        const clipEnd = vc.clip.startTime + vc.clip.duration;
         const trimStart = vc.clip.trimStart;
         const clipDuration = vc.clip.duration;
+        // At speed N the clip consumes N seconds of source per second of timeline (stills have no speed)
+        const speed = isImage ? 1 : getClipSpeed(vc.clip, trackSettings);
+        const sourceDuration = clipDuration * speed;
+
+        // Outgoing clips hold their last frame so the next clip can transition over it
+        const hold = getOutgoingHoldDuration(vc.clip, visibleClips);
+        const clipEnd = clipStart + clipDuration + hold;
+
+        const transitionFilters: string[] = [];
+        if (isImage) {
+          const kenBurns = buildKenBurnsFilter(vc.clip.kenBurns, clipDuration, resolution, fps);
+          if (kenBurns) {
+            transitionFilters.push(kenBurns);
+          }
+        }
+        if (hasTransition(vc.clip)) {
+          transitionFilters.push(buildIncomingTransitionFilter(
+            vc.clip.transitionIn as ActiveTransitionType,
+            getTransitionDuration(vc.clip),
+            resolution,
+            fps
+          ));
+        }
+        const outgoingFilter = buildOutgoingTransitionFilter(
+          getNextTransitionType(vc.clip, visibleClips),
+          clipDuration,
+          hold,
+          resolution,
+          fps
+        );
+        if (outgoingFilter) {
+          transitionFilters.push(outgoingFilter);
+        }
 
-        // Prepare video: trim, scale, pad to fit resolution
+        // Prepare video: trim, retime, scale, pad to fit resolution, apply transitions in clip-local time,
+        // then shift timestamps so the clip lines up with its position on the timeline
         const prepLabel = `vprep${i}`;
         filterParts.push(
-          `[${inputNum}:v]trim=start=${trimStart}:duration=${clipDuration},setpts=PTS-STARTPTS,` +
+          `[${inputNum}:v]trim=start=${isImage ? 0 : trimStart}:duration=${sourceDuration},${buildVideoSpeedFilter(speed)},` +
           `scale=${resolution.width}:${resolution.height}:force_original_aspect_ratio=decrease,` +
-          `pad=${resolution.width}:${resolution.height}:(ow-iw)/2:(oh-ih)/2,fps=${fps}[${prepLabel}]`
+          `pad=${resolution.width}:${resolution.height}:(ow-iw)/2:(oh-ih)/2,fps=${fps},` +
+          transitionFilters.map(f => `${f},`).join('') +
+          `setpts=PTS+${clipStart}/TB[${prepLabel}]`
         );
 
         // Overlay on current base with enable filter for timing
-        const isLast = i === videoClips.length - 1;
-        const outLabel = isLast ? '[vout]' : `[vbase${i}]`;
+        const outLabel = `[vbase${i}]`;
 
         // Use enable to show overlay only during the clip's time window
         filterParts.push(
-          `${currentBase}[${prepLabel}]overlay=0:0:enable='between(t,${clipStart},${clipEnd})'${outLabel}`
+          `${currentBase}[${prepLabel}]overlay=0:0:eof_action=pass:enable='between(t,${clipStart},${clipEnd})'${outLabel}`
         );
 
         currentBase = outLabel;
       }
-    } else {
-      // No video clips - use black background directly
-      filterParts.push(`[0:v]null[vout]`);
     }
 
+    // Captions go on top of all video and image clips
+    for (let i = 0; i < captionInputs.length; i++) {
+      const ci = captionInputs[i];
+      const inputNum = processedClips.length + 1 + i;
+      const clipStart = ci.clip.startTime;
+      const clipEnd = clipStart + ci.clip.duration;
+      const captionLabel = `cap${i}`;
+      const fadeIn = ci.clip.caption!.style.animation === 'fade' ? ',fade=t=in:st=0:d=0.2:alpha=1' : '';
+
+      filterParts.push(
+        `[${inputNum}:v]format=rgba${fadeIn},setpts=PTS-STARTPTS+${clipStart}/TB[${captionLabel}]`
+      );
+
+      const outLabel = `[cbase${i}]`;
+      filterParts.push(
+        `${currentBase}[${captionLabel}]overlay=0:0:eof_action=pass:enable='between(t,${clipStart},${clipEnd})'${outLabel}`
+      );
+      currentBase = outLabel;
+    }
+
+    // Untouched black background when there is nothing to overlay
+    filterParts.push(`${currentBase}null[vout]`);
+
     // === AUDIO PROCESSING ===
     // Process ALL audio sources: video file audio + standalone audio files
 
@@ -385,17 +530,12 @@ export async function exportVideo({
         }
 
         const volume = (vc.clip.volume ?? 1) * (trackSetting.volume ?? 1);
-        const delayMs = Math.round(vc.clip.startTime * 1000);
-        const trimStart = vc.clip.trimStart;
-        const clipDuration = vc.clip.duration;
+        const speed = getClipSpeed(vc.clip, trackSettings);
         const audioLabel = `va${i}`;
 
-        console.log(`[VideoExporter] Adding video audio: ${vc.asset.name}, delay=${delayMs}ms, vol=${volume}`);
+        console.log(`[VideoExporter] Adding video audio: ${vc.asset.name}, start=${vc.clip.startTime}s, vol=${volume}, speed=${speed}`);
 
-        filterParts.push(
-          `[${inputNum}:a]atrim=start=${trimStart}:duration=${clipDuration},asetpts=PTS-STARTPTS,` +
-          `volume=${volume},adelay=${delayMs}|${delayMs}[${audioLabel}]`
-        );
+        filterParts.push(`[${inputNum}:a]${buildAudioClipFilter(vc.clip, speed, volume)}[${audioLabel}]`);
         audioStreams.push(`[${audioLabel}]`);
       }
     }
@@ -412,17 +552,12 @@ export async function exportVideo({
       }
 
       const volume = (ac.clip.volume ?? 1) * (trackSetting.volume ?? 1);
-      const delayMs = Math.round(ac.clip.startTime * 1000);
-      const trimStart = ac.clip.trimStart;
-      const clipDuration = ac.clip.duration;
+      const speed = getClipSpeed(ac.clip, trackSettings);
       const audioLabel = `a${i}`;
 
-      console.log(`[VideoExporter] Adding audio clip: ${ac.asset.name}, delay=${delayMs}ms, vol=${volume}, duration=${clipDuration}s`);
+      console.log(`[VideoExporter] Adding audio clip: ${ac.asset.name}, start=${ac.clip.startTime}s, vol=${volume}, speed=${speed}, duration=${ac.clip.duration}s`);
 
-      filterParts.push(
-        `[${inputNum}:a]atrim=start=${trimStart}:duration=${clipDuration},asetpts=PTS-STARTPTS,` +
-        `volume=${volume},adelay=${delayMs}|${delayMs}[${audioLabel}]`
-      );
+      filterParts.push(`[${inputNum}:a]${buildAudioClipFilter(ac.clip, speed, volume)}[${audioLabel}]`);
       audioStreams.push(`[${audioLabel}]`);
     }
 
@@ -534,8 +669,8 @@ export async function exportVideo({
   console.log('[VideoExporter] Output file size:', data.byteLength, 'bytes');
 
   // Cleanup
-  for (const pc of processedClips) {
-    try { await ff.deleteFile(pc.inputName); } catch { /* ignore */ }
+  for (const { inputName } of [...processedClips, ...captionInputs]) {
+    try { await ff.deleteFile(inputName); } catch { /* ignore */ }
   }
   try { await ff.deleteFile(outputName); } catch { /* ignore */ }
 
@@ -0,0 +1,188 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { MockRealtimeServer, startMockRealtime } from '../../supabase/mock-realtime/nodeServer';
+import { getErrorMessage } from '@/utils/errorHandler';
+import { DialoguePart, generateDialogue } from './voiceService';
+
+// generateDialogue talks to the real generate-voice function, which talks to the mock realtime
+// server. The function's workspace lookups and metering are stubbed out.
+const edge = vi.hoisted(() => ({
+  handler: null as ((req: Request) => Promise<Response>) | null,
+  apiKey: 'xai-mock-ok',
+}));
+
+vi.mock('https://deno.land/std@0.168.0/http/server.ts', () => ({
+  serve: (handler: (req: Request) => Promise<Response>) => {
+    edge.handler = handler;
+  },
+}));
+
+vi.mock('../../supabase/functions/_shared/keyVault.ts', () => ({
+  getCaller: async () => ({ id: 'user-1', email: 'user@example.com' }),
+  resolveApiKey: async () => ({ apiKey: edge.apiKey, ownerId: 'owner-1' }),
+}));
+
+vi.mock('../../supabase/functions/_shared/usage.ts', () => ({
+  checkGenerationLimit: async () => null,
+  limitReachedMessage: () => '',
+  recordUsage: async () => {},
+}));
+
+vi.mock('@/lib/supabase', () => ({
+  getFunctionHeaders: async () => ({ 'Content-Type': 'application/json' }),
+}));
+
+// Each word the mock reads is 0.3 s of tone and 0.05 s of silence, 24 kHz 16-bit mono
+const WORD_SECONDS = 0.35;
+const WORD_BYTES = WORD_SECONDS * 24000 * 2;
+
+let mock: MockRealtimeServer;
+
+const part = (script: string, speaker: string | null = null): DialoguePart => ({
+  speaker,
+  script,
+  voice: 'Ara',
+  styleInstructions: '',
+});
+
+// Like a real fetch, aborting the request's signal errors the body being read
+function withAbortableBody(response: Response, signal?: AbortSignal | null): Response {
+  if (!response.body || !signal) return response;
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      signal.addEventListener('abort', () => {
+        controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+        reader.cancel().catch(() => {});
+      }, { once: true });
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (signal.aborted) return;
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+  return new Response(body, { status: response.status, headers: response.headers });
+}
+
+beforeAll(async () => {
+  mock = await startMockRealtime({ eventDelayMs: 0 });
+  vi.stubGlobal('Deno', { env: { get: (name: string) => (name === 'XAI_API_URL' ? mock.url : undefined) } });
+  vi.stubGlobal('WebSocket', WebSocket);
+  vi.stubEnv('VITE_SUPABASE_URL', 'http://supabase.test');
+
+  const fetch = globalThis.fetch;
+  vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) =>
+    String(input) === 'http://supabase.test/functions/v1/generate-voice'
+      ? withAbortableBody(await edge.handler!(new Request(input, init)), init?.signal)
+      : fetch(input, init)
+  );
+
+  // Deno code: imported by path so the app's type-check doesn't follow it
+  const edgeFunction = '../../supabase/functions/generate-voice/index.ts';
+  await import(/* @vite-ignore */ edgeFunction);
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  await mock.close();
+});
+
+beforeEach(() => {
+  edge.apiKey = 'xai-mock-ok';
+  mock.received.length = 0;
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('generateDialogue', () => {
+  it('stitches the chunks of a dialogue into one WAV with word timings and stems', async () => {
+    let streamedBytes = 0;
+    let streamedTranscript = '';
+    const progress: [number, number][] = [];
+
+    const result = await generateDialogue([part('Hello there', 'ARA'), part('General Kenobi', 'REX')], {
+      onAudio: (pcm) => { streamedBytes += pcm.byteLength; },
+      onTranscript: (delta) => { streamedTranscript += delta; },
+      onChunkProgress: (completed, total) => progress.push([completed, total]),
+    });
+
+    // Two words, the 0.3 s gap between chunks, then two more words
+    const expectedBytes = 4 * WORD_BYTES + 0.3 * 48000;
+    expect(result.success).toBe(true);
+    expect(result.audioBlob!.size).toBe(44 + expectedBytes);
+    expect(streamedBytes).toBe(expectedBytes);
+    expect(result.transcript).toBe('Hello there General Kenobi');
+    expect(streamedTranscript).toBe('Hello there General Kenobi');
+    expect(result.partial).toBe(false);
+    expect(progress[progress.length - 1]).toEqual([2, 2]);
+
+    expect(result.words!.map(word => word.text)).toEqual(['Hello', 'there', 'General', 'Kenobi']);
+    // Each word starts within its own tone, the second chunk after the first and the gap
+    [0, 0.35, 1, 1.35].forEach((tone, i) => {
+      expect(result.words![i].start).toBeGreaterThanOrEqual(tone);
+      expect(result.words![i].start).toBeLessThan(tone + WORD_SECONDS);
+    });
+
+    expect(result.stems!.map(stem => [stem.speaker, stem.transcript])).toEqual([['ARA', 'Hello there'], ['REX', 'General Kenobi']]);
+    expect(result.stems!.every(stem => stem.audioBlob.size === result.audioBlob!.size)).toBe(true);
+  });
+
+  it('keeps the audio received so far when aborted', async () => {
+    const controller = new AbortController();
+    const result = await generateDialogue([part('One two three four five six seven eight')], {
+      signal: controller.signal,
+      onAudio: () => controller.abort(),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.partial).toBe(true);
+    expect(result.audioBlob!.size).toBeGreaterThan(44);
+    expect(result.transcript).toMatch(/^One/);
+  });
+
+  it.each([
+    ['401', 'Invalid API key. Check your xAI API key at console.x.ai', 'Invalid API key. Check your xAI API key at console.x.ai'],
+    ['402', 'Billing issue. Add credits at console.x.ai', 'Billing issue. Add credits at console.x.ai'],
+    ['403', 'Voice API not enabled. Create a new API key at console.x.ai with "realtime" endpoint enabled.', 'Voice API not enabled. Create a new API key at console.x.ai with "realtime" endpoint enabled.'],
+    ['429', 'Rate limited. Please wait a moment and try again.', 'Rate limited. Please wait a moment and try again.'],
+    ['error', 'Mock realtime failure', 'Mock realtime failure'],
+    ['empty', 'No audio generated. Try a different script or voice.', 'No audio generated. Try a longer script or different voice.'],
+    ['drop', 'Connection closed unexpectedly: 4000 Mock connection dropped', 'Connection failed. Check your internet connection and try again.'],
+  ])('fails the %s scenario with a message the user can act on', async (scenario, returned, shown) => {
+    edge.apiKey = `xai-mock-${scenario}`;
+    const result = await generateDialogue([part('Hello there General Kenobi')]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(returned);
+    expect(getErrorMessage(new Error(result.error))).toBe(shown);
+  });
+
+  it('names the part that failed in a multi-chunk generation', async () => {
+    edge.apiKey = 'xai-mock-error';
+    const result = await generateDialogue([part('Hello there'), part('General Kenobi')]);
+
+    expect(result.error).toMatch(/^Part [12] of 2: Mock realtime failure$/);
+  });
+
+  it('times out when the session goes quiet', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'], shouldAdvanceTime: true });
+    edge.apiKey = 'xai-mock-silent';
+
+    const generation = generateDialogue([part('Hello there')]);
+    await vi.waitFor(() => expect(mock.received).toContain('session.update'));
+    await vi.advanceTimersByTimeAsync(60000);
+
+    const result = await generation;
+    expect(result.error).toBe('WebSocket timeout - no response after 60 seconds');
+    expect(getErrorMessage(new Error(result.error))).toBe('Request timed out. Please try again with a shorter script.');
+  });
+});
@@ -1,17 +1,258 @@
+import { WordTimestamp } from '@/types';
+import { getFunctionHeaders } from '@/lib/supabase';
+import { LexiconEntry, restoreLexicon } from '@/utils/scriptTags';
+import { DEFAULT_CHUNK_GAP, planScript } from '@/utils/scriptChunker';
+import { concatPcm, decodeBase64, encodeWav, silencePcm, stitchPcm } from '@/utils/wav';
+import { alignTranscriptWords, TranscriptMark } from '@/utils/wordTimings';
+
 export interface VoiceGenerationResult {
   success: boolean;
   audioUrl?: string;
   audioBlob?: Blob;
   transcript?: string;
+  words?: WordTimestamp[];
+  stems?: SpeakerStem[]; // multi-speaker scripts only
+  partial?: boolean; // stopped early through `signal` - holds the audio received until then
   error?: string;
 }
 
+// A run of script spoken by one speaker
+export interface DialoguePart {
+  speaker: string | null;
+  script: string;
+  voice: string;
+  styleInstructions: string;
+}
+
+// WAV of a single speaker, the same length as the mixed track
+export interface SpeakerStem {
+  speaker: string | null;
+  audioBlob: Blob;
+  transcript: string;
+  words: WordTimestamp[];
+}
+
+export interface VoiceGenerationOptions {
+  chunkGap?: number; // seconds of silence between stitched chunks
+  concurrency?: number; // how many chunks to generate at once
+  lexicon?: LexiconEntry[]; // workspace pronunciations, applied by the edge function
+  projectId?: string | null; // usage is recorded against this project
+  signal?: AbortSignal; // abort to stop early and keep the audio received so far
+  onAudio?: (pcm: Uint8Array, sampleRate: number) => void; // streamed audio, in script order
+  onTranscript?: (delta: string) => void; // streamed transcript, in script order
+  onChunkProgress?: (completed: number, total: number) => void;
+}
+
+interface GeneratedChunk {
+  pcm: Uint8Array;
+  sampleRate: number;
+  transcript: string;
+  words: WordTimestamp[];
+}
+
+// Parallel sessions per generation - xAI rate limits kick in quickly above this
+const DEFAULT_CONCURRENCY = 2;
+
+// generate-voice streams 24 kHz 16-bit mono PCM
+const SAMPLE_RATE = 24000;
+
+// What a chunk has streamed so far
+interface ChunkStream {
+  parts: Uint8Array[];
+  bytes: number;
+  transcript: string;
+  marks: TranscriptMark[];
+}
+
+// A chunk of speech by its index in the chunk list, or an exact silence in seconds
+type PlanItem = { index: number } | { silence: number };
+
+// Generate one chunk through the edge function, collecting its audio and transcript into `stream`
+// as they arrive and calling `onUpdate` after each read
+async function generateChunk(
+  supabaseUrl: string,
+  headers: Record<string, string>,
+  chunk: DialoguePart,
+  lexicon: LexiconEntry[],
+  projectId: string | null,
+  generation: { id: string; chunkCount: number },
+  stream: ChunkStream,
+  onUpdate: () => void,
+  signal?: AbortSignal
+): Promise<GeneratedChunk> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/generate-voice`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      script: chunk.script,
+      voice: chunk.voice,
+      styleInstructions: chunk.styleInstructions,
+      lexicon: lexicon.map(({ term, respelling }) => ({ term, respelling })),
+      projectId,
+      generationId: generation.id,
+      chunkCount: generation.chunkCount,
+      stream: true
+    }),
+    signal
+  });
+
+  // Bad requests are rejected with plain JSON before anything streams
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Voice generation failed');
+  }
+
+  // Newline-delimited JSON events: audio and transcript deltas, then done or error
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let result: Pick<GeneratedChunk, 'transcript' | 'words'> | null = null;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line);
+        if (event.type === 'audio') {
+          const pcm = decodeBase64(event.delta);
+          stream.parts.push(pcm);
+          stream.bytes += pcm.byteLength;
+        } else if (event.type === 'transcript') {
+          stream.transcript += event.delta;
+          // Remember where in the audio this text arrived, for word timings of partial audio
+          stream.marks.push({ text: event.delta, audioBytes: stream.bytes });
+        } else if (event.type === 'done') {
+          result = { transcript: event.transcript || '', words: event.words || [] };
+        } else if (event.type === 'error') {
+          throw new Error(event.error || 'Voice generation failed');
+        }
+      }
+
+      onUpdate();
+      if (done) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  if (!result) {
+    throw new Error('Connection closed unexpectedly. Please try again.');
+  }
+
+  return {
+    pcm: concatPcm(stream.parts),
+    sampleRate: SAMPLE_RATE,
+    transcript: result.transcript,
+    words: result.words
+  };
+}
+
+/**
+ * Pass streamed audio and transcript on in script order. Chunks generate in parallel, so a later
+ * chunk's output is held back until every chunk before it has finished. Gaps and pauses are laid
+ * out the same way stitchPcm lays them out. Call the returned function whenever a chunk has new output.
+ */
+function createOrderedFeed(
+  plan: PlanItem[],
+  streams: ChunkStream[],
+  isDone: (index: number) => boolean,
+  gapSeconds: number,
+  onAudio?: VoiceGenerationOptions['onAudio'],
+  onTranscript?: VoiceGenerationOptions['onTranscript']
+): () => void {
+  let cursor = 0;
+  let previousWasSpeech = false;
+  let hasSpoken = false;
+  // How much of the chunk at the cursor has been passed on; null until it starts
+  let sent: { parts: number; text: number } | null = null;
+
+  return () => {
+    while (cursor < plan.length) {
+      const item = plan[cursor];
+      if (!('index' in item)) {
+        onAudio?.(silencePcm(item.silence, SAMPLE_RATE), SAMPLE_RATE);
+        previousWasSpeech = false;
+        cursor++;
+        continue;
+      }
+
+      if (!sent) {
+        if (previousWasSpeech) onAudio?.(silencePcm(gapSeconds, SAMPLE_RATE), SAMPLE_RATE);
+        if (hasSpoken) onTranscript?.(' ');
+        sent = { parts: 0, text: 0 };
+      }
+
+      const stream = streams[item.index];
+      stream.parts.slice(sent.parts).forEach(part => onAudio?.(part, SAMPLE_RATE));
+      if (stream.transcript.length > sent.text) onTranscript?.(stream.transcript.slice(sent.text));
+      sent = { parts: stream.parts.length, text: stream.transcript.length };
+
+      if (!isDone(item.index)) return;
+      previousWasSpeech = true;
+      hasSpoken = true;
+      sent = null;
+      cursor++;
+    }
+  };
+}
+
+// Run `task` over every item with at most `limit` in flight, keeping results in order. After the
+// first failure no new items are started; tasks already running are left to the caller to stop.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+  return results;
+}
+
 export async function generateVoiceover(
-  apiKey: string,
   script: string,
   voice: string = 'Rex',
-  styleInstructions: string = ''
+  styleInstructions: string = '',
+  options: VoiceGenerationOptions = {}
 ): Promise<VoiceGenerationResult> {
+  return generateDialogue([{ speaker: null, script, voice, styleInstructions }], options);
+}
+
+// Generate each speaker's lines with their own voice and stitch them into one track
+export async function generateDialogue(
+  parts: DialoguePart[],
+  options: VoiceGenerationOptions = {}
+): Promise<VoiceGenerationResult> {
+  const {
+    chunkGap = DEFAULT_CHUNK_GAP,
+    concurrency = DEFAULT_CONCURRENCY,
+    lexicon = [],
+    projectId = null,
+    signal,
+    onAudio,
+    onTranscript,
+    onChunkProgress
+  } = options;
+
   try {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
     
@@ -21,43 +262,140 @@ export async function generateVoiceover(
         error: 'Backend not configured. Please ensure Lovable Cloud is enabled.'
       };
     }
+    // The edge function finds the xAI key from the signed-in user
+    const headers = await getFunctionHeaders();
 
-    const response = await fetch(`${supabaseUrl}/functions/v1/generate-voice`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        apiKey,
-        script,
-        voice,
-        styleInstructions
-      })
-    });
-
-    const data = await response.json();
-
-    if (!response.ok || data.error) {
-      return {
-        success: false,
-        error: data.error || 'Voice generation failed'
-      };
+    // Long scripts are generated chunk by chunk and stitched back together, with [pause] tags
+    // spliced in as exact silence
+    const plan: PlanItem[] = [];
+    const chunks: DialoguePart[] = [];
+    for (const part of parts) {
+      for (const item of planScript(part.script)) {
+        if (item.type === 'speech') {
+          plan.push({ index: chunks.length });
+          chunks.push({ ...part, script: item.script });
+        } else {
+          plan.push({ silence: item.seconds });
+        }
+      }
+    }
+    if (chunks.length === 0) {
+      return { success: false, error: 'Please enter a script' };
     }
 
-    // Convert base64 audio to blob
-    const audioBytes = atob(data.audio);
-    const audioArray = new Uint8Array(audioBytes.length);
-    for (let i = 0; i < audioBytes.length; i++) {
-      audioArray[i] = audioBytes.charCodeAt(i);
+    let completed = 0;
+    onChunkProgress?.(0, chunks.length);
+
+    // Sent with every chunk, so the monthly limit is checked once for the whole generation
+    const generation = { id: crypto.randomUUID(), chunkCount: chunks.length };
+
+    // What each chunk has streamed so far, fed on to the caller in order and kept if cancelled
+    const streams: ChunkStream[] = chunks.map(() => ({ parts: [], bytes: 0, transcript: '', marks: [] }));
+    const finished: GeneratedChunk[] = [];
+    const feed = createOrderedFeed(plan, streams, index => !!finished[index], chunkGap, onAudio, onTranscript);
+
+    // One failed chunk fails the generation, so the chunks still running are stopped rather than
+    // left to finish (and be billed) in the background
+    const chunkController = new AbortController();
+    const abortChunks = () => chunkController.abort();
+    signal?.addEventListener('abort', abortChunks, { once: true });
+    if (signal?.aborted) abortChunks();
+
+    let generated: GeneratedChunk[];
+    let partial = false;
+    try {
+      generated = await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+        try {
+          const result = await generateChunk(
+            supabaseUrl, headers, chunk, lexicon, projectId, generation, streams[index], feed, chunkController.signal
+          );
+          finished[index] = result;
+          feed();
+          onChunkProgress?.(++completed, chunks.length);
+          return result;
+        } catch (error) {
+          abortChunks();
+          const message = error instanceof Error ? error.message : 'Voice generation failed';
+          throw new Error(chunks.length > 1 ? `Part ${index + 1} of ${chunks.length}: ${message}` : message);
+        }
+      });
+    } catch (error) {
+      if (!signal?.aborted) throw error;
+
+      // Stopped early: keep the finished chunks up to the first unfinished one, plus whatever
+      // that one had streamed
+      generated = [];
+      for (let i = 0; i < chunks.length && finished[i]; i++) {
+        generated.push(finished[i]);
+      }
+      const cutOff = streams[generated.length];
+      if (cutOff?.bytes > 0) {
+        generated.push({
+          pcm: concatPcm(cutOff.parts),
+          sampleRate: SAMPLE_RATE,
+          ...restoreLexicon(cutOff.transcript, alignTranscriptWords(cutOff.marks, cutOff.bytes), lexicon)
+        });
+      }
+      if (generated.length === 0) {
+        return { success: false, error: 'Generation cancelled' };
+      }
+      partial = true;
+    } finally {
+      signal?.removeEventListener('abort', abortChunks);
     }
-    const audioBlob = new Blob([audioArray], { type: 'audio/wav' });
+
+    // A cancelled generation ends with the last chunk kept
+    const keptPlan = partial
+      ? plan.slice(0, plan.findIndex(item => 'index' in item && item.index === generated.length - 1) + 1)
+      : plan;
+    const keptChunks = chunks.slice(0, generated.length);
+
+    const sampleRate = generated[0].sampleRate;
+    const { pcm, offsets: byteOffsets } = stitchPcm(
+      keptPlan.map(item => ('index' in item ? { pcm: generated[item.index].pcm } : item)),
+      chunkGap,
+      sampleRate
+    );
+
+    // Start of each chunk in the stitched audio, in seconds
+    const offsets = byteOffsets.map(byteOffset => byteOffset / 2 / sampleRate);
+    const words = generated.flatMap((chunk, i) =>
+      chunk.words.map(word => ({ ...word, start: word.start + offsets[i], end: word.end + offsets[i] }))
+    );
+
+    const audioBlob = new Blob([encodeWav(pcm, sampleRate)], { type: 'audio/wav' });
     const audioUrl = URL.createObjectURL(audioBlob);
 
+    // One full-length track per speaker, silent while the others talk, so they line up when stacked
+    const speakers = [...new Set(keptChunks.map(chunk => chunk.speaker))];
+    const stems = speakers.length > 1
+      ? speakers.map(speaker => {
+          const stemPcm = new Uint8Array(pcm.byteLength);
+          const stemWords: WordTimestamp[] = [];
+          const transcripts: string[] = [];
+          generated.forEach((chunk, i) => {
+            if (keptChunks[i].speaker !== speaker) return;
+            stemPcm.set(chunk.pcm, byteOffsets[i]);
+            stemWords.push(...chunk.words.map(word => ({ ...word, start: word.start + offsets[i], end: word.end + offsets[i] })));
+            transcripts.push(chunk.transcript);
+          });
+          return {
+            speaker,
+            audioBlob: new Blob([encodeWav(stemPcm, sampleRate)], { type: 'audio/wav' }),
+            transcript: transcripts.join(' ').trim(),
+            words: stemWords,
+          };
+        })
+      : undefined;
+
     return {
       success: true,
       audioUrl,
       audioBlob,
-      transcript: data.transcript
+      transcript: generated.map(chunk => chunk.transcript).join(' ').trim(),
+      words,
+      stems,
+      partial
     };
   } catch (error) {
     console.error('Voice generation error:', error);
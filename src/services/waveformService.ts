@@ -0,0 +1,136 @@
+import type { PeaksRequest, PeaksResponse } from '@/workers/peaks.worker';
+
+// Samples per peak at each resolution, finest first. At 48 kHz the finest level gives
+// ~375 peaks per second, enough for the timeline at its highest zoom.
+const PEAK_RESOLUTIONS = [128, 512, 2048, 8192];
+
+export interface WaveformPeaks {
+  sampleRate: number;
+  duration: number; // seconds
+  maxPeak: number; // loudest peak in the whole source, for normalising bar heights
+  levels: { samplesPerPeak: number; peaks: Float32Array }[];
+}
+
+// Keyed by asset ID (or audio URL outside the editor). Failed decodes resolve to null and are
+// dropped from the cache, so the next request for the asset tries again.
+const peaksCache = new Map<string, Promise<WaveformPeaks | null>>();
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, {
+  resolve: (levels: Float32Array[]) => void;
+  reject: (error: Error) => void;
+}>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/peaks.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PeaksResponse>) => {
+      const request = pendingRequests.get(event.data.id);
+      pendingRequests.delete(event.data.id);
+      request?.resolve(event.data.levels);
+    };
+    // A crashed worker answers nothing more: fail everything waiting on it and start a fresh one next time
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      const error = new Error(event.message || 'Peaks worker failed');
+      for (const request of pendingRequests.values()) {
+        request.reject(error);
+      }
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+function computeLevels(samples: Float32Array): Promise<Float32Array[]> {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    const request: PeaksRequest = { id, samples, samplesPerPeak: PEAK_RESOLUTIONS };
+    getWorker().postMessage(request, [samples.buffer]);
+  });
+}
+
+async function extractPeaks(src: string): Promise<WaveformPeaks> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch audio: ${response.statusText || response.status}`);
+  }
+  const data = await response.arrayBuffer();
+
+  // decodeAudioData already decodes off the main thread; the worker handles the peak reduction
+  const audioContext = new AudioContext();
+  try {
+    const buffer = await audioContext.decodeAudioData(data);
+
+    // Mix down to mono so stereo files read the same as voiceovers
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      for (let i = 0; i < channelData.length; i++) {
+        samples[i] += channelData[i] / buffer.numberOfChannels;
+      }
+    }
+
+    const levels = await computeLevels(samples);
+    const coarsest = levels[levels.length - 1];
+    return {
+      sampleRate: buffer.sampleRate,
+      duration: buffer.duration,
+      maxPeak: coarsest.reduce((max, peak) => Math.max(max, peak), 0),
+      levels: levels.map((peaks, i) => ({ samplesPerPeak: PEAK_RESOLUTIONS[i], peaks })),
+    };
+  } finally {
+    audioContext.close();
+  }
+}
+
+// Decode an audio (or video) source once and cache its peaks under `key`
+export function getWaveformPeaks(key: string, src: string): Promise<WaveformPeaks | null> {
+  let cached = peaksCache.get(key);
+  if (!cached) {
+    const request = extractPeaks(src).catch((error) => {
+      console.warn('[waveformService] Could not extract peaks for', key, error);
+      if (peaksCache.get(key) === request) peaksCache.delete(key);
+      return null;
+    });
+    cached = request;
+    peaksCache.set(key, cached);
+  }
+  return cached;
+}
+
+export function clearWaveformPeaks(key: string) {
+  peaksCache.delete(key);
+}
+
+/**
+ * Reduce the peaks between `start` and `end` seconds of the source to `barCount` bar heights (0-1),
+ * reading from the coarsest level that still has at least one peak per bar.
+ */
+export function getPeakBars(waveform: WaveformPeaks, start: number, end: number, barCount: number): number[] {
+  const bars = new Array<number>(Math.max(0, barCount)).fill(0);
+  if (barCount <= 0 || end <= start) return bars;
+
+  const samplesPerBar = ((end - start) * waveform.sampleRate) / barCount;
+  let level = waveform.levels[0];
+  for (const candidate of waveform.levels) {
+    if (candidate.samplesPerPeak <= samplesPerBar) level = candidate;
+  }
+
+  const peaksPerSecond = waveform.sampleRate / level.samplesPerPeak;
+  for (let bar = 0; bar < barCount; bar++) {
+    const from = Math.floor((start + ((end - start) * bar) / barCount) * peaksPerSecond);
+    const to = Math.max(from + 1, Math.floor((start + ((end - start) * (bar + 1)) / barCount) * peaksPerSecond));
+    let max = 0;
+    for (let i = Math.max(0, from); i < Math.min(level.peaks.length, to); i++) {
+      if (level.peaks[i] > max) max = level.peaks[i];
+    }
+    bars[bar] = max;
+  }
+
+  return bars;
+}
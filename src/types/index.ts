@@ -14,6 +14,13 @@ export type AudioFormat = 'mp3' | 'wav' | 'opus';
 export interface GenerationSettings {
   speed: number;
   format: AudioFormat;
+  chunkGap: number; // seconds of silence between chunks of long scripts
+}
+
+// Voice and delivery preset for one named speaker of a multi-speaker script
+export interface SpeakerConfig {
+  voice: VoiceId;
+  presetId: string | null;
 }
 
 export interface StyleTag {
@@ -40,13 +47,80 @@ export interface AudioState {
 }
 
 export interface VoiceGenerationConfig {
-  apiKey: string;
   voice: VoiceId;
   script: string;
   sampleRate?: number;
+  chunkGap?: number;
+  lexicon?: Omit<PronunciationEntry, 'id'>[];
+  onAudio?: (pcm: Uint8Array, sampleRate: number) => void; // streamed audio, gaps and pauses included
+  onTranscript?: (delta: string) => void;
+  onChunkProgress?: (completed: number, total: number) => void;
+}
+
+export interface WordTimestamp {
+  text: string;
+  start: number; // seconds from the start of the audio
+  end: number;
 }
 
 export interface GenerationResult {
   audioBlob: Blob;
   transcript: string;
+  words: WordTimestamp[];
+  partial?: boolean; // cancelled part way - holds the audio received until then
+}
+
+// A saved generation in the VoiceForge take history
+export interface VoiceTake {
+  id: string;
+  projectId: string | null; // null = local-only take kept in IndexedDB
+  name: string;
+  starred: boolean;
+  createdAt: string; // ISO 8601
+  script: string;
+  voice: VoiceId;
+  presetId: string | null;
+  traits: string[];
+  settings: GenerationSettings;
+  speakers?: Record<string, SpeakerConfig>;
+  transcript: string;
+  words: WordTimestamp[];
+  duration?: number; // seconds
+  format: AudioFormat;
+  storagePath?: string; // project takes only
+}
+
+// One row of a VoiceForge batch run
+export interface BatchScript extends SpeakerConfig {
+  title: string;
+  script: string;
+}
+
+// The xAI key in use, as the api-key edge function describes it (the key itself stays server-side)
+export interface ApiKeyStatus {
+  last4: string;
+  shared: boolean; // another workspace member's key - only they can change it
+  updatedAt: string;
+}
+
+// One metered generate-voice call
+export interface UsageRecord {
+  id: string;
+  ownerId: string; // workspace whose key paid for it
+  userId: string;
+  userEmail: string | null;
+  projectId: string | null;
+  projectName: string | null;
+  voice: string;
+  characters: number;
+  audioSeconds: number;
+  estimatedCost: number; // USD
+  createdAt: string;
+}
+
+// Workspace pronunciation lexicon entry
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  respelling: string; // phonetic respelling ("NYE-kee") or IPA hint between slashes ("/ˈnaɪki/")
 }
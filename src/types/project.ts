@@ -1,4 +1,5 @@
-import { TimelineClip, AspectRatio, MediaType } from './video-editor';
+import { TimelineClip, AspectRatio, MediaType, TimelineMarker, Track, TrackSettings } from './video-editor';
+import { WordTimestamp, VoiceId, GenerationSettings, SpeakerConfig } from './index';
 
 // VideoForge Project Structure
 export interface VideoForgeProject {
@@ -71,19 +72,32 @@ export interface VideoForgeProjectData {
     aspectRatio: string;
     volume: number;
     duration: number;
-    trackSettings: Record<number, {
-      volume: number;
-      speed: number;
-      visible: boolean;
-      muted: boolean;
-    }>;
+    tracks?: Track[]; // missing in projects saved before tracks were stored - see loadTracks
+    trackSettings: Record<string, TrackSettings>; // keyed by track id, or by trackIndex without tracks
+    trackTypes?: Record<number, 'media' | 'captions'>; // caption tracks, before tracks were stored
+    markers?: TimelineMarker[]; // missing in projects saved before markers existed
   };
-  mediaMetadata: Array<{
-    id: string;
-    name: string;
-    type: MediaType;
-    duration?: number;
-    thumbnail: string;
-    storagePath: string; // Path in Supabase Storage
-  }>;
+  mediaMetadata: ProjectMediaMetadata[];
+  voiceForge?: VoiceForgeProjectState;
+}
+
+// VoiceForge inputs saved with the project (takes live in the voice_takes table)
+export interface VoiceForgeProjectState {
+  script: string;
+  voice: VoiceId;
+  presetId: string | null;
+  traits: string[];
+  settings: GenerationSettings;
+  speakers?: Record<string, SpeakerConfig>;
+}
+
+export interface ProjectMediaMetadata {
+  id: string;
+  name: string;
+  type: MediaType;
+  duration?: number;
+  thumbnail: string;
+  storagePath: string; // Path in Supabase Storage
+  transcript?: string;
+  words?: WordTimestamp[];
 }
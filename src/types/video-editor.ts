@@ -1,6 +1,15 @@
+import { CaptionStyle } from './editor';
+import { WordTimestamp } from './index';
+
 export type MediaType = 'video' | 'audio' | 'image';
 export type AspectRatio = '16:9' | '9:16' | '1:1';
 export type TransitionType = 'none' | 'fade' | 'dissolve' | 'wipe-left' | 'wipe-right' | 'zoom-in' | 'zoom-out';
+export type KenBurnsEffect = 'none' | 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right';
+// Video and overlay tracks hold video and images, audio tracks audio, caption tracks captions
+export type TrackKind = 'video' | 'audio' | 'caption' | 'overlay';
+// How timeline drags edit clips: ripple shifts later clips, roll moves a cut, slip changes trimStart in place
+export type EditMode = 'normal' | 'ripple' | 'roll' | 'slip';
+export type MarkerColor = 'red' | 'yellow' | 'green' | 'cyan' | 'blue' | 'purple' | 'pink';
 
 export interface MediaAsset {
   id: string;
@@ -10,6 +19,13 @@ export interface MediaAsset {
   duration?: number; // for video/audio in seconds
   thumbnail?: string; // data URL for thumbnail
   file?: File; // original file
+  transcript?: string; // spoken text for voiceover audio, used to generate captions
+  words?: WordTimestamp[]; // per-word timings within the audio, when known
+}
+
+export interface CaptionData {
+  text: string;
+  style: CaptionStyle;
 }
 
 export interface TimelineClip {
@@ -24,6 +40,32 @@ export interface TimelineClip {
   speed?: number; // playback speed multiplier (0.25-4), defaults to 1
   transitionIn?: TransitionType; // transition effect at start of clip
   transitionDuration?: number; // transition duration in seconds (default 0.5)
+  kenBurns?: KenBurnsEffect; // slow pan/zoom across image clips (default none)
+  caption?: CaptionData; // set on caption clips, which have no backing asset
+  linkGroupId?: string; // clips sharing an id (e.g. a video and its split-off audio) move, trim, split and delete together
+}
+
+export interface Track {
+  id: string;
+  name: string;
+  kind: TrackKind;
+  locked: boolean; // clips on a locked track can't be selected, moved, trimmed or deleted
+  height: number; // in pixels
+}
+
+export interface TrackSettings {
+  volume: number;
+  speed: number;
+  visible: boolean;
+  muted: boolean;
+}
+
+export interface TimelineMarker {
+  id: string;
+  time: number; // position on timeline in seconds
+  label: string;
+  color: MarkerColor;
+  duration?: number; // set on range markers, in seconds
 }
 
 export interface EditorState {
@@ -36,7 +78,9 @@ export interface EditorState {
   aspectRatio: AspectRatio;
   volume: number; // 0-1
   duration: number; // total timeline duration in seconds
-  trackSettings: Record<number, { volume: number; speed: number; visible: boolean; muted: boolean }>; // track-level settings
+  tracks: Track[]; // top to bottom - a clip's trackIndex is its track's position here
+  trackSettings: Record<string, TrackSettings>; // track-level settings, keyed by track id
+  markers: TimelineMarker[]; // sorted by time
   seekVersion?: number; // Increments on explicit user seeks to trigger media sync
 }
 
@@ -0,0 +1,180 @@
+import { BatchScript, SpeakerConfig, VoiceId } from '@/types';
+import { VOICES } from '@/utils/voices';
+import { QUICK_PRESETS } from '@/config/styleMixer';
+
+export const DEFAULT_DOCUMENT_DELIMITER = '---';
+
+export interface BatchImport {
+  scripts: BatchScript[];
+  warnings: string[];
+}
+
+interface RawRow {
+  title?: unknown;
+  script?: unknown;
+  voice?: unknown;
+  preset?: unknown;
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : value == null ? '' : String(value).trim();
+}
+
+function findVoice(name: string): VoiceId | null {
+  return VOICES.find(voice => voice.id.toLowerCase() === name.toLowerCase())?.id ?? null;
+}
+
+// Presets can be given by id ("youtube-storyteller") or by name ("YouTube Storyteller")
+function findPreset(name: string): string | null {
+  const key = name.toLowerCase();
+  return QUICK_PRESETS.find(preset => preset.id === key || preset.name.toLowerCase() === key)?.id ?? null;
+}
+
+// Fill in defaults for missing or unknown voices and presets, skipping rows without a script
+function toScripts(rows: RawRow[], defaults: SpeakerConfig): BatchImport {
+  const scripts: BatchScript[] = [];
+  const warnings: string[] = [];
+
+  rows.forEach((row, i) => {
+    const label = `Row ${i + 1}`;
+    const script = text(row.script);
+    if (!script) {
+      warnings.push(`${label}: no script, skipped`);
+      return;
+    }
+
+    const voiceName = text(row.voice);
+    const voice = voiceName ? findVoice(voiceName) : defaults.voice;
+    if (!voice) warnings.push(`${label}: unknown voice "${voiceName}", using ${defaults.voice}`);
+
+    const presetName = text(row.preset);
+    const presetId = presetName ? findPreset(presetName) : defaults.presetId;
+    if (presetName && !presetId) warnings.push(`${label}: unknown preset "${presetName}", using the default`);
+
+    scripts.push({
+      title: text(row.title) || `Script ${i + 1}`,
+      script,
+      voice: voice ?? defaults.voice,
+      presetId: presetName && !presetId ? defaults.presetId : presetId,
+    });
+  });
+
+  return { scripts, warnings };
+}
+
+// RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes
+export function parseCsv(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * Rows from a CSV with a header row naming the title, script, voice and preset columns
+ * (any order, case-insensitive; only script is required).
+ */
+export function importCsv(input: string, defaults: SpeakerConfig): BatchImport {
+  const [header, ...rows] = parseCsv(input.replace(/^\uFEFF/, ''));
+  if (!header) return { scripts: [], warnings: ['The CSV is empty'] };
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  if (!columns.includes('script')) {
+    return { scripts: [], warnings: ['The CSV needs a "script" column'] };
+  }
+
+  return toScripts(
+    rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i]])) as RawRow),
+    defaults
+  );
+}
+
+// Rows from a JSON array of { title, script, voice, preset } objects (or { rows: [...] })
+export function importJson(input: string, defaults: SpeakerConfig): BatchImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(input);
+  } catch {
+    return { scripts: [], warnings: ['The file is not valid JSON'] };
+  }
+
+  const rows = Array.isArray(data) ? data : (data as { rows?: unknown })?.rows;
+  if (!Array.isArray(rows)) {
+    return { scripts: [], warnings: ['Expected a JSON array of rows'] };
+  }
+  return toScripts(rows.map(row => (typeof row === 'object' && row !== null ? row : {}) as RawRow), defaults);
+}
+
+/**
+ * One script per section of a document, split on lines holding only the delimiter. A first line
+ * starting with "#" is taken as the section's title.
+ */
+export function importDocument(
+  input: string,
+  defaults: SpeakerConfig,
+  delimiter = DEFAULT_DOCUMENT_DELIMITER
+): BatchImport {
+  const marker = delimiter.trim() || DEFAULT_DOCUMENT_DELIMITER;
+  const sections: string[][] = [[]];
+  for (const line of input.split(/\r?\n/)) {
+    if (line.trim() === marker) {
+      sections.push([]);
+    } else {
+      sections[sections.length - 1].push(line);
+    }
+  }
+
+  const rows = sections
+    .map(lines => lines.join('\n').trim())
+    .filter(Boolean)
+    .map(section => {
+      const [firstLine, ...rest] = section.split('\n');
+      return firstLine.startsWith('#')
+        ? { title: firstLine.replace(/^#+\s*/, ''), script: rest.join('\n') }
+        : { script: section };
+    });
+
+  return toScripts(rows, defaults);
+}
+
+export type BatchImportFormat = 'csv' | 'json' | 'document';
+
+// Guess the format from a file name: .csv, .json, anything else is a document
+export function formatForFile(fileName: string): BatchImportFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return extension === 'csv' ? 'csv' : extension === 'json' ? 'json' : 'document';
+}
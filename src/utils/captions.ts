@@ -0,0 +1,219 @@
+import { CaptionData, TimelineClip } from '@/types/video-editor';
+import { CaptionStyle } from '@/types/editor';
+
+// Caption font sizes are authored for a 1080px-tall (or wide, for vertical) frame
+const REFERENCE_SIZE = 1080;
+
+// Fraction of the frame width captions may span before wrapping
+const MAX_LINE_WIDTH = 0.8;
+
+// Length of the fade/pop entrance animations in seconds
+const ENTRANCE_DURATION = 0.2;
+
+export const DEFAULT_WORDS_PER_CAPTION = 4;
+
+export interface CaptionSegment {
+  text: string;
+  startTime: number;
+  duration: number;
+}
+
+export function isCaptionClip(clip: TimelineClip): boolean {
+  return !!clip.caption;
+}
+
+/**
+ * Split a transcript into short caption segments spread across [startTime, startTime + duration].
+ * Without word timings we share the time out by character count, which tracks speech closely enough
+ * for short chunks.
+ */
+export function buildCaptionSegments(
+  transcript: string,
+  startTime: number,
+  duration: number,
+  wordsPerCaption = DEFAULT_WORDS_PER_CAPTION
+): CaptionSegment[] {
+  const words = transcript.split(/\s+/).filter(Boolean);
+  if (words.length === 0 || duration <= 0) return [];
+
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += wordsPerCaption) {
+    chunks.push(words.slice(i, i + wordsPerCaption).join(' '));
+  }
+
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const segments: CaptionSegment[] = [];
+  let cursor = startTime;
+
+  for (const chunk of chunks) {
+    const chunkDuration = duration * (chunk.length / totalChars);
+    segments.push({ text: chunk, startTime: cursor, duration: chunkDuration });
+    cursor += chunkDuration;
+  }
+
+  return segments;
+}
+
+function getFontWeight(style: CaptionStyle): number {
+  switch (style.fontWeight) {
+    case 'black':
+      return 900;
+    case 'bold':
+      return 700;
+    default:
+      return 400;
+  }
+}
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Draw a caption onto a canvas. `elapsed` is seconds since the caption clip started and drives the
+ * entrance animation; pass the clip duration as `elapsed` to draw the settled caption.
+ */
+export function drawCaption(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  caption: CaptionData,
+  elapsed: number,
+  duration: number
+) {
+  const { style } = caption;
+  const text = caption.text.trim();
+  if (!text) return;
+
+  const unit = Math.min(width, height) / REFERENCE_SIZE;
+  const fontSize = style.fontSize * unit;
+  const lineHeight = fontSize * 1.2;
+
+  ctx.save();
+  ctx.font = `${getFontWeight(style)} ${fontSize}px ${style.fontFamily}, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Entrance animations
+  const entrance = Math.max(0, Math.min(1, elapsed / ENTRANCE_DURATION));
+  let visibleText = text;
+  let scale = 1;
+  switch (style.animation) {
+    case 'fade':
+      ctx.globalAlpha = entrance;
+      break;
+    case 'pop':
+      scale = 0.8 + 0.2 * entrance;
+      break;
+    case 'typewriter': {
+      // Type out over the first half of the caption
+      const typed = duration > 0 ? Math.min(1, elapsed / (duration / 2)) : 1;
+      visibleText = text.slice(0, Math.ceil(text.length * typed));
+      break;
+    }
+  }
+
+  // Wrap the full text so lines don't reflow while typing
+  const lines = wrapLines(ctx, text, width * MAX_LINE_WIDTH);
+  const blockHeight = lines.length * lineHeight;
+
+  const centerX = width / 2;
+  let centerY: number;
+  switch (style.position) {
+    case 'top':
+      centerY = height * 0.12 + blockHeight / 2;
+      break;
+    case 'bottom':
+      centerY = height * 0.85 - blockHeight / 2;
+      break;
+    default:
+      centerY = height / 2;
+  }
+
+  ctx.translate(centerX, centerY);
+  ctx.scale(scale, scale);
+
+  if (style.backgroundColor) {
+    const blockWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const padding = fontSize * 0.3;
+    ctx.fillStyle = style.backgroundColor;
+    ctx.fillRect(-blockWidth / 2 - padding, -blockHeight / 2 - padding, blockWidth + padding * 2, blockHeight + padding * 2);
+  }
+
+  // Karaoke highlights words in the style colour as the caption plays through
+  const words = text.split(/\s+/).filter(Boolean);
+  const spokenWords = style.animation === 'karaoke' && duration > 0
+    ? Math.ceil(words.length * Math.min(1, elapsed / duration))
+    : words.length;
+
+  let remainingChars = visibleText.length;
+  let wordIndex = 0;
+
+  lines.forEach((line, i) => {
+    const y = -blockHeight / 2 + lineHeight * (i + 0.5);
+    const shown = line.slice(0, Math.max(0, remainingChars));
+    remainingChars -= line.length + 1;
+    if (!shown) return;
+
+    if (style.outline) {
+      ctx.lineJoin = 'round';
+      ctx.lineWidth = Math.max(2, fontSize * 0.12);
+      ctx.strokeStyle = style.outlineColor || '#000000';
+    }
+
+    if (style.animation !== 'karaoke') {
+      if (style.outline) ctx.strokeText(shown, 0, y);
+      ctx.fillStyle = style.color;
+      ctx.fillText(shown, 0, y);
+      return;
+    }
+
+    // Draw word by word so each can take its own colour
+    const lineWidth = ctx.measureText(line).width;
+    let x = -lineWidth / 2;
+    ctx.textAlign = 'left';
+    for (const word of line.split(' ')) {
+      if (style.outline) ctx.strokeText(word, x, y);
+      ctx.fillStyle = wordIndex < spokenWords ? style.color : '#FFFFFF';
+      ctx.fillText(word, x, y);
+      x += ctx.measureText(`${word} `).width;
+      wordIndex++;
+    }
+    ctx.textAlign = 'center';
+  });
+
+  ctx.restore();
+}
+
+/**
+ * Render a settled caption into a transparent PNG the size of the output frame (used to burn
+ * captions in with FFmpeg, which has no fonts available in the browser build).
+ */
+export async function renderCaptionToPng(caption: CaptionData, width: number, height: number): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  drawCaption(ctx, width, height, caption, Number.MAX_VALUE, 0);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) {
+    throw new Error('Failed to render caption');
+  }
+  return new Uint8Array(await blob.arrayBuffer());
+}
@@ -0,0 +1,82 @@
+import { MediaAsset, TimelineClip } from '@/types/video-editor';
+import { offsetLinkedClips } from './timelineEdits';
+
+// Linked clips whose source positions differ by less than this (in seconds) count as in sync
+const SYNC_TOLERANCE = 0.01;
+
+export function generateLinkGroupId(): string {
+  return `link_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// The given clip ids plus every clip linked to one of them
+export function expandLinkedIds(clips: TimelineClip[], clipIds: string[]): string[] {
+  const groups = new Set(
+    clips.filter(c => clipIds.includes(c.id) && c.linkGroupId).map(c => c.linkGroupId)
+  );
+  if (groups.size === 0) return clipIds;
+
+  const linked = clips.filter(c => c.linkGroupId && groups.has(c.linkGroupId)).map(c => c.id);
+  return Array.from(new Set([...clipIds, ...linked]));
+}
+
+/**
+ * Apply an update to a clip and carry its timing change over to the clips linked to it: moving,
+ * trimming or slipping one clip of a group does the same to the rest. Returns the clips unchanged
+ * if any linked clip would be left shorter than MIN_CLIP_DURATION or past its source media.
+ */
+export function applyLinkedUpdate(
+  clips: TimelineClip[],
+  assets: MediaAsset[],
+  clipId: string,
+  updates: Partial<TimelineClip>
+): TimelineClip[] {
+  const clip = clips.find(c => c.id === clipId);
+  if (!clip) return clips;
+
+  const linked = offsetLinkedClips(clips, assets, clip, {
+    startTime: (updates.startTime ?? clip.startTime) - clip.startTime,
+    duration: (updates.duration ?? clip.duration) - clip.duration,
+    trimStart: (updates.trimStart ?? clip.trimStart) - clip.trimStart,
+  });
+  if (!linked) return clips;
+
+  const linkedUpdates = new Map(linked.map(c => [c.id, c]));
+
+  return clips.map(c => {
+    if (c.id === clipId) return { ...c, ...updates };
+    return linkedUpdates.get(c.id) ?? c;
+  });
+}
+
+/**
+ * How far a linked clip has drifted from the first clip of its group, in seconds of source media.
+ * Positive means its media plays later than the group's. Returns 0 for unlinked or in-sync clips.
+ */
+export function getSyncOffset(clip: TimelineClip, clips: TimelineClip[]): number {
+  if (!clip.linkGroupId) return 0;
+  const anchor = clips.find(c => c.linkGroupId === clip.linkGroupId);
+  if (!anchor || anchor.id === clip.id) return 0;
+
+  // Timeline time at which each clip's source media starts
+  const offset = (clip.startTime - clip.trimStart) - (anchor.startTime - anchor.trimStart);
+  return Math.abs(offset) < SYNC_TOLERANCE ? 0 : offset;
+}
+
+/**
+ * Give copied clips (paste, split) link groups of their own, so they stay linked to each other
+ * but not to the clips they were copied from. Groups left with a single clip are dropped.
+ */
+export function remapLinkGroups(clips: TimelineClip[]): TimelineClip[] {
+  const groupIds = new Map<string, string>();
+  const counts = new Map<string, number>();
+  clips.forEach(c => {
+    if (c.linkGroupId) counts.set(c.linkGroupId, (counts.get(c.linkGroupId) ?? 0) + 1);
+  });
+
+  return clips.map(c => {
+    if (!c.linkGroupId) return c;
+    if (counts.get(c.linkGroupId) === 1) return { ...c, linkGroupId: undefined };
+    if (!groupIds.has(c.linkGroupId)) groupIds.set(c.linkGroupId, generateLinkGroupId());
+    return { ...c, linkGroupId: groupIds.get(c.linkGroupId) };
+  });
+}
@@ -0,0 +1,168 @@
+import { EditorState, MediaAsset, TimelineClip, TimelineMarker, Track } from '@/types/video-editor';
+import { sortMarkers } from './markers';
+
+// Oldest entries are dropped past this depth
+export const MAX_HISTORY_ENTRIES = 100;
+
+export type HistoryDirection = 'undo' | 'redo';
+
+// One item added, removed or replaced in an id-keyed list. Indexes are where the item sits in the
+// list before/after the change, so undoing a delete puts the item back where it was.
+interface ListChange<T> {
+  id: string;
+  before: T | null;
+  after: T | null;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+/**
+ * A named, reversible edit. Only the clips, assets, tracks and markers that changed are kept (by reference,
+ * so asset files are never copied), along with the selection on either side so undo/redo can put it
+ * back.
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  clips: ListChange<TimelineClip>[];
+  assets: ListChange<MediaAsset>[];
+  tracks: ListChange<Track>[];
+  trackOrder?: { before: string[]; after: string[] }; // track ids, when tracks were reordered
+  markers: ListChange<TimelineMarker>[];
+  selectionBefore: string[];
+  selectionAfter: string[];
+}
+
+export interface EditorHistory {
+  entries: HistoryEntry[];
+  index: number; // number of entries currently applied
+}
+
+export const EMPTY_HISTORY: EditorHistory = { entries: [], index: 0 };
+
+// Items are compared by reference - every edit in useVideoEditor replaces the objects it changes
+function diffList<T extends { id: string }>(before: T[], after: T[]): ListChange<T>[] {
+  if (before === after) return [];
+
+  const changes: ListChange<T>[] = [];
+  const afterIndexes = new Map(after.map((item, index) => [item.id, index]));
+  const beforeIds = new Set<string>();
+
+  before.forEach((item, beforeIndex) => {
+    beforeIds.add(item.id);
+    const afterIndex = afterIndexes.get(item.id);
+    if (afterIndex === undefined) {
+      changes.push({ id: item.id, before: item, after: null, beforeIndex, afterIndex: -1 });
+    } else if (after[afterIndex] !== item) {
+      changes.push({ id: item.id, before: item, after: after[afterIndex], beforeIndex, afterIndex });
+    }
+  });
+
+  after.forEach((item, afterIndex) => {
+    if (!beforeIds.has(item.id)) {
+      changes.push({ id: item.id, before: null, after: item, beforeIndex: -1, afterIndex });
+    }
+  });
+
+  return changes;
+}
+
+// Applying the same change twice is a no-op, so a repeated undo/redo can't duplicate items
+function applyList<T extends { id: string }>(list: T[], changes: ListChange<T>[], direction: HistoryDirection): T[] {
+  if (changes.length === 0) return list;
+
+  const target = (change: ListChange<T>) => direction === 'redo' ? change.after : change.before;
+  const source = (change: ListChange<T>) => direction === 'redo' ? change.before : change.after;
+  const targetIndex = (change: ListChange<T>) => direction === 'redo' ? change.afterIndex : change.beforeIndex;
+
+  const byId = new Map(changes.map(change => [change.id, change]));
+  const result = list
+    .filter(item => {
+      const change = byId.get(item.id);
+      return !change || target(change) !== null;
+    })
+    .map(item => {
+      const change = byId.get(item.id);
+      return change ? target(change) as T : item;
+    });
+
+  const present = new Set(result.map(item => item.id));
+  changes
+    .filter(change => source(change) === null && target(change) !== null && !present.has(change.id))
+    .sort((a, b) => targetIndex(a) - targetIndex(b))
+    .forEach(change => {
+      result.splice(Math.min(targetIndex(change), result.length), 0, target(change) as T);
+    });
+
+  return result;
+}
+
+/**
+ * Describe the edit from `before` to `after` as a history entry, or null if nothing undoable
+ * changed (selection, playback and view settings alone are not recorded).
+ */
+export function createHistoryEntry(label: string, before: EditorState, after: EditorState): HistoryEntry | null {
+  const clips = diffList(before.clips, after.clips);
+  const assets = diffList(before.assets, after.assets);
+  const tracks = diffList(before.tracks, after.tracks);
+  const markers = diffList(before.markers, after.markers);
+  const trackOrderBefore = before.tracks.map(t => t.id);
+  const trackOrderAfter = after.tracks.map(t => t.id);
+  // Adding or removing a track alone isn't a reorder - compare the tracks present on both sides
+  const beforeIds = new Set(trackOrderBefore);
+  const afterIds = new Set(trackOrderAfter);
+  const reordered = trackOrderBefore.filter(id => afterIds.has(id)).join() !==
+    trackOrderAfter.filter(id => beforeIds.has(id)).join();
+
+  if (clips.length === 0 && assets.length === 0 && tracks.length === 0 && markers.length === 0 && !reordered) {
+    return null;
+  }
+
+  return {
+    id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    label,
+    timestamp: Date.now(),
+    clips,
+    assets,
+    tracks,
+    trackOrder: reordered ? { before: trackOrderBefore, after: trackOrderAfter } : undefined,
+    markers,
+    selectionBefore: before.selectedClipIds,
+    selectionAfter: after.selectedClipIds,
+  };
+}
+
+// Undo or redo one entry. The caller recalculates the timeline duration.
+export function applyHistoryEntry(state: EditorState, entry: HistoryEntry, direction: HistoryDirection): EditorState {
+  const clips = applyList(state.clips, entry.clips, direction);
+  const clipIds = new Set(clips.map(c => c.id));
+  const selection = direction === 'redo' ? entry.selectionAfter : entry.selectionBefore;
+
+  let tracks = applyList(state.tracks, entry.tracks, direction);
+  if (entry.trackOrder) {
+    const order = direction === 'redo' ? entry.trackOrder.after : entry.trackOrder.before;
+    const position = (track: Track) => order.includes(track.id) ? order.indexOf(track.id) : order.length;
+    tracks = [...tracks].sort((a, b) => position(a) - position(b));
+  }
+
+  return {
+    ...state,
+    clips,
+    assets: applyList(state.assets, entry.assets, direction),
+    tracks,
+    markers: entry.markers.length > 0 ? sortMarkers(applyList(state.markers, entry.markers, direction)) : state.markers,
+    selectedClipIds: selection.filter(id => clipIds.has(id)),
+  };
+}
+
+// Drop any redo entries, append the new one and keep the history within MAX_HISTORY_ENTRIES
+export function pushHistoryEntry(history: EditorHistory, entry: HistoryEntry): EditorHistory {
+  const entries = [...history.entries.slice(0, history.index), entry].slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length };
+}
+
+// "Delete clip" / "Delete 3 clips"
+export function clipsLabel(verb: string, count: number): string {
+  return count === 1 ? `${verb} clip` : `${verb} ${count} clips`;
+}
@@ -6,7 +6,7 @@ export function getErrorMessage(error: unknown): string {
       ? String((error as { message: unknown }).message)
       : String(error);
 
-  // Already user-friendly messages from voiceGenerator - pass through
+  // Already user-friendly messages from generate-voice - pass through
   if (
     message.includes('console.x.ai') ||
     message.includes('Invalid API key') ||
@@ -34,14 +34,14 @@ export function getErrorMessage(error: unknown): string {
     return 'Payment required. Add billing to your xAI account at console.x.ai';
   }
 
-  if (message.includes('WebSocket') || message.includes('connection')) {
-    return 'Connection failed. Check your internet connection and try again.';
-  }
-
   if (message.includes('timed out') || message.includes('timeout')) {
     return 'Request timed out. Please try again with a shorter script.';
   }
 
+  if (message.includes('WebSocket') || message.includes('connection')) {
+    return 'Connection failed. Check your internet connection and try again.';
+  }
+
   if (message.includes('No audio')) {
     return 'No audio generated. Try a longer script or different voice.';
   }
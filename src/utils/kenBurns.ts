@@ -0,0 +1,97 @@
+import { KenBurnsEffect } from '@/types/video-editor';
+
+// How far the image is magnified at the tight end of the move
+const KEN_BURNS_ZOOM = 0.2;
+
+export interface KenBurnsTransform {
+  scale: number;
+  // Position of the visible window inside the scaled frame (0 = left/top edge, 0.5 = centered, 1 = right/bottom edge)
+  focusX: number;
+  focusY: number;
+}
+
+export function getKenBurnsTransform(effect: KenBurnsEffect | undefined, progress: number): KenBurnsTransform {
+  const p = Math.max(0, Math.min(1, progress));
+
+  switch (effect) {
+    case 'zoom-in':
+      return { scale: 1 + KEN_BURNS_ZOOM * p, focusX: 0.5, focusY: 0.5 };
+    case 'zoom-out':
+      return { scale: 1 + KEN_BURNS_ZOOM * (1 - p), focusX: 0.5, focusY: 0.5 };
+    case 'pan-left':
+      // Camera travels right, so the image drifts left
+      return { scale: 1 + KEN_BURNS_ZOOM, focusX: p, focusY: 0.5 };
+    case 'pan-right':
+      return { scale: 1 + KEN_BURNS_ZOOM, focusX: 1 - p, focusY: 0.5 };
+    default:
+      return { scale: 1, focusX: 0.5, focusY: 0.5 };
+  }
+}
+
+/**
+ * Run `draw` (which renders a full frame) with the Ken Burns transform applied.
+ */
+export function drawWithKenBurns(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  effect: KenBurnsEffect | undefined,
+  progress: number,
+  draw: () => void
+) {
+  if (!effect || effect === 'none') {
+    draw();
+    return;
+  }
+
+  const { scale, focusX, focusY } = getKenBurnsTransform(effect, progress);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.clip();
+  ctx.translate(-(width * scale - width) * focusX, -(height * scale - height) * focusY);
+  ctx.scale(scale, scale);
+  draw();
+  ctx.restore();
+}
+
+/**
+ * FFmpeg zoompan filter matching drawWithKenBurns, for a stream already scaled to `resolution`.
+ * Returns '' when the clip has no Ken Burns effect.
+ */
+export function buildKenBurnsFilter(
+  effect: KenBurnsEffect | undefined,
+  duration: number,
+  resolution: { width: number; height: number },
+  fps: number
+): string {
+  if (!effect || effect === 'none') return '';
+
+  const frames = Math.max(1, Math.round(duration * fps));
+  const p = `min(on/${frames},1)`;
+  const zoom = KEN_BURNS_ZOOM;
+
+  let z: string;
+  let x = `(iw-iw/zoom)/2`;
+  const y = `(ih-ih/zoom)/2`;
+
+  switch (effect) {
+    case 'zoom-in':
+      z = `1+${zoom}*${p}`;
+      break;
+    case 'zoom-out':
+      z = `1+${zoom}*(1-${p})`;
+      break;
+    case 'pan-left':
+      z = `${1 + zoom}`;
+      x = `(iw-iw/zoom)*${p}`;
+      break;
+    case 'pan-right':
+      z = `${1 + zoom}`;
+      x = `(iw-iw/zoom)*(1-${p})`;
+      break;
+  }
+
+  return `zoompan=z='${z}':x='${x}':y='${y}':d=1:s=${resolution.width}x${resolution.height}:fps=${fps}`;
+}
@@ -0,0 +1,119 @@
+import { MarkerColor, TimelineMarker } from '@/types/video-editor';
+import { sortMarkers } from './markers';
+
+// YouTube only shows chapters when there are at least this many, each at least this long
+const MIN_YOUTUBE_CHAPTERS = 3;
+const MIN_YOUTUBE_CHAPTER_LENGTH = 10;
+
+// Marker EDLs use the project frame rate (matching the video exporter) and the usual 01:00:00:00 start
+const EDL_FPS = 30;
+const EDL_START_FRAME = 60 * 60 * EDL_FPS;
+
+const RESOLVE_COLORS: Record<MarkerColor, string> = {
+  red: 'ResolveColorRed',
+  yellow: 'ResolveColorYellow',
+  green: 'ResolveColorGreen',
+  cyan: 'ResolveColorCyan',
+  blue: 'ResolveColorBlue',
+  purple: 'ResolveColorPurple',
+  pink: 'ResolveColorPink',
+};
+
+export interface ChapterList {
+  text: string;
+  warnings: string[];
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// "4:05" or "1:04:05", as YouTube expects in a description
+function formatChapterTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+// "00:04:05.250"
+function formatClockTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+}
+
+// "01:00:04:07" - non-drop-frame timecode of a frame count
+function formatTimecode(frames: number): string {
+  const f = frames % EDL_FPS;
+  const totalSeconds = Math.floor(frames / EDL_FPS);
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}:${pad(f)}`;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Markers as a YouTube chapter list, one "0:00 Title" line each. YouTube needs the first chapter at
+ * 0:00, so one titled "Intro" is added when no marker starts there. Chapters YouTube would reject are
+ * reported in `warnings` rather than dropped, so the list still matches the timeline.
+ */
+export function toYouTubeChapters(markers: TimelineMarker[], duration: number): ChapterList {
+  const chapters = sortMarkers(markers).map(m => ({ time: Math.floor(m.time), label: m.label.trim() || 'Chapter' }));
+  if (chapters.length > 0 && chapters[0].time > 0) {
+    chapters.unshift({ time: 0, label: 'Intro' });
+  }
+
+  const warnings: string[] = [];
+  if (chapters.length < MIN_YOUTUBE_CHAPTERS) {
+    warnings.push(`YouTube needs at least ${MIN_YOUTUBE_CHAPTERS} chapters`);
+  }
+  chapters.forEach((chapter, i) => {
+    const end = i + 1 < chapters.length ? chapters[i + 1].time : duration;
+    if (end - chapter.time < MIN_YOUTUBE_CHAPTER_LENGTH) {
+      warnings.push(`"${chapter.label}" is shorter than ${MIN_YOUTUBE_CHAPTER_LENGTH} seconds`);
+    }
+  });
+
+  return {
+    text: chapters.map(c => `${formatChapterTime(c.time)} ${c.label}`).join('\n'),
+    warnings,
+  };
+}
+
+// Markers as CSV: label, start, end and duration (point markers have no end) and color
+export function toMarkerCsv(markers: TimelineMarker[]): string {
+  const rows = sortMarkers(markers).map(m => [
+    escapeCsv(m.label),
+    formatClockTime(m.time),
+    m.duration ? formatClockTime(m.time + m.duration) : '',
+    (m.duration ?? 0).toFixed(3),
+    m.color,
+  ].join(','));
+  return ['Label,Start,End,Duration,Color', ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Markers as a DaVinci Resolve marker EDL (Timeline > Import > Timeline Markers from EDL). Each
+ * marker is a one-frame event, or as long as its range, with its color, name and length in frames
+ * on the comment line below it.
+ */
+export function toMarkerEdl(markers: TimelineMarker[], title: string): string {
+  const lines = [`TITLE: ${title}`, 'FCM: NON-DROP FRAME', ''];
+
+  sortMarkers(markers).forEach((marker, i) => {
+    const start = EDL_START_FRAME + Math.round(marker.time * EDL_FPS);
+    const frames = Math.max(1, Math.round((marker.duration ?? 0) * EDL_FPS));
+    const tcIn = formatTimecode(start);
+    const tcOut = formatTimecode(start + frames);
+    const name = marker.label.replace(/[|\r\n]/g, ' ').trim();
+
+    lines.push(`${pad(i + 1, 3)}  001      V     C        ${tcIn} ${tcOut} ${tcIn} ${tcOut}  `);
+    lines.push(` |C:${RESOLVE_COLORS[marker.color]} |M:${name} |D:${frames}`);
+    lines.push('');
+  });
+
+  return lines.join('\r\n');
+}
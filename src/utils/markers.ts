@@ -0,0 +1,52 @@
+import { MarkerColor, TimelineMarker } from '@/types/video-editor';
+
+// Markers this close (in seconds) to the playhead count as at it when jumping between markers
+const MARKER_EPSILON = 0.01;
+
+export const DEFAULT_MARKER_COLOR: MarkerColor = 'blue';
+
+export const MARKER_COLORS: Record<MarkerColor, string> = {
+  red: '#ef4444',
+  yellow: '#eab308',
+  green: '#22c55e',
+  cyan: '#06b6d4',
+  blue: '#3b82f6',
+  purple: '#a855f7',
+  pink: '#ec4899',
+};
+
+export function generateMarkerId(): string {
+  return `marker_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function sortMarkers(markers: TimelineMarker[]): TimelineMarker[] {
+  return [...markers].sort((a, b) => a.time - b.time);
+}
+
+// "Marker 3" - numbered after the highest existing default-named marker
+export function createMarker(markers: TimelineMarker[], time: number): TimelineMarker {
+  const numbers = markers.map(m => Number(m.label.match(/^Marker (\d+)$/)?.[1] ?? 0));
+  return {
+    id: generateMarkerId(),
+    time: Math.max(0, time),
+    label: `Marker ${Math.max(0, ...numbers) + 1}`,
+    color: DEFAULT_MARKER_COLOR,
+  };
+}
+
+// The marker after (or before) `time`, if any
+export function findAdjacentMarker(
+  markers: TimelineMarker[],
+  time: number,
+  direction: 'next' | 'prev'
+): TimelineMarker | undefined {
+  const sorted = sortMarkers(markers);
+  return direction === 'next'
+    ? sorted.find(m => m.time > time + MARKER_EPSILON)
+    : sorted.reverse().find(m => m.time < time - MARKER_EPSILON);
+}
+
+// Times clips snap to when dragged: every marker, and the end of every range marker
+export function markerSnapTimes(markers: TimelineMarker[]): number[] {
+  return markers.flatMap(m => m.duration ? [m.time, m.time + m.duration] : [m.time]);
+}
@@ -0,0 +1,2 @@
+// Pricing lives with the edge functions so usage rows and the UI use the same numbers
+export * from '../../supabase/functions/_shared/pricing';
@@ -0,0 +1,106 @@
+import { ScriptNode, parseScript, splitAtPauses } from '@/utils/scriptTags';
+
+// Long scripts are generated in pieces so no single realtime session runs into the timeout
+export const DEFAULT_MAX_CHUNK_CHARS = 1200;
+
+// Silence inserted between stitched chunks, in seconds
+export const DEFAULT_CHUNK_GAP = 0.3;
+
+const PARAGRAPH_BREAK = /\n\s*\n/g;
+// Sentence end (optionally followed by closing tags) or a pause tag
+const SENTENCE_BREAK = /[.!?…]+["')]*(?:\[\/[a-z]+\])*\s+|\[pause[^\]]*\]\s*/gi;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// safe[i] is true when the script can be cut before character i without splitting a tag or tagged span
+function getSafeBreaks(text: string): boolean[] {
+  const safe = new Array<boolean>(text.length + 1).fill(true);
+  const { nodes, tokens } = parseScript(text);
+
+  const block = (start: number, end: number) => {
+    for (let i = start + 1; i < end; i++) safe[i] = false;
+  };
+
+  // Never inside a tag itself
+  tokens.forEach(token => block(token.start, token.end));
+
+  // Only spans that are actually closed hold together
+  const visit = (list: ScriptNode[]) => {
+    for (const node of list) {
+      if (node.type !== 'style' && node.type !== 'voice') continue;
+      if (node.closed) block(node.start, node.end);
+      visit(node.children);
+    }
+  };
+  visit(nodes);
+
+  return safe;
+}
+
+// Split a span after every match of `pattern` that lands on a safe break
+function splitSpan(text: string, span: Span, pattern: RegExp, safe: boolean[]): Span[] {
+  const spans: Span[] = [];
+  let start = span.start;
+
+  for (const match of text.slice(span.start, span.end).matchAll(pattern)) {
+    const cut = span.start + match.index! + match[0].length;
+    if (cut >= span.end || !safe[cut]) continue;
+    spans.push({ start, end: cut });
+    start = cut;
+  }
+  spans.push({ start, end: span.end });
+
+  return spans;
+}
+
+// Greedily merge neighbouring spans while they stay within maxChars
+function packSpans(text: string, spans: Span[], maxChars: number): Span[] {
+  const packed: Span[] = [];
+
+  for (const span of spans) {
+    const last = packed[packed.length - 1];
+    if (last && text.slice(last.start, span.end).trim().length <= maxChars) {
+      last.end = span.end;
+    } else {
+      packed.push({ ...span });
+    }
+  }
+
+  return packed;
+}
+
+/**
+ * Split a script into chunks of at most `maxChars`, preferring paragraph breaks and falling back to
+ * sentence ends and pause tags. Cuts never land inside a tag or between a style tag and its closing
+ * tag, so a single tagged span longer than `maxChars` stays whole.
+ */
+export function splitScriptIntoChunks(script: string, maxChars = DEFAULT_MAX_CHUNK_CHARS): string[] {
+  const text = script.trim();
+  if (!text) return [];
+  if (text.length <= maxChars) return [text];
+
+  const safe = getSafeBreaks(text);
+  const pieces = splitSpan(text, { start: 0, end: text.length }, PARAGRAPH_BREAK, safe).flatMap(paragraph =>
+    text.slice(paragraph.start, paragraph.end).trim().length > maxChars
+      ? splitSpan(text, paragraph, SENTENCE_BREAK, safe)
+      : [paragraph]
+  );
+
+  return packSpans(text, pieces, maxChars)
+    .map(span => text.slice(span.start, span.end).trim())
+    .filter(Boolean);
+}
+
+// What to generate, in order: chunks of speech and the exact silences from [pause] tags
+export type ScriptPlanItem = { type: 'speech'; script: string } | { type: 'pause'; seconds: number };
+
+// Cut a script at its pause tags, then split each stretch between them into chunks
+export function planScript(script: string, maxChars = DEFAULT_MAX_CHUNK_CHARS): ScriptPlanItem[] {
+  return splitAtPauses(script).flatMap(piece => [
+    ...splitScriptIntoChunks(piece.script, maxChars).map(chunk => ({ type: 'speech' as const, script: chunk })),
+    ...(piece.pauseAfter > 0 ? [{ type: 'pause' as const, seconds: piece.pauseAfter }] : []),
+  ]);
+}
@@ -0,0 +1,2 @@
+// The tag parser lives with the edge functions so Deno can load it too
+export * from '../../supabase/functions/_shared/scriptTags';
@@ -1,4 +1,12 @@
 import { StyleTag } from '@/types';
+import {
+  ScriptIssue,
+  ScriptNode,
+  parseScript,
+  prepareScriptForVoice,
+  renderPlainText,
+  sliceSource,
+} from '@/utils/scriptTags';
 
 export const STYLE_TAGS: StyleTag[] = [
   {
@@ -56,54 +64,132 @@ export const STYLE_TAGS: StyleTag[] = [
     color: 'tag-emphasis',
     example: '[emphasis]key point[/emphasis]',
   },
+  {
+    name: 'sad',
+    openTag: '[sad]',
+    closeTag: '[/sad]',
+    description: 'Downcast, sorrowful',
+    color: 'tag-sad',
+    example: '[sad]we lost the match[/sad]',
+  },
+  {
+    name: 'happy',
+    openTag: '[happy]',
+    closeTag: '[/happy]',
+    description: 'Cheerful, bright',
+    color: 'tag-happy',
+    example: '[happy]great to see you[/happy]',
+  },
+  {
+    name: 'angry',
+    openTag: '[angry]',
+    closeTag: '[/angry]',
+    description: 'Frustrated, heated',
+    color: 'tag-angry',
+    example: '[angry]not again[/angry]',
+  },
+  {
+    name: 'voice',
+    openTag: '[voice:Ara]',
+    closeTag: '[/voice]',
+    description: 'Switch speaker (or start a line with NAME:)',
+    color: 'tag-voice',
+    example: '[voice:Ara]thanks for having me[/voice]',
+  },
 ];
 
-export function processStyleTags(script: string): string {
-  let processed = script;
+export interface SpeakerSegment {
+  speaker: string | null; // null = the page's selected voice
+  text: string;
+}
 
-  // Convert pause tags to ellipsis for natural pausing
-  processed = processed.replace(/\[pause:(\d+)s\]/g, (_, seconds) => {
-    return '. '.repeat(Math.min(parseInt(seconds), 5));
-  });
+/**
+ * Split a script into runs of text per speaker, in script order. A NAME: prefix applies until the
+ * next prefix or voice block; text before any speaker markup belongs to no speaker.
+ */
+export function parseSpeakerSegments(script: string): SpeakerSegment[] {
+  const segments: SpeakerSegment[] = [];
 
-  // Remove style tags but keep content (for basic API compatibility)
-  const tagNames = ['whisper', 'excited', 'serious', 'slow', 'fast', 'emphasis'];
-  tagNames.forEach((tag) => {
-    processed = processed.replace(new RegExp(`\\[${tag}\\]`, 'g'), '');
-    processed = processed.replace(new RegExp(`\\[/${tag}\\]`, 'g'), '');
-  });
+  const push = (speaker: string | null, text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    const last = segments[segments.length - 1];
+    if (last && last.speaker === speaker) {
+      last.text += `\n${trimmed}`;
+    } else {
+      segments.push({ speaker, text: trimmed });
+    }
+  };
+
+  let speaker: string | null = null;
+  let run: ScriptNode[] = [];
+  const flush = () => {
+    push(speaker, sliceSource(script, run));
+    run = [];
+  };
 
-  return processed.trim();
+  for (const node of parseScript(script).nodes) {
+    if (node.type === 'speaker') {
+      flush();
+      speaker = node.speaker;
+    } else if (node.type === 'voice') {
+      flush();
+      push(node.speaker, sliceSource(script, node.children));
+      speaker = null;
+    } else {
+      run.push(node);
+    }
+  }
+  flush();
+
+  return segments;
+}
+
+// Named speakers in order of first appearance - empty for single-voice scripts
+export function getScriptSpeakers(script: string): string[] {
+  const speakers = parseSpeakerSegments(script)
+    .map(segment => segment.speaker)
+    .filter((speaker): speaker is string => speaker !== null);
+  return [...new Set(speakers)];
+}
+
+// Turn tags into the spoken hints the voice model reads (same as the generate-voice edge function)
+export function processStyleTags(script: string): string {
+  return prepareScriptForVoice(script);
 }
 
 export function countWords(text: string): number {
-  const cleanText = text.replace(/\[.*?\]/g, '').trim();
+  const cleanText = renderPlainText(parseScript(text).nodes).trim();
   if (!cleanText) return 0;
   return cleanText.split(/\s+/).filter(Boolean).length;
 }
 
 export function countCharacters(text: string): number {
-  return text.replace(/\[.*?\]/g, '').length;
+  return renderPlainText(parseScript(text).nodes).length;
 }
 
+// Tag problems to show under the script editor
+export function lintScript(script: string): ScriptIssue[] {
+  return parseScript(script).issues;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Wrap every tag and speaker prefix in a span for the editor's highlight layer
 export function highlightStyleTags(text: string): string {
-  let highlighted = text;
-
-  STYLE_TAGS.forEach((tag) => {
-    const openRegex = new RegExp(`(\\[${tag.name}(?::\\d+s)?\\])`, 'g');
-    highlighted = highlighted.replace(
-      openRegex,
-      `<span class="style-tag style-tag-${tag.name}">$1</span>`
-    );
-
-    if (tag.closeTag) {
-      const closeRegex = new RegExp(`(\\[/${tag.name}\\])`, 'g');
-      highlighted = highlighted.replace(
-        closeRegex,
-        `<span class="style-tag style-tag-${tag.name}">$1</span>`
-      );
-    }
-  });
+  const { tokens } = parseScript(text);
+  let highlighted = '';
+  let cursor = 0;
+
+  for (const token of tokens) {
+    const name = token.kind === 'speaker' ? 'voice' : token.name;
+    const className = token.valid ? `style-tag-${name}` : 'style-tag-error';
+    highlighted += escapeHtml(text.slice(cursor, token.start));
+    highlighted += `<span class="style-tag ${className}">${escapeHtml(text.slice(token.start, token.end))}</span>`;
+    cursor = token.end;
+  }
 
-  return highlighted;
+  return highlighted + escapeHtml(text.slice(cursor));
 }
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { MediaAsset, TimelineClip } from '@/types/video-editor';
+import { rippleTrim, rollEdit } from './timelineEdits';
+
+const clip = (id: string, overrides: Partial<TimelineClip> = {}): TimelineClip => ({
+  id,
+  assetId: 'video',
+  trackIndex: 0,
+  startTime: 0,
+  duration: 4,
+  trimStart: 0,
+  trimEnd: 0,
+  ...overrides,
+});
+
+const asset = (id: string, type: MediaAsset['type'], duration: number): MediaAsset => ({
+  id,
+  type,
+  name: id,
+  src: '',
+  duration,
+});
+
+const assets = [asset('video', 'video', 10), asset('audio', 'audio', 10), asset('short', 'audio', 4.5)];
+
+// Two video clips with their split-off audio underneath, and a title on a third track
+const timeline = (overrides: Record<string, Partial<TimelineClip>> = {}): TimelineClip[] => [
+  clip('A', { linkGroupId: 'first', ...overrides.A }),
+  clip('B', { startTime: 4, trimStart: 2, linkGroupId: 'second', ...overrides.B }),
+  clip('a', { assetId: 'audio', trackIndex: 1, linkGroupId: 'first', ...overrides.a }),
+  clip('b', { assetId: 'audio', trackIndex: 1, startTime: 4, trimStart: 2, linkGroupId: 'second', ...overrides.b }),
+  clip('title', { assetId: 'image', trackIndex: 2, startTime: 5, duration: 2, ...overrides.title }),
+];
+
+const byId = (clips: TimelineClip[]) => Object.fromEntries(clips.map(c => [c.id, c]));
+
+describe('rippleTrim', () => {
+  it('trims the linked clips too and closes the gap on each of their tracks', () => {
+    const clips = byId(rippleTrim(timeline(), assets, 'A', { duration: 3, trimStart: 0 }, false));
+
+    expect(clips.A).toMatchObject({ startTime: 0, duration: 3 });
+    expect(clips.a).toMatchObject({ startTime: 0, duration: 3 });
+    expect(clips.B.startTime).toBe(3);
+    expect(clips.b.startTime).toBe(3);
+    expect(clips.title.startTime).toBe(5);
+  });
+
+  it('refuses a trim a linked clip has no source media for', () => {
+    const clips = timeline({ a: { assetId: 'short' } });
+    expect(rippleTrim(clips, assets, 'A', { duration: 5, trimStart: 0 }, false)).toBe(clips);
+  });
+});
+
+describe('rollEdit', () => {
+  it('rolls the cut of the linked clips with it', () => {
+    const clips = byId(rollEdit(timeline(), assets, 'A', 'right', 5));
+
+    expect(clips.A.duration).toBe(5);
+    expect(clips.a.duration).toBe(5);
+    expect(clips.B).toMatchObject({ startTime: 5, duration: 3, trimStart: 3 });
+    expect(clips.b).toMatchObject({ startTime: 5, duration: 3, trimStart: 3 });
+  });
+
+  it('stops every cut of the group where the first one runs out of media', () => {
+    // b's media starts half a second before its clip does, B's two seconds
+    const clips = byId(rollEdit(timeline({ b: { trimStart: 0.5 } }), assets, 'B', 'left', 3));
+
+    expect(clips.A.duration).toBe(3.5);
+    expect(clips.a.duration).toBe(3.5);
+    expect(clips.B).toMatchObject({ startTime: 3.5, duration: 4.5, trimStart: 1.5 });
+    expect(clips.b).toMatchObject({ startTime: 3.5, duration: 4.5, trimStart: 0 });
+  });
+
+  it('trims a linked clip with nothing across the cut', () => {
+    const clips = byId(rollEdit(timeline().filter(c => c.id !== 'b'), assets, 'A', 'right', 5));
+
+    expect(clips.A.duration).toBe(5);
+    expect(clips.a.duration).toBe(5);
+    expect(clips.B).toMatchObject({ startTime: 5, duration: 3 });
+  });
+});
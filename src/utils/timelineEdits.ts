@@ -0,0 +1,207 @@
+import { MediaAsset, TimelineClip } from '@/types/video-editor';
+
+// Shortest a clip can be trimmed or rolled to, in seconds (matches the resize handles)
+export const MIN_CLIP_DURATION = 0.1;
+
+// Clips whose edges are this close (in seconds) count as touching
+const ADJACENT_EPSILON = 0.01;
+
+// How far (in seconds) a linked clip may run past its source media, to absorb rounding
+const SOURCE_TOLERANCE = 0.01;
+
+// Seconds of source media a clip can show. Images and captions can be held for any length.
+export function sourceDuration(clip: TimelineClip, asset: MediaAsset | undefined): number {
+  if (clip.caption || !asset || asset.type === 'image' || !asset.duration) return Infinity;
+  return asset.duration;
+}
+
+const sharesTrack = (a: TimelineClip, b: TimelineClip, allTracks: boolean) =>
+  allTracks || a.trackIndex === b.trackIndex;
+
+/**
+ * The clips linked to `clip`, each moved, lengthened and slipped by the same amounts. Returns null
+ * if any would be left shorter than MIN_CLIP_DURATION, before the timeline start or past its source media.
+ */
+export function offsetLinkedClips(
+  clips: TimelineClip[],
+  assets: MediaAsset[],
+  clip: TimelineClip,
+  offset: { startTime: number; duration: number; trimStart: number }
+): TimelineClip[] | null {
+  if (!clip.linkGroupId || (!offset.startTime && !offset.duration && !offset.trimStart)) return [];
+
+  const moved = clips
+    .filter(c => c.linkGroupId === clip.linkGroupId && c.id !== clip.id)
+    .map(other => ({
+      ...other,
+      startTime: other.startTime + offset.startTime,
+      duration: other.duration + offset.duration,
+      trimStart: other.trimStart + offset.trimStart,
+    }));
+
+  const fits = moved.every(c => {
+    const source = sourceDuration(c, assets.find(a => a.id === c.assetId));
+    return c.startTime >= 0 && c.duration >= MIN_CLIP_DURATION && c.trimStart >= 0 &&
+      c.trimStart + c.duration <= source + SOURCE_TOLERANCE;
+  });
+  return fits ? moved : null;
+}
+
+// Total length of the given intervals (overlaps counted once) that lies before `time`
+function coveredBefore(intervals: { start: number; end: number }[], time: number): number {
+  const sorted = intervals
+    .map(i => ({ start: i.start, end: Math.min(i.end, time) }))
+    .filter(i => i.end > i.start)
+    .sort((a, b) => a.start - b.start);
+
+  let total = 0;
+  let reach = -Infinity;
+  sorted.forEach(({ start, end }) => {
+    const from = Math.max(start, reach);
+    if (end > from) total += end - from;
+    reach = Math.max(reach, end);
+  });
+  return total;
+}
+
+/**
+ * Remove clips and close the gaps they leave: later clips on the same track move left by the
+ * removed time before them. With `allTracks`, every track moves together, keeping them in sync.
+ */
+export function rippleDelete(clips: TimelineClip[], clipIds: string[], allTracks: boolean): TimelineClip[] {
+  const removed = clips.filter(c => clipIds.includes(c.id));
+  if (removed.length === 0) return clips;
+
+  return clips
+    .filter(c => !clipIds.includes(c.id))
+    .map(clip => {
+      const gaps = removed
+        .filter(r => sharesTrack(r, clip, allTracks))
+        .map(r => ({ start: r.startTime, end: r.startTime + r.duration }));
+      const shift = coveredBefore(gaps, clip.startTime);
+      return shift > 0 ? { ...clip, startTime: Math.max(0, clip.startTime - shift) } : clip;
+    });
+}
+
+/**
+ * Trim a clip without moving its start, shifting everything after it by the change in length so
+ * no gap opens or overlap appears. Left-edge ripple trims change `trimStart` and `duration` together.
+ * Linked clips are trimmed the same way, and the clips after them shift too. Returns the clips
+ * unchanged if a linked clip can't take the trim.
+ */
+export function rippleTrim(
+  clips: TimelineClip[],
+  assets: MediaAsset[],
+  clipId: string,
+  updates: Pick<TimelineClip, 'duration' | 'trimStart'>,
+  allTracks: boolean
+): TimelineClip[] {
+  const clip = clips.find(c => c.id === clipId);
+  if (!clip) return clips;
+
+  const delta = updates.duration - clip.duration;
+  const linked = offsetLinkedClips(clips, assets, clip, {
+    startTime: 0,
+    duration: delta,
+    trimStart: updates.trimStart - clip.trimStart,
+  });
+  if (!linked) return clips;
+
+  const trimmed = new Map([[clip.id, { ...clip, ...updates }], ...linked.map(c => [c.id, c] as const)]);
+  const group = clips.filter(c => trimmed.has(c.id));
+  const follows = (c: TimelineClip) =>
+    group.some(g => sharesTrack(c, g, allTracks) && c.startTime >= g.startTime + g.duration - ADJACENT_EPSILON);
+
+  return clips.map(c => {
+    if (trimmed.has(c.id)) return trimmed.get(c.id);
+    if (delta !== 0 && follows(c)) {
+      return { ...c, startTime: Math.max(0, c.startTime + delta) };
+    }
+    return c;
+  });
+}
+
+// The clip touching `clip` on the given side on the same track, if any
+export function findAdjacentClip(clips: TimelineClip[], clip: TimelineClip, side: 'left' | 'right'): TimelineClip | undefined {
+  return clips.find(c => {
+    if (c.id === clip.id || c.trackIndex !== clip.trackIndex) return false;
+    const gap = side === 'right'
+      ? c.startTime - (clip.startTime + clip.duration)
+      : clip.startTime - (c.startTime + c.duration);
+    return Math.abs(gap) < ADJACENT_EPSILON;
+  });
+}
+
+// The clips either side of the cut on one side of `clip`: the clip itself and its neighbour, if any
+function cutAt(clips: TimelineClip[], clip: TimelineClip, side: 'left' | 'right'): { left?: TimelineClip; right?: TimelineClip } {
+  const neighbor = findAdjacentClip(clips, clip, side);
+  return side === 'right' ? { left: clip, right: neighbor } : { left: neighbor, right: clip };
+}
+
+// How far a cut can roll, in seconds either way, while both sides keep source media and MIN_CLIP_DURATION
+function rollRange(assets: MediaAsset[], { left, right }: { left?: TimelineClip; right?: TimelineClip }): [number, number] {
+  const cut = left ? left.startTime + left.duration : right.startTime;
+  let min = -Infinity;
+  let max = Infinity;
+  if (left) {
+    min = Math.max(min, left.startTime + MIN_CLIP_DURATION - cut);
+    max = Math.min(max, left.startTime + sourceDuration(left, assets.find(a => a.id === left.assetId)) - left.trimStart - cut);
+  }
+  if (right) {
+    max = Math.min(max, right.startTime + right.duration - MIN_CLIP_DURATION - cut);
+    // The right clip can't start before its source media does, or before the timeline does
+    min = Math.max(min, -right.startTime);
+    if (sourceDuration(right, assets.find(a => a.id === right.assetId)) !== Infinity) {
+      min = Math.max(min, -right.trimStart);
+    }
+  }
+  return [min, max];
+}
+
+/**
+ * Roll the cut on one side of a clip to `cutTime`: the clip on the left of the cut gets longer as
+ * the one on the right gets shorter, so nothing else moves. The cut stays where both clips have
+ * source media and MIN_CLIP_DURATION left. Returns the clips unchanged if nothing touches that side.
+ * Clips linked to the clip roll their cut on the same side by the same amount, or trim that edge
+ * if nothing touches it, so the group stays in sync.
+ */
+export function rollEdit(
+  clips: TimelineClip[],
+  assets: MediaAsset[],
+  clipId: string,
+  side: 'left' | 'right',
+  cutTime: number
+): TimelineClip[] {
+  const clip = clips.find(c => c.id === clipId);
+  if (!clip || !findAdjacentClip(clips, clip, side)) return clips;
+
+  const group = clip.linkGroupId ? clips.filter(c => c.linkGroupId === clip.linkGroupId) : [clip];
+  const cuts = group.map(member => cutAt(clips, member, side));
+  const ranges = cuts.map(cut => rollRange(assets, cut));
+  const min = Math.max(...ranges.map(([low]) => low));
+  const max = Math.min(...ranges.map(([, high]) => high));
+
+  const edge = side === 'right' ? clip.startTime + clip.duration : clip.startTime;
+  const delta = Math.max(min, Math.min(cutTime - edge, max));
+  if (delta === 0) return clips;
+
+  const rolled = new Map<string, TimelineClip>();
+  cuts.forEach(({ left, right }) => {
+    if (left) rolled.set(left.id, { ...left, duration: left.duration + delta });
+    if (right) {
+      rolled.set(right.id, {
+        ...right,
+        startTime: right.startTime + delta,
+        duration: right.duration - delta,
+        trimStart: Math.max(0, right.trimStart + delta),
+      });
+    }
+  });
+  return clips.map(c => rolled.get(c.id) ?? c);
+}
+
+// Clamp a slipped `trimStart` so the clip keeps showing source media for its whole length
+export function clampSlip(clip: TimelineClip, asset: MediaAsset | undefined, trimStart: number): number {
+  const maxTrimStart = sourceDuration(clip, asset) - clip.duration;
+  return Math.max(0, Math.min(trimStart, maxTrimStart));
+}
@@ -0,0 +1,233 @@
+import { MediaAsset, TimelineClip, Track, TrackKind, TrackSettings } from '@/types/video-editor';
+
+export const DEFAULT_TRACK_HEIGHT = 64;
+export const MIN_TRACK_HEIGHT = 40;
+export const MAX_TRACK_HEIGHT = 160;
+
+export const DEFAULT_TRACK_SETTINGS: TrackSettings = { volume: 1, speed: 1, visible: true, muted: false };
+
+export const TRACK_KIND_LABELS: Record<TrackKind, string> = {
+  video: 'Video',
+  audio: 'Audio',
+  caption: 'Captions',
+  overlay: 'Overlay',
+};
+
+// Projects saved before tracks were stored, as far as tracks are concerned
+interface SavedTracks {
+  clips: TimelineClip[];
+  tracks?: Track[];
+  trackSettings?: Record<string, TrackSettings>;
+  trackTypes?: Record<number, 'media' | 'captions'>;
+}
+
+export function generateTrackId(): string {
+  return `track_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// The kind of track a clip belongs on
+export function clipTrackKind(clip: TimelineClip, asset: MediaAsset | undefined): TrackKind {
+  if (clip.caption) return 'caption';
+  return asset?.type === 'audio' ? 'audio' : 'video';
+}
+
+export function trackAccepts(track: Track, clip: TimelineClip, asset: MediaAsset | undefined): boolean {
+  const kind = clipTrackKind(clip, asset);
+  return kind === 'video' ? track.kind === 'video' || track.kind === 'overlay' : track.kind === kind;
+}
+
+// "Video 3" - numbered after the highest existing track of that kind
+function nextTrackName(tracks: Track[], kind: TrackKind): string {
+  const label = TRACK_KIND_LABELS[kind];
+  const numbers = tracks
+    .filter(t => t.kind === kind)
+    .map(t => Number(t.name.match(new RegExp(`^${label} (\\d+)$`))?.[1] ?? 0));
+  return `${label} ${Math.max(0, ...numbers) + 1}`;
+}
+
+export function createTrack(tracks: Track[], kind: TrackKind): Track {
+  return {
+    id: generateTrackId(),
+    name: nextTrackName(tracks, kind),
+    kind,
+    locked: false,
+    height: DEFAULT_TRACK_HEIGHT,
+  };
+}
+
+// A new project starts with one video and one audio track
+export function createDefaultTracks(): Track[] {
+  const video = createTrack([], 'video');
+  return [video, createTrack([video], 'audio')];
+}
+
+/**
+ * Where a new clip should go: `preferred` if that track takes it, otherwise the first unlocked track
+ * that does, otherwise a new track at the end (created by ensureTracks).
+ */
+export function resolveClipTrack(
+  tracks: Track[],
+  preferred: number,
+  clip: TimelineClip,
+  asset: MediaAsset | undefined
+): number {
+  if (preferred >= tracks.length) return tracks.length;
+  const fits = (track: Track) => !track.locked && trackAccepts(track, clip, asset);
+  if (fits(tracks[preferred])) return preferred;
+  const index = tracks.findIndex(fits);
+  return index !== -1 ? index : tracks.length;
+}
+
+// Append tracks until every clip's trackIndex points at one, each typed after the first clip on it
+export function ensureTracks(tracks: Track[], clips: TimelineClip[], assets: MediaAsset[]): Track[] {
+  const lastIndex = Math.max(-1, ...clips.map(c => c.trackIndex));
+  if (lastIndex < tracks.length) return tracks;
+
+  const result = [...tracks];
+  for (let i = tracks.length; i <= lastIndex; i++) {
+    const clip = clips.find(c => c.trackIndex === i);
+    result.push(createTrack(result, clip ? clipTrackKind(clip, assets.find(a => a.id === clip.assetId)) : 'video'));
+  }
+  return result;
+}
+
+/**
+ * Undo whatever an edit did to clips on locked tracks: changed or removed clips come back as they
+ * were, and clips added to or moved onto a locked track are dropped or stay where they were.
+ */
+export function protectLockedTracks(before: TimelineClip[], after: TimelineClip[], tracks: Track[]): TimelineClip[] {
+  const isLocked = (trackIndex: number) => !!tracks[trackIndex]?.locked;
+  if (!tracks.some(t => t.locked) || before === after) return after;
+
+  const beforeById = new Map(before.map(c => [c.id, c]));
+  const afterIds = new Set(after.map(c => c.id));
+  let changed = false;
+
+  const result: TimelineClip[] = [];
+  after.forEach(clip => {
+    const previous = beforeById.get(clip.id);
+    if (clip !== previous && (isLocked(clip.trackIndex) || (previous && isLocked(previous.trackIndex)))) {
+      changed = true;
+      if (previous) result.push(previous);
+    } else {
+      result.push(clip);
+    }
+  });
+
+  before.forEach(clip => {
+    if (isLocked(clip.trackIndex) && !afterIds.has(clip.id)) {
+      changed = true;
+      result.push(clip);
+    }
+  });
+
+  return changed ? result : after;
+}
+
+// Insert a track at `index`, moving the clips at and below it down one track
+export function insertTrack(tracks: Track[], clips: TimelineClip[], index: number, track: Track) {
+  return {
+    tracks: [...tracks.slice(0, index), track, ...tracks.slice(index)],
+    clips: clips.map(c => c.trackIndex >= index ? { ...c, trackIndex: c.trackIndex + 1 } : c),
+  };
+}
+
+// Remove the track at `index` with its clips, moving the clips below it up one track
+export function removeTrack(tracks: Track[], clips: TimelineClip[], index: number) {
+  return {
+    tracks: tracks.filter((_, i) => i !== index),
+    clips: clips
+      .filter(c => c.trackIndex !== index)
+      .map(c => c.trackIndex > index ? { ...c, trackIndex: c.trackIndex - 1 } : c),
+  };
+}
+
+// Move the track at `from` to position `to`, carrying its clips along
+export function moveTrack(tracks: Track[], clips: TimelineClip[], from: number, to: number) {
+  if (from === to || !tracks[from] || !tracks[to]) return { tracks, clips };
+
+  const order = tracks.map((_, i) => i); // order[newIndex] = oldIndex
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+  const newIndexes = new Map(order.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+
+  return {
+    tracks: order.map(i => tracks[i]),
+    clips: clips.map(c => {
+      const trackIndex = newIndexes.get(c.trackIndex) ?? c.trackIndex;
+      return trackIndex === c.trackIndex ? c : { ...c, trackIndex };
+    }),
+  };
+}
+
+// The track under a point `deltaY` pixels from the middle of track `fromIndex`
+export function trackIndexAtOffset(tracks: Track[], fromIndex: number, deltaY: number): number {
+  if (tracks.length === 0) return fromIndex;
+
+  const top = tracks.slice(0, fromIndex).reduce((sum, t) => sum + t.height, 0);
+  const y = top + (tracks[fromIndex]?.height ?? DEFAULT_TRACK_HEIGHT) / 2 + deltaY;
+  let bottom = 0;
+  for (let i = 0; i < tracks.length; i++) {
+    bottom += tracks[i].height;
+    if (y < bottom) return i;
+  }
+  return tracks.length - 1;
+}
+
+// Track settings by track position - the shape the preview and exporters read
+export function trackSettingsByIndex(
+  tracks: Track[],
+  trackSettings: Record<string, TrackSettings>
+): Record<number, TrackSettings> {
+  const result: Record<number, TrackSettings> = {};
+  tracks.forEach((track, i) => {
+    if (trackSettings[track.id]) result[i] = trackSettings[track.id];
+  });
+  return result;
+}
+
+/**
+ * Tracks, clips and track settings of a saved project. Projects saved before tracks were stored only
+ * have each clip's trackIndex: every index in use becomes a track per kind of clip on it (video,
+ * captions, then audio), keeping its order and the settings that were keyed by that index.
+ */
+export function loadTracks(saved: SavedTracks, assets: MediaAsset[]) {
+  if (saved.tracks?.length) {
+    return {
+      clips: saved.clips,
+      tracks: ensureTracks(saved.tracks, saved.clips, assets),
+      trackSettings: saved.trackSettings ?? {},
+    };
+  }
+  if (saved.clips.length === 0) {
+    return { clips: saved.clips, tracks: createDefaultTracks(), trackSettings: {} };
+  }
+
+  const tracks: Track[] = [];
+  const trackSettings: Record<string, TrackSettings> = {};
+  const newIndexes = new Map<string, number>(); // clip id -> index of its new track
+  const lastIndex = Math.max(...saved.clips.map(c => c.trackIndex));
+  const kindOf = (clip: TimelineClip) => clipTrackKind(clip, assets.find(a => a.id === clip.assetId));
+
+  for (let i = 0; i <= lastIndex; i++) {
+    const trackClips = saved.clips.filter(c => c.trackIndex === i);
+    const kinds = (['video', 'caption', 'audio'] as TrackKind[]).filter(kind => trackClips.some(c => kindOf(c) === kind));
+    if (kinds.length === 0) kinds.push(saved.trackTypes?.[i] === 'captions' ? 'caption' : 'video');
+
+    kinds.forEach(kind => {
+      const track = createTrack(tracks, kind);
+      tracks.push(track);
+      if (saved.trackSettings?.[i]) trackSettings[track.id] = saved.trackSettings[i];
+      trackClips.filter(c => kindOf(c) === kind).forEach(c => newIndexes.set(c.id, tracks.length - 1));
+    });
+  }
+
+  return {
+    clips: saved.clips.map(c => {
+      const trackIndex = newIndexes.get(c.id) ?? c.trackIndex;
+      return trackIndex === c.trackIndex ? c : { ...c, trackIndex };
+    }),
+    tracks,
+    trackSettings,
+  };
+}
@@ -0,0 +1,236 @@
+import { TimelineClip, TransitionType } from '@/types/video-editor';
+
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+
+// Clips closer than this are treated as back-to-back for transition purposes
+const ADJACENCY_TOLERANCE = 0.05;
+
+// Scale factor used by the zoom transitions (1 = no zoom)
+const ZOOM_AMOUNT = 0.5;
+
+export type ActiveTransitionType = Exclude<TransitionType, 'none'>;
+
+export interface ActiveTransition {
+  type: ActiveTransitionType;
+  progress: number; // 0-1 through the transition window
+  incoming: TimelineClip;
+  outgoing: TimelineClip | null; // null = transition from black
+}
+
+export function hasTransition(clip: TimelineClip): boolean {
+  return !!clip.transitionIn && clip.transitionIn !== 'none';
+}
+
+// Transition length, clamped so it never outlasts the clip itself
+export function getTransitionDuration(clip: TimelineClip): number {
+  if (!hasTransition(clip)) return 0;
+  const duration = clip.transitionDuration ?? DEFAULT_TRANSITION_DURATION;
+  return Math.max(0, Math.min(duration, clip.duration));
+}
+
+// The clip that ends where `clip` begins on the same track (the one we transition from)
+export function findOutgoingClip(clip: TimelineClip, clips: TimelineClip[]): TimelineClip | null {
+  let best: TimelineClip | null = null;
+  for (const other of clips) {
+    if (other.id === clip.id || other.trackIndex !== clip.trackIndex) continue;
+    const otherEnd = other.startTime + other.duration;
+    if (Math.abs(otherEnd - clip.startTime) > ADJACENCY_TOLERANCE) continue;
+    if (!best || otherEnd > best.startTime + best.duration) {
+      best = other;
+    }
+  }
+  return best;
+}
+
+// How long a clip must hold its last frame past its end so the next clip can transition from it
+export function getOutgoingHoldDuration(clip: TimelineClip, clips: TimelineClip[]): number {
+  let hold = 0;
+  for (const other of clips) {
+    if (!hasTransition(other)) continue;
+    if (findOutgoingClip(other, clips)?.id !== clip.id) continue;
+    hold = Math.max(hold, getTransitionDuration(other));
+  }
+  return hold;
+}
+
+// Transition state for `clip` at timeline `time`, or null outside its transition window
+export function getActiveTransition(
+  clip: TimelineClip,
+  clips: TimelineClip[],
+  time: number
+): ActiveTransition | null {
+  if (!hasTransition(clip)) return null;
+
+  const duration = getTransitionDuration(clip);
+  const elapsed = time - clip.startTime;
+  if (duration <= 0 || elapsed < 0 || elapsed >= duration) return null;
+
+  return {
+    type: clip.transitionIn as ActiveTransitionType,
+    progress: elapsed / duration,
+    incoming: clip,
+    outgoing: findOutgoingClip(clip, clips),
+  };
+}
+
+/**
+ * Blend the outgoing and incoming clip onto a 2D canvas, on top of whatever is already drawn.
+ * The draw callbacks render a full frame of their clip; sizing (cover/contain) is up to the caller
+ * so the preview and the MediaRecorder exporter can keep their own fit modes.
+ */
+export function compositeTransition(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  type: ActiveTransitionType,
+  progress: number,
+  drawOutgoing: (() => void) | null,
+  drawIncoming: () => void
+) {
+  const p = Math.max(0, Math.min(1, progress));
+
+  ctx.save();
+  ctx.fillStyle = '#000';
+
+  switch (type) {
+    case 'fade':
+      // Fade through black: outgoing fades out over the first half, incoming fades in over the second
+      if (p < 0.5) {
+        drawOutgoing?.();
+        ctx.globalAlpha = p * 2;
+        ctx.fillRect(0, 0, width, height);
+      } else {
+        ctx.fillRect(0, 0, width, height);
+        ctx.globalAlpha = (p - 0.5) * 2;
+        drawIncoming();
+      }
+      break;
+
+    case 'dissolve':
+      drawOutgoing?.();
+      ctx.globalAlpha = p;
+      drawIncoming();
+      break;
+
+    case 'wipe-left':
+      // Incoming is revealed from the right edge, boundary moving left
+      drawOutgoing?.();
+      ctx.beginPath();
+      ctx.rect(width * (1 - p), 0, width * p, height);
+      ctx.clip();
+      drawIncoming();
+      break;
+
+    case 'wipe-right':
+      drawOutgoing?.();
+      ctx.beginPath();
+      ctx.rect(0, 0, width * p, height);
+      ctx.clip();
+      drawIncoming();
+      break;
+
+    case 'zoom-in': {
+      // Outgoing pushes in while the incoming dissolves over it
+      const scale = 1 + ZOOM_AMOUNT * p;
+      if (drawOutgoing) {
+        ctx.save();
+        ctx.translate(width / 2, height / 2);
+        ctx.scale(scale, scale);
+        ctx.translate(-width / 2, -height / 2);
+        drawOutgoing();
+        ctx.restore();
+      }
+      ctx.globalAlpha = p;
+      drawIncoming();
+      break;
+    }
+
+    case 'zoom-out': {
+      // Incoming starts magnified and settles to full frame while fading in
+      const scale = 1 + ZOOM_AMOUNT * (1 - p);
+      drawOutgoing?.();
+      ctx.globalAlpha = p;
+      ctx.translate(width / 2, height / 2);
+      ctx.scale(scale, scale);
+      ctx.translate(-width / 2, -height / 2);
+      drawIncoming();
+      break;
+    }
+  }
+
+  ctx.restore();
+}
+
+/**
+ * FFmpeg filter chain for the incoming clip's transition.
+ * Expects a prepared stream whose timestamps start at 0 (clip-local time) and outputs yuva420p
+ * so the overlay onto the held outgoing clip blends the same way compositeTransition does.
+ */
+export function buildIncomingTransitionFilter(
+  type: ActiveTransitionType,
+  duration: number,
+  resolution: { width: number; height: number },
+  fps: number
+): string {
+  const d = duration.toFixed(3);
+  const half = (duration / 2).toFixed(3);
+  const progress = `min(T/${d},1)`;
+
+  switch (type) {
+    case 'fade':
+      // Colour fades up from black over the second half, alpha (black over outgoing) rises over the first
+      return `fade=t=in:st=${half}:d=${half},format=yuva420p,fade=t=in:st=0:d=${half}:alpha=1`;
+    case 'dissolve':
+      return `format=yuva420p,fade=t=in:st=0:d=${d}:alpha=1`;
+    case 'wipe-left':
+      return `format=yuva420p,geq=lum='lum(X,Y)':cb='cb(X,Y)':cr='cr(X,Y)':a='if(gte(X,W*(1-${progress})),255,0)'`;
+    case 'wipe-right':
+      return `format=yuva420p,geq=lum='lum(X,Y)':cb='cb(X,Y)':cr='cr(X,Y)':a='if(lte(X,W*${progress}),255,0)'`;
+    case 'zoom-in':
+      return `format=yuva420p,fade=t=in:st=0:d=${d}:alpha=1`;
+    case 'zoom-out':
+      return (
+        `zoompan=z='1+${ZOOM_AMOUNT}*(1-min(it/${d},1))':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':` +
+        `d=1:s=${resolution.width}x${resolution.height}:fps=${fps},` +
+        `format=yuva420p,fade=t=in:st=0:d=${d}:alpha=1`
+      );
+  }
+}
+
+/**
+ * FFmpeg filter chain for an outgoing clip: holds its last frame for `hold` seconds and,
+ * for zoom-in, pushes in over that tail. Also expects clip-local timestamps.
+ */
+export function buildOutgoingTransitionFilter(
+  nextType: ActiveTransitionType | null,
+  clipDuration: number,
+  hold: number,
+  resolution: { width: number; height: number },
+  fps: number
+): string {
+  if (hold <= 0) return '';
+
+  const parts = [`tpad=stop_mode=clone:stop_duration=${hold.toFixed(3)}`];
+
+  if (nextType === 'zoom-in') {
+    const end = clipDuration.toFixed(3);
+    const d = hold.toFixed(3);
+    parts.push(
+      `zoompan=z='if(gte(it,${end}),1+${ZOOM_AMOUNT}*min((it-${end})/${d},1),1)':` +
+      `x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':d=1:s=${resolution.width}x${resolution.height}:fps=${fps}`
+    );
+  }
+
+  return parts.join(',');
+}
+
+// The transition type of whichever clip picks up from `clip`, if any
+export function getNextTransitionType(clip: TimelineClip, clips: TimelineClip[]): ActiveTransitionType | null {
+  for (const other of clips) {
+    if (!hasTransition(other)) continue;
+    if (findOutgoingClip(other, clips)?.id === clip.id) {
+      return other.transitionIn as ActiveTransitionType;
+    }
+  }
+  return null;
+}
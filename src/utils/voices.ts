@@ -1,4 +1,4 @@
-import { Voice } from '@/types';
+import { SpeakerConfig, Voice } from '@/types';
 
 export const VOICES: Voice[] = [
   {
@@ -38,3 +38,17 @@ export const VOICES: Voice[] = [
     description: 'Decisive and commanding, suitable for instructional content',
   },
 ];
+
+// Fill in a config for every speaker: one named after a voice gets that voice, others take the voices in turn
+export function resolveSpeakerConfigs(
+  speakers: string[],
+  configs: Record<string, SpeakerConfig>
+): Record<string, SpeakerConfig> {
+  return Object.fromEntries(
+    speakers.map((speaker, index) => {
+      const named = VOICES.find(voice => voice.id.toLowerCase() === speaker.toLowerCase());
+      const fallback: SpeakerConfig = { voice: named ? named.id : VOICES[index % VOICES.length].id, presetId: null };
+      return [speaker, configs[speaker] || fallback];
+    })
+  );
+}
@@ -0,0 +1,125 @@
+// 16-bit mono PCM helpers for stitching voiceover audio
+
+const BYTES_PER_SAMPLE = 2;
+
+function writeString(view: DataView, offset: number, str: string) {
+  for (let i = 0; i < str.length; i++) {
+    view.setUint8(offset + i, str.charCodeAt(i));
+  }
+}
+
+// Wrap raw 16-bit mono PCM in a WAV header
+export function encodeWav(pcm: Uint8Array, sampleRate: number): ArrayBuffer {
+  const byteRate = sampleRate * BYTES_PER_SAMPLE;
+  const wavBuffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(wavBuffer);
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, BYTES_PER_SAMPLE, true);
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  new Uint8Array(wavBuffer, 44).set(pcm);
+
+  return wavBuffer;
+}
+
+// Pull the PCM samples and sample rate back out of a WAV file
+export function decodeWavPcm(wav: Uint8Array): { pcm: Uint8Array; sampleRate: number } {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  let sampleRate = 24000;
+  let offset = 12;
+
+  while (offset + 8 <= wav.byteLength) {
+    const id = String.fromCharCode(wav[offset], wav[offset + 1], wav[offset + 2], wav[offset + 3]);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (id === 'data') {
+      const end = Math.min(wav.byteLength, offset + 8 + size);
+      return { pcm: wav.subarray(offset + 8, end), sampleRate };
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new Error('Invalid WAV file: no data chunk');
+}
+
+// Decode a base64 string of raw bytes, e.g. a streamed PCM delta
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Join PCM parts received one after another into a single buffer
+export function concatPcm(parts: Uint8Array[]): Uint8Array {
+  const pcm = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    pcm.set(part, offset);
+    offset += part.byteLength;
+  }
+  return pcm;
+}
+
+export function silencePcm(seconds: number, sampleRate: number): Uint8Array {
+  return new Uint8Array(silenceBytes(seconds, sampleRate));
+}
+
+// Speech PCM, or an exact silence in seconds
+export type StitchItem = { pcm: Uint8Array } | { silence: number };
+
+function silenceBytes(seconds: number, sampleRate: number): number {
+  return Math.max(0, Math.round(seconds * sampleRate)) * BYTES_PER_SAMPLE;
+}
+
+/**
+ * Lay items end to end, with `gapSeconds` of silence wherever speech directly follows speech.
+ * Returns the joined PCM and the byte offset of each speech item, in order.
+ */
+export function stitchPcm(
+  items: StitchItem[],
+  gapSeconds: number,
+  sampleRate: number
+): { pcm: Uint8Array; offsets: number[] } {
+  const offsets: number[] = [];
+  let total = 0;
+  let previousWasSpeech = false;
+
+  for (const item of items) {
+    if ('pcm' in item) {
+      if (previousWasSpeech) total += silenceBytes(gapSeconds, sampleRate);
+      offsets.push(total);
+      total += item.pcm.byteLength;
+      previousWasSpeech = true;
+    } else {
+      total += silenceBytes(item.silence, sampleRate);
+      previousWasSpeech = false;
+    }
+  }
+
+  const pcm = new Uint8Array(total); // zero-filled, so the gaps are silence
+  let index = 0;
+  for (const item of items) {
+    if ('pcm' in item) pcm.set(item.pcm, offsets[index++]);
+  }
+
+  return { pcm, offsets };
+}
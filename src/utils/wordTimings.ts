@@ -0,0 +1,2 @@
+// Word alignment lives with the edge functions so generate-voice uses the same timings
+export * from '../../supabase/functions/_shared/wordTimings';
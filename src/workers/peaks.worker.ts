@@ -0,0 +1,58 @@
+// Reduces decoded audio samples to peak levels off the main thread.
+// AudioContext isn't available in workers, so decoding happens in waveformService and only the
+// (potentially tens of millions of) samples are handed over here.
+
+export interface PeaksRequest {
+  id: number;
+  samples: Float32Array;
+  samplesPerPeak: number[];
+}
+
+export interface PeaksResponse {
+  id: number;
+  levels: Float32Array[];
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<PeaksRequest>) => {
+  const { id, samples, samplesPerPeak } = event.data;
+  const levels: Float32Array[] = [];
+
+  // Finest level straight from the samples, each coarser level from the one before it
+  let previous: Float32Array | null = null;
+  let previousSize = 1;
+
+  for (const size of samplesPerPeak) {
+    const peaks = new Float32Array(Math.ceil(samples.length / size));
+
+    if (previous && size % previousSize === 0) {
+      const ratio = size / previousSize;
+      for (let i = 0; i < peaks.length; i++) {
+        let max = 0;
+        const end = Math.min(previous.length, (i + 1) * ratio);
+        for (let j = i * ratio; j < end; j++) {
+          if (previous[j] > max) max = previous[j];
+        }
+        peaks[i] = max;
+      }
+    } else {
+      for (let i = 0; i < peaks.length; i++) {
+        let max = 0;
+        const end = Math.min(samples.length, (i + 1) * size);
+        for (let j = i * size; j < end; j++) {
+          const value = Math.abs(samples[j]);
+          if (value > max) max = value;
+        }
+        peaks[i] = max;
+      }
+    }
+
+    levels.push(peaks);
+    previous = peaks;
+    previousSize = size;
+  }
+
+  const response: PeaksResponse = { id, levels };
+  ctx.postMessage(response, levels.map(level => level.buffer));
+};
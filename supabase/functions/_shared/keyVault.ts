@@ -0,0 +1,144 @@
+// Server-side store of xAI API keys. Keys live encrypted in the xai_api_keys table, which only
+// the service role can read, one per workspace (the owner's user id). Functions look the key up
+// from the caller's JWT, so the browser never holds or sends it.
+//
+// XAI_KEY_ENCRYPTION_KEY must be set to 32 random bytes, base64 encoded (openssl rand -base64 32).
+
+import { User } from "https://esm.sh/@supabase/supabase-js@2"
+import { admin } from "./supabaseAdmin.ts"
+
+interface StoredKey {
+  owner_id: string
+  encrypted_key: string
+  iv: string
+  last4: string
+  updated_at: string
+}
+
+// What the browser gets to see of a key
+export interface KeyStatus {
+  last4: string
+  shared: boolean // another workspace member's key, so only they can change it
+  updatedAt: string
+}
+
+// The signed-in user behind the request's Authorization header, or null
+export async function getCaller(req: Request): Promise<User | null> {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const { data, error } = await admin.auth.getUser(token)
+  if (error) {
+    console.error('Failed to verify caller:', error.message)
+    return null
+  }
+  return data.user
+}
+
+// ============================================
+// ENCRYPTION
+// ============================================
+
+let encryptionKey: Promise<CryptoKey> | null = null
+
+function getEncryptionKey(): Promise<CryptoKey> {
+  if (!encryptionKey) {
+    const secret = Deno.env.get('XAI_KEY_ENCRYPTION_KEY')
+    if (!secret) throw new Error('XAI_KEY_ENCRYPTION_KEY is not set')
+    const raw = fromBase64(secret)
+    if (raw.length !== 32) throw new Error('XAI_KEY_ENCRYPTION_KEY must be 32 bytes, base64 encoded')
+    encryptionKey = crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  }
+  return encryptionKey
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+async function encrypt(apiKey: string): Promise<{ encrypted_key: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getEncryptionKey(),
+    new TextEncoder().encode(apiKey)
+  )
+  return { encrypted_key: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) }
+}
+
+async function decrypt(row: StoredKey): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(row.iv) },
+    await getEncryptionKey(),
+    fromBase64(row.encrypted_key)
+  )
+  return new TextDecoder().decode(plaintext)
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+// The caller's own key, otherwise the most recently updated key of a workspace they belong to
+async function findKey(userId: string): Promise<StoredKey | null> {
+  const { data: workspaceIds, error: workspaceError } = await admin.rpc('get_accessible_workspace_ids', {
+    user_uuid: userId,
+  })
+  if (workspaceError) throw workspaceError
+
+  const { data, error } = await admin
+    .from('xai_api_keys')
+    .select('owner_id, encrypted_key, iv, last4, updated_at')
+    .in('owner_id', workspaceIds ?? [userId])
+    .order('updated_at', { ascending: false })
+  if (error) throw error
+
+  const rows = (data ?? []) as StoredKey[]
+  return rows.find(row => row.owner_id === userId) ?? rows[0] ?? null
+}
+
+function toStatus(row: StoredKey, userId: string): KeyStatus {
+  return { last4: row.last4, shared: row.owner_id !== userId, updatedAt: row.updated_at }
+}
+
+export async function getKeyStatus(userId: string): Promise<KeyStatus | null> {
+  const row = await findKey(userId)
+  return row ? toStatus(row, userId) : null
+}
+
+// A decrypted key and the workspace it belongs to, which pays for its use
+export interface ResolvedKey {
+  apiKey: string
+  ownerId: string
+}
+
+// The key to call xAI with on the user's behalf, or null if there is none
+export async function resolveApiKey(userId: string): Promise<ResolvedKey | null> {
+  const row = await findKey(userId)
+  return row ? { apiKey: await decrypt(row), ownerId: row.owner_id } : null
+}
+
+// Save (or replace) the key of the user's own workspace
+export async function storeApiKey(userId: string, apiKey: string): Promise<KeyStatus> {
+  const { data, error } = await admin
+    .from('xai_api_keys')
+    .upsert({
+      owner_id: userId,
+      ...(await encrypt(apiKey)),
+      last4: apiKey.slice(-4),
+      updated_at: new Date().toISOString(),
+    })
+    .select('owner_id, encrypted_key, iv, last4, updated_at')
+    .single()
+  if (error) throw error
+  return toStatus(data as StoredKey, userId)
+}
+
+export async function deleteApiKey(userId: string): Promise<void> {
+  const { error } = await admin.from('xai_api_keys').delete().eq('owner_id', userId)
+  if (error) throw error
+}
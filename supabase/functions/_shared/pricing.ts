@@ -0,0 +1,10 @@
+// xAI realtime voice pricing. Shared with the app through src/utils/pricing.ts, so keep this
+// file free of Deno APIs.
+
+// USD per minute of generated audio
+export const VOICE_COST_PER_MINUTE = 0.05
+
+// Estimated cost in USD of `audioSeconds` of generated audio, to a hundredth of a cent
+export function estimateVoiceCost(audioSeconds: number): number {
+  return Math.round((audioSeconds / 60) * VOICE_COST_PER_MINUTE * 10000) / 10000
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest"
+import { parseScript, prepareScriptForVoice, renderForVoice, renderPlainText, splitAtPauses } from "./scriptTags.ts"
+
+const messages = (script: string) => parseScript(script).issues.map(issue => issue.message)
+
+describe("parseScript", () => {
+  it("builds text, style and pause nodes with source positions", () => {
+    expect(parseScript("Hi [whisper]psst[/whisper][pause:2s] bye").nodes).toEqual([
+      { type: "text", text: "Hi ", start: 0, end: 3 },
+      {
+        type: "style",
+        name: "whisper",
+        children: [{ type: "text", text: "psst", start: 12, end: 16 }],
+        closed: true,
+        start: 3,
+        end: 26,
+      },
+      { type: "pause", seconds: 2, start: 26, end: 36 },
+      { type: "text", text: " bye", start: 36, end: 40 },
+    ])
+  })
+
+  it("reads speaker prefixes and voice blocks", () => {
+    const { nodes, issues } = parseScript("ARA: Hello\n[voice:Rex]Hi[/voice]")
+    expect(issues).toEqual([])
+    expect(nodes[0]).toEqual({ type: "speaker", speaker: "ARA", start: 0, end: 5 })
+    expect(nodes[2]).toMatchObject({ type: "voice", speaker: "Rex", closed: true })
+  })
+
+  it.each([
+    ["[pause:3s]", 3],
+    ["[pause:3]", 3],
+    ["[pause:1.5s]", 1.5],
+    ["[pause: 2 s]", 2],
+    ["[pause]", 1],
+    ["[PAUSE:4S]", 4],
+  ])("reads %s as a %s second pause", (tag, seconds) => {
+    const { nodes, issues } = parseScript(tag)
+    expect(issues).toEqual([])
+    expect(nodes).toEqual([{ type: "pause", seconds, start: 0, end: tag.length }])
+  })
+
+  it("keeps a pause without a usable duration as text", () => {
+    const { nodes, issues } = parseScript("Wait [pause:soon]")
+    expect(nodes).toEqual([{ type: "text", text: "Wait [pause:soon]", start: 0, end: 17 }])
+    expect(issues).toEqual([{ message: "[pause:soon] needs a duration like [pause:2s]", start: 5, end: 17 }])
+  })
+
+  it("nests styles", () => {
+    const { nodes, issues } = parseScript("[slow]a [emphasis]b[/emphasis] c[/slow]")
+    expect(issues).toEqual([])
+    expect(nodes).toHaveLength(1)
+    expect(nodes[0]).toMatchObject({
+      type: "style",
+      name: "slow",
+      closed: true,
+      children: [
+        { type: "text", text: "a " },
+        { type: "style", name: "emphasis", closed: true, children: [{ type: "text", text: "b" }] },
+        { type: "text", text: " c" },
+      ],
+    })
+  })
+
+  it("runs an unclosed tag to the end of the script", () => {
+    const script = "[whisper]never closed"
+    const { nodes, issues, tokens } = parseScript(script)
+    expect(nodes[0]).toMatchObject({ type: "style", name: "whisper", closed: false, start: 0, end: script.length })
+    expect(issues).toEqual([{ message: "Missing closing tag for [whisper]", start: 0, end: script.length }])
+    expect(tokens[0]).toMatchObject({ kind: "open", name: "whisper", valid: false })
+  })
+
+  it("leaves an inner tag unclosed when its outer tag closes first", () => {
+    const { nodes, issues } = parseScript("[slow]a [fast]b[/slow] c")
+    expect(nodes[0]).toMatchObject({
+      type: "style",
+      name: "slow",
+      closed: true,
+      children: [{ type: "text", text: "a " }, { type: "style", name: "fast", closed: false, end: 15 }],
+    })
+    expect(nodes[1]).toMatchObject({ type: "text", text: " c" })
+    expect(issues).toEqual([{ message: "Missing closing tag for [fast]", start: 8, end: 15 }])
+  })
+
+  it.each([
+    ["[shout]hey", "Unknown tag [shout]"],
+    ["hey[/whisper]", "[/whisper] has no matching opening tag"],
+    ["[voice]hey", "[voice] needs a speaker like [voice:Ara]"],
+    ["[sad:very]hey[/sad]", "[sad] doesn't take a value"],
+    ["[slow][voice:Ara]hey[/voice][/slow]", "Voice blocks can't be nested inside other tags"],
+  ])("reports %s", (script, message) => {
+    expect(messages(script)).toEqual([message])
+  })
+
+  it("keeps unknown and stray tags in the text", () => {
+    const { nodes, tokens } = parseScript("[shout]hey[/shout]")
+    expect(renderPlainText(nodes)).toBe("[shout]hey[/shout]")
+    expect(tokens.map(token => token.valid)).toEqual([false, false])
+  })
+
+  it("reports issues in script order", () => {
+    expect(messages("[whisper]a [shout] b [/slow]")).toEqual([
+      "Missing closing tag for [whisper]",
+      "Unknown tag [shout]",
+      "[/slow] has no matching opening tag",
+    ])
+  })
+
+  it("only reads speaker prefixes outside tags", () => {
+    const { nodes } = parseScript("[slow]\nARA: hi[/slow]")
+    expect(nodes).toHaveLength(1)
+    expect(renderPlainText(nodes)).toBe("\nARA: hi")
+  })
+})
+
+describe("splitAtPauses", () => {
+  it("cuts the script at each pause", () => {
+    expect(splitAtPauses("One. [pause:3s] Two. [pause:1s] Three.")).toEqual([
+      { script: "One.", pauseAfter: 3 },
+      { script: "Two.", pauseAfter: 1 },
+      { script: "Three.", pauseAfter: 0 },
+    ])
+  })
+
+  it("closes and reopens styles around a pause", () => {
+    expect(splitAtPauses("[slow]a [pause:2s] b[/slow]")).toEqual([
+      { script: "[slow]a [/slow]", pauseAfter: 2 },
+      { script: "[slow] b[/slow]", pauseAfter: 0 },
+    ])
+  })
+
+  it("merges back-to-back pauses and keeps a leading one", () => {
+    expect(splitAtPauses("[pause:1s]A [pause:1s][pause:2s] B")).toEqual([
+      { script: "", pauseAfter: 1 },
+      { script: "A", pauseAfter: 3 },
+      { script: "B", pauseAfter: 0 },
+    ])
+  })
+
+  it("ends on the last pause when nothing follows it", () => {
+    expect(splitAtPauses("Done. [pause:2s]")).toEqual([{ script: "Done.", pauseAfter: 2 }])
+  })
+
+  it("returns the whole script when there are no pauses", () => {
+    expect(splitAtPauses(" [whisper]hi[/whisper] ")).toEqual([{ script: "[whisper]hi[/whisper]", pauseAfter: 0 }])
+  })
+})
+
+describe("renderForVoice", () => {
+  it.each([
+    ["[whisper]psst[/whisper] go", "(softly) psst go"],
+    ["[excited]we [slow]made[/slow] it[/excited]", "(enthusiastically) we (slowly) made it"],
+    ["Wait[pause:2s]now", "Wait... ... now"],
+    ["Wait[pause:0.2s]now", "Wait... now"],
+    ["Wait[pause:10s]now", "Wait... ... ... ... ... now"],
+    ["ARA: Hi\n[voice:Rex]Yo[/voice]", "Hi\nYo"],
+    ["[shout]hey", "[shout]hey"],
+  ])("renders %j", (script, expected) => {
+    expect(renderForVoice(parseScript(script).nodes)).toBe(expected)
+  })
+
+  it("swaps respelled lexicon terms but leaves IPA hints to the instructions", () => {
+    const lexicon = [
+      { term: "Nike", respelling: "NYE-kee" },
+      { term: "Gif", respelling: "/dʒɪf/" },
+    ]
+    expect(prepareScriptForVoice("  [happy]Nike and Gif[/happy] ", lexicon)).toBe("(cheerfully) NYE-kee and Gif")
+  })
+})
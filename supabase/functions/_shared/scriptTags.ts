@@ -0,0 +1,424 @@
+// Script tag parser shared by the app (src/utils/scriptTags.ts re-exports it) and the edge functions,
+// so every path reads [whisper], [pause:2s], [voice:Ara] and NAME: prefixes the same way.
+// Keep this file free of imports - it has to load in both Vite and Deno.
+
+export type StyleTagName =
+  | 'whisper'
+  | 'excited'
+  | 'serious'
+  | 'slow'
+  | 'fast'
+  | 'emphasis'
+  | 'sad'
+  | 'happy'
+  | 'angry'
+
+// How each style reads when the script is handed to the voice model
+export const STYLE_HINTS: Record<StyleTagName, string> = {
+  whisper: 'softly',
+  excited: 'enthusiastically',
+  serious: 'seriously',
+  slow: 'slowly',
+  fast: 'quickly',
+  emphasis: 'emphasizing',
+  sad: 'sadly',
+  happy: 'cheerfully',
+  angry: 'angrily',
+}
+
+// Where pauses aren't cut out with splitAtPauses they're read as one "..." per second, up to this many
+const MAX_PAUSE_ELLIPSES = 5
+const DEFAULT_PAUSE_SECONDS = 1
+
+const TAG_PATTERN = /\[(\/?)([a-z]+)(?::([^\]\n]*))?\]/gi
+const SPEAKER_PREFIX_PATTERN = /^([A-Z][A-Z0-9_ ]{0,23}):[ \t]*/gm
+
+// Positions are character offsets into the parsed script, end exclusive
+export type ScriptNode =
+  | { type: 'text'; text: string; start: number; end: number }
+  | { type: 'pause'; seconds: number; start: number; end: number }
+  | { type: 'speaker'; speaker: string; start: number; end: number } // NAME: line prefix
+  | { type: 'style'; name: StyleTagName; children: ScriptNode[]; closed: boolean; start: number; end: number }
+  | { type: 'voice'; speaker: string; children: ScriptNode[]; closed: boolean; start: number; end: number }
+
+// A tag or speaker prefix as written in the script, for highlighting
+export interface ScriptToken {
+  kind: 'open' | 'close' | 'pause' | 'speaker'
+  name: string
+  start: number
+  end: number
+  valid: boolean
+}
+
+export interface ScriptIssue {
+  message: string
+  start: number
+  end: number
+}
+
+export interface ParsedScript {
+  nodes: ScriptNode[]
+  tokens: ScriptToken[]
+  issues: ScriptIssue[]
+}
+
+type ContainerNode = Extract<ScriptNode, { children: ScriptNode[] }>
+
+function tagName(node: ContainerNode): string {
+  return node.type === 'voice' ? 'voice' : node.name
+}
+
+export function isStyleTagName(name: string): name is StyleTagName {
+  return name in STYLE_HINTS
+}
+
+function parsePauseSeconds(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return DEFAULT_PAUSE_SECONDS
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*s?$/i)
+  return match ? parseFloat(match[1]) : null
+}
+
+/**
+ * Parse a script into a tree of text, style spans, voice blocks, pauses and speaker prefixes.
+ * Parsing never fails: unknown tags and stray closing tags are kept as text, unclosed tags run to the
+ * end of the script, and each problem is reported in `issues`.
+ */
+export function parseScript(script: string): ParsedScript {
+  const root: ScriptNode[] = []
+  const stack: ContainerNode[] = []
+  const tokens: ScriptToken[] = []
+  const issues: ScriptIssue[] = []
+  let cursor = 0
+
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].children : root)
+
+  const pushText = (end: number) => {
+    if (end <= cursor) return
+    const siblings = current()
+    const last = siblings[siblings.length - 1]
+    if (last && last.type === 'text' && last.end === cursor) {
+      last.text += script.slice(cursor, end)
+      last.end = end
+    } else {
+      siblings.push({ type: 'text', text: script.slice(cursor, end), start: cursor, end })
+    }
+    cursor = end
+  }
+
+  const keepAsText = (token: ScriptToken, message: string) => {
+    token.valid = false
+    issues.push({ message, start: token.start, end: token.end })
+  }
+
+  const markUnclosed = (node: ContainerNode, end: number) => {
+    node.end = end
+    issues.push({ message: `Missing closing tag for [${tagName(node)}]`, start: node.start, end })
+    const token = tokens.find(t => t.kind === 'open' && t.start === node.start)
+    if (token) token.valid = false
+  }
+
+  // Speaker prefixes only count at line starts outside any tag, so collect them up front and
+  // check the nesting when they come up
+  const matches = [
+    ...[...script.matchAll(TAG_PATTERN)].map(match => ({ match, isTag: true })),
+    ...[...script.matchAll(SPEAKER_PREFIX_PATTERN)].map(match => ({ match, isTag: false })),
+  ].sort((a, b) => a.match.index! - b.match.index!)
+
+  for (const { match, isTag } of matches) {
+    const start = match.index!
+    const end = start + match[0].length
+
+    if (!isTag) {
+      if (stack.length > 0) continue
+      pushText(start)
+      const speaker = match[1].trim()
+      root.push({ type: 'speaker', speaker, start, end })
+      tokens.push({ kind: 'speaker', name: speaker, start, end: start + match[1].length + 1, valid: true })
+      cursor = end
+      continue
+    }
+
+    const [raw, slash, rawName, value] = match
+    const name = rawName.toLowerCase()
+    pushText(start)
+
+    if (slash) {
+      const token: ScriptToken = { kind: 'close', name, start, end, valid: true }
+      tokens.push(token)
+
+      const openIndex = stack.map(tagName).lastIndexOf(name)
+      if (openIndex === -1) {
+        keepAsText(token, `${raw} has no matching opening tag`)
+        pushText(end)
+        continue
+      }
+
+      // Anything opened after the tag being closed is left unclosed
+      while (stack.length > openIndex + 1) {
+        markUnclosed(stack.pop()!, start)
+      }
+      const node = stack.pop()!
+      node.closed = true
+      node.end = end
+      cursor = end
+      continue
+    }
+
+    if (name === 'pause') {
+      const token: ScriptToken = { kind: 'pause', name, start, end, valid: true }
+      tokens.push(token)
+      const seconds = parsePauseSeconds(value)
+      if (seconds === null) {
+        keepAsText(token, `${raw} needs a duration like [pause:2s]`)
+        pushText(end)
+        continue
+      }
+      current().push({ type: 'pause', seconds, start, end })
+      cursor = end
+      continue
+    }
+
+    const token: ScriptToken = { kind: 'open', name, start, end, valid: true }
+    tokens.push(token)
+
+    let node: ContainerNode
+    if (name === 'voice') {
+      if (!value?.trim()) {
+        keepAsText(token, `${raw} needs a speaker like [voice:Ara]`)
+        pushText(end)
+        continue
+      }
+      if (stack.length > 0) {
+        issues.push({ message: 'Voice blocks can\'t be nested inside other tags', start, end })
+        token.valid = false
+      }
+      node = { type: 'voice', speaker: value.trim(), children: [], closed: false, start, end: script.length }
+    } else if (isStyleTagName(name)) {
+      if (value !== undefined) {
+        issues.push({ message: `[${name}] doesn't take a value`, start, end })
+        token.valid = false
+      }
+      node = { type: 'style', name, children: [], closed: false, start, end: script.length }
+    } else {
+      keepAsText(token, `Unknown tag ${raw}`)
+      pushText(end)
+      continue
+    }
+
+    current().push(node)
+    stack.push(node)
+    cursor = end
+  }
+
+  pushText(script.length)
+
+  for (const node of stack) {
+    markUnclosed(node, script.length)
+  }
+
+  issues.sort((a, b) => a.start - b.start)
+  return { nodes: root, tokens, issues }
+}
+
+// The script as the voice model should read it: styles become spoken hints, pauses become ellipses
+// and lexicon terms are swapped for their respellings
+export function renderForVoice(nodes: ScriptNode[], lexicon: LexiconEntry[] = []): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return applyLexicon(node.text, lexicon)
+        case 'pause':
+          return '... '.repeat(Math.min(MAX_PAUSE_ELLIPSES, Math.max(1, Math.round(node.seconds))))
+        case 'speaker':
+          return ''
+        case 'style':
+          return `(${STYLE_HINTS[node.name]}) ${renderForVoice(node.children, lexicon)}`
+        case 'voice':
+          return renderForVoice(node.children, lexicon)
+      }
+    })
+    .join('')
+}
+
+// The words of the script with all markup removed
+export function renderPlainText(nodes: ScriptNode[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.text
+        case 'style':
+        case 'voice':
+          return renderPlainText(node.children)
+        default:
+          return ''
+      }
+    })
+    .join('')
+}
+
+// A stretch of script read in one go, followed by an exact silence from its [pause] tag
+export interface ScriptPiece {
+  script: string // '' when pauses are back to back or lead the script
+  pauseAfter: number // seconds
+}
+
+/**
+ * Cut a script at every pause tag so the silence can be spliced in at its exact length instead of
+ * left to the model. Styles around a pause are closed before it and reopened after it.
+ */
+export function splitAtPauses(script: string): ScriptPiece[] {
+  const pieces: ScriptPiece[] = []
+  const open: ContainerNode[] = []
+  let current = ''
+
+  const openTag = (node: ContainerNode) => (node.type === 'voice' ? `[voice:${node.speaker}]` : `[${node.name}]`)
+  const closeTag = (node: ContainerNode) => `[/${tagName(node)}]`
+
+  const walk = (nodes: ScriptNode[]) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'pause': {
+          const text = current + [...open].reverse().map(closeTag).join('')
+          const hasWords = renderPlainText(parseScript(text).nodes).trim() !== ''
+          const last = pieces[pieces.length - 1]
+          if (!hasWords && last) {
+            last.pauseAfter += node.seconds
+          } else {
+            pieces.push({ script: hasWords ? text.trim() : '', pauseAfter: node.seconds })
+          }
+          current = open.map(openTag).join('')
+          break
+        }
+        case 'style':
+        case 'voice':
+          current += openTag(node)
+          open.push(node)
+          walk(node.children)
+          open.pop()
+          current += closeTag(node)
+          break
+        default:
+          current += script.slice(node.start, node.end)
+      }
+    }
+  }
+  walk(parseScript(script).nodes)
+
+  if (renderPlainText(parseScript(current).nodes).trim() !== '') {
+    pieces.push({ script: current.trim(), pauseAfter: 0 })
+  }
+  return pieces
+}
+
+// The script text covered by a run of nodes, tags included
+export function sliceSource(script: string, nodes: ScriptNode[]): string {
+  return nodes.map(node => script.slice(node.start, node.end)).join('')
+}
+
+export function prepareScriptForVoice(script: string, lexicon: LexiconEntry[] = []): string {
+  return renderForVoice(parseScript(script).nodes, lexicon).trim()
+}
+
+// ============================================
+// PRONUNCIATION LEXICON
+// ============================================
+
+// A term and how to say it: a respelling ("NYE-kee") replaces the term in the script, an IPA hint
+// between slashes ("/ˈnaɪki/") keeps the term and goes in the session instructions instead
+export interface LexiconEntry {
+  term: string
+  respelling: string
+}
+
+export function isIpaHint(entry: LexiconEntry): boolean {
+  return /^\/.+\/$/.test(entry.respelling.trim())
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Whole-word, case-insensitive match of any of the phrases, longest first
+function phrasePattern(phrases: string[]): RegExp | null {
+  const alternatives = [...new Set(phrases.map(phrase => phrase.trim()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+  if (alternatives.length === 0) return null
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+}
+
+function respelledEntries(lexicon: LexiconEntry[]): LexiconEntry[] {
+  return lexicon.filter(entry => entry.term.trim() && entry.respelling.trim() && !isIpaHint(entry))
+}
+
+export function applyLexicon(text: string, lexicon: LexiconEntry[]): string {
+  const entries = respelledEntries(lexicon)
+  const pattern = phrasePattern(entries.map(entry => entry.term))
+  if (!pattern) return text
+
+  const respellings = new Map(entries.map(entry => [entry.term.trim().toLowerCase(), entry.respelling.trim()]))
+  return text.replace(pattern, match => respellings.get(match.toLowerCase()) ?? match)
+}
+
+// Lines for the session instructions covering the IPA hints whose terms appear in the script
+export function buildPronunciationGuide(script: string, lexicon: LexiconEntry[]): string {
+  const text = renderPlainText(parseScript(script).nodes)
+  return lexicon
+    .filter(entry => isIpaHint(entry) && entry.term.trim() && phrasePattern([entry.term])!.test(text))
+    .map(entry => `- "${entry.term.trim()}" is pronounced ${entry.respelling.trim()}`)
+    .join('\n')
+}
+
+interface TimedWord {
+  text: string
+  start: number
+  end: number
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '')
+}
+
+/**
+ * Put the original spelling of respelled terms back into what the model said, so captions show
+ * "Nike" rather than "NYE-kee". Multi-word respellings are merged back into a single word.
+ */
+export function restoreLexicon<W extends TimedWord>(
+  transcript: string,
+  words: W[],
+  lexicon: LexiconEntry[]
+): { transcript: string; words: W[] } {
+  const entries = respelledEntries(lexicon)
+  const pattern = phrasePattern(entries.map(entry => entry.respelling))
+  if (!pattern) return { transcript, words }
+
+  const terms = new Map(entries.map(entry => [entry.respelling.trim().toLowerCase(), entry.term.trim()]))
+  const restoredTranscript = transcript.replace(pattern, match => terms.get(match.toLowerCase()) ?? match)
+
+  const candidates = entries
+    .map(entry => ({ term: entry.term.trim(), parts: entry.respelling.trim().split(/\s+/).map(normalizeWord) }))
+    .filter(candidate => candidate.parts.every(Boolean))
+    .sort((a, b) => b.parts.length - a.parts.length)
+
+  const restoredWords: W[] = []
+  for (let i = 0; i < words.length;) {
+    const match = candidates.find(candidate =>
+      candidate.parts.every((part, j) => i + j < words.length && normalizeWord(words[i + j].text) === part)
+    )
+    if (!match) {
+      restoredWords.push(words[i++])
+      continue
+    }
+
+    const first = words[i]
+    const last = words[i + match.parts.length - 1]
+    const leading = first.text.match(/^[^\p{L}\p{N}]*/u)![0]
+    const trailing = last.text.match(/[^\p{L}\p{N}]*$/u)![0]
+    restoredWords.push({ ...first, text: `${leading}${match.term}${trailing}`, end: last.end })
+    i += match.parts.length
+  }
+
+  return { transcript: restoredTranscript, words: restoredWords }
+}
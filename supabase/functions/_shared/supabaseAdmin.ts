@@ -0,0 +1,10 @@
+// Service-role client for the edge functions. It bypasses RLS, so check the caller before
+// reading or writing on their behalf.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+export const admin = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  { auth: { persistSession: false } }
+)
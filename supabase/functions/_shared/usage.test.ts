@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// Just enough of the service-role client for the limit check: the workspace's limit and spend, and
+// voice_generations with claim_generation_call
+const db = vi.hoisted(() => ({
+  limit: null as number | null,
+  spent: 0,
+  generations: new Map<string, number>(),
+}))
+
+vi.mock("./supabaseAdmin.ts", () => ({
+  admin: {
+    rpc: async (name: string, args: Record<string, string>) => {
+      if (name === 'get_monthly_voice_cost') return { data: db.spent, error: null }
+      if (name === 'claim_generation_call') {
+        const remaining = db.generations.get(args.generation_uuid) ?? 0
+        if (remaining > 0) db.generations.set(args.generation_uuid, remaining - 1)
+        return { data: remaining > 0, error: null }
+      }
+      return { data: null, error: { message: `No fake for ${name}` } }
+    },
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({
+            data: table === 'usage_limits' && db.limit !== null ? { monthly_cost_limit: db.limit } : null,
+            error: null,
+          }),
+        }),
+      }),
+      upsert: async (row: { id: string; remaining_calls: number }) => {
+        if (!db.generations.has(row.id)) db.generations.set(row.id, row.remaining_calls)
+        return { error: null }
+      },
+    }),
+  },
+}))
+
+const { checkGenerationLimit } = await import("./usage.ts")
+
+const GENERATION = '6f1c2d4e-8a3b-4c5d-9e6f-7a8b9c0d1e2f'
+
+beforeEach(() => {
+  db.limit = 10
+  db.spent = 0
+  db.generations.clear()
+})
+
+describe("checkGenerationLimit", () => {
+  it("lets only the declared follow-up calls of a started generation past the limit", async () => {
+    expect(await checkGenerationLimit('owner-1', GENERATION, 3)).toBeNull()
+
+    db.spent = 12
+    expect(await checkGenerationLimit('owner-1', GENERATION, 3)).toBeNull()
+    expect(await checkGenerationLimit('owner-1', GENERATION, 3)).toBeNull()
+    // Reusing the id once its calls are used up is checked like any other call
+    expect(await checkGenerationLimit('owner-1', GENERATION, 3)).toEqual({ limit: 10, spent: 12 })
+  })
+
+  it("records nothing for a generation refused at the start", async () => {
+    db.spent = 12
+    expect(await checkGenerationLimit('owner-1', GENERATION, 3)).toEqual({ limit: 10, spent: 12 })
+    expect(db.generations.size).toBe(0)
+  })
+
+  it("caps the follow-up calls a generation can declare", async () => {
+    await checkGenerationLimit('owner-1', GENERATION, 1000)
+    expect(db.generations.get(GENERATION)).toBe(49)
+  })
+
+  it.each([
+    ['no id', null],
+    ['an id that is not a UUID', 'generation-1'],
+  ])("checks every call with %s", async (_case, generationId) => {
+    expect(await checkGenerationLimit('owner-1', generationId, 3)).toBeNull()
+    db.spent = 12
+    expect(await checkGenerationLimit('owner-1', generationId, 3)).toEqual({ limit: 10, spent: 12 })
+    expect(db.generations.size).toBe(0)
+  })
+})
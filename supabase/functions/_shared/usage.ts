@@ -0,0 +1,130 @@
+// Usage metering: a voice_usage row per successful generation, and the optional monthly soft
+// limit in usage_limits that stops new generations once a workspace's estimated spend reaches it.
+
+import { admin } from "./supabaseAdmin.ts"
+import { estimateVoiceCost } from "./pricing.ts"
+
+export interface UsageRecord {
+  ownerId: string // workspace whose key paid for the generation
+  userId: string
+  userEmail?: string
+  projectId?: string | null
+  voice: string
+  characters: number
+  audioSeconds: number
+}
+
+// A workspace's monthly limit, once its spend this month has reached it
+export interface LimitReached {
+  limit: number
+  spent: number
+}
+
+// Most calls a generation can declare - 60,000 characters of script at the app's chunk size
+const MAX_GENERATION_CALLS = 50
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Record a generation. Never throws - the audio is already paid for, so a metering hiccup is
+ * logged rather than failing the request.
+ */
+export async function recordUsage(record: UsageRecord): Promise<void> {
+  try {
+    // Ids come from the request body, so only attribute to a project the caller can access. The
+    // usage itself is recorded either way.
+    let projectId: string | null = null
+    if (record.projectId && UUID_PATTERN.test(record.projectId)) {
+      const { data: projectIds, error: projectError } = await admin.rpc('get_accessible_project_ids', {
+        user_uuid: record.userId,
+      })
+      if (projectError) {
+        console.error('Failed to check project access:', projectError)
+      } else if (((projectIds ?? []) as string[]).includes(record.projectId)) {
+        projectId = record.projectId
+      }
+    }
+
+    const { error } = await admin.from('voice_usage').insert({
+      owner_id: record.ownerId,
+      user_id: record.userId,
+      user_email: record.userEmail ?? null,
+      project_id: projectId,
+      voice: record.voice,
+      characters: record.characters,
+      audio_seconds: Math.round(record.audioSeconds * 100) / 100,
+      estimated_cost: estimateVoiceCost(record.audioSeconds),
+    })
+    if (error) throw error
+  } catch (error) {
+    console.error('Failed to record usage:', error)
+  }
+}
+
+// Whether the workspace has a monthly limit and has reached it. Fails open if it can't tell.
+export async function checkMonthlyLimit(ownerId: string): Promise<LimitReached | null> {
+  try {
+    const { data: limitRow, error: limitError } = await admin
+      .from('usage_limits')
+      .select('monthly_cost_limit')
+      .eq('owner_id', ownerId)
+      .maybeSingle()
+    if (limitError) throw limitError
+    if (!limitRow) return null
+
+    const { data: spent, error: spentError } = await admin.rpc('get_monthly_voice_cost', { workspace_id: ownerId })
+    if (spentError) throw spentError
+
+    const limit = Number(limitRow.monthly_cost_limit)
+    return Number(spent) >= limit ? { limit, spent: Number(spent) } : null
+  } catch (error) {
+    console.error('Failed to check usage limit:', error)
+    return null
+  }
+}
+
+/**
+ * The limit check for one generate-voice call. Calls that share a generation id are one generation,
+ * and the first to arrive declares how many calls it has. That one is checked against the limit and
+ * only the declared number of follow-up calls are let through, so a generation that has started
+ * always finishes but its id can't be reused to get round the limit. Without an id every call is checked.
+ */
+export async function checkGenerationLimit(
+  ownerId: string,
+  generationId: string | null,
+  calls: number
+): Promise<LimitReached | null> {
+  const hasId = !!generationId && UUID_PATTERN.test(generationId)
+
+  if (hasId) {
+    try {
+      const { data: claimed, error } = await admin.rpc('claim_generation_call', {
+        workspace_id: ownerId,
+        generation_uuid: generationId,
+      })
+      if (error) throw error
+      if (claimed) return null
+    } catch (error) {
+      console.error('Failed to look up generation:', error)
+    }
+  }
+
+  const limitReached = await checkMonthlyLimit(ownerId)
+  const followUps = Math.min(calls, MAX_GENERATION_CALLS) - 1
+  if (!limitReached && hasId && followUps > 0) {
+    // Concurrent first calls each pass the check above, and only one of their rows is kept
+    const { error } = await admin
+      .from('voice_generations')
+      .upsert(
+        { id: generationId, owner_id: ownerId, remaining_calls: followUps },
+        { onConflict: 'owner_id,id', ignoreDuplicates: true }
+      )
+    if (error) console.error('Failed to record generation:', error)
+  }
+  return limitReached
+}
+
+export function limitReachedMessage({ limit, spent }: LimitReached): string {
+  return `Monthly voice budget reached: $${spent.toFixed(2)} of $${limit.toFixed(2)} used. ` +
+    'The workspace owner can raise the limit on the Usage page.'
+}
@@ -0,0 +1,76 @@
+// Word timings from streamed transcript deltas. Shared with the app through src/utils/wordTimings.ts,
+// so keep this file free of Deno APIs.
+
+export interface WordTimestamp {
+  text: string
+  start: number // seconds from the start of the audio
+  end: number
+}
+
+// The realtime API streams 24 kHz 16-bit mono PCM
+export const PCM16_BYTES_PER_SECOND = 24000 * 2
+
+// A transcript delta and how much audio had been received when it arrived
+export interface TranscriptMark {
+  text: string
+  audioBytes: number
+}
+
+// Decoded size of a base64 chunk without decoding it
+export function base64ByteLength(base64: string): number {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0
+  return Math.floor((base64.length * 3) / 4) - padding
+}
+
+/**
+ * Estimate per-word start/end times from streamed transcript deltas.
+ * Each delta is pinned to the audio position at which it arrived and its characters are spread
+ * evenly up to the next delta. If the transcript ran well ahead of the audio (all marks bunched
+ * at the start), the offsets carry no timing information and we fall back to sharing the
+ * duration out by character count.
+ */
+export function alignTranscriptWords(
+  marks: TranscriptMark[],
+  totalAudioBytes: number,
+  bytesPerSecond = PCM16_BYTES_PER_SECOND
+): WordTimestamp[] {
+  const totalDuration = totalAudioBytes / bytesPerSecond
+  const text = marks.map(mark => mark.text).join('')
+  if (!text.trim() || totalDuration <= 0) return []
+
+  const lastMarkTime = marks.length > 0 ? marks[marks.length - 1].audioBytes / bytesPerSecond : 0
+  const useMarks = lastMarkTime >= totalDuration / 2
+
+  // Start time of every character, plus a sentinel for the end of the audio
+  const charTimes: number[] = []
+  if (useMarks) {
+    let previousStart = 0
+    marks.forEach((mark, i) => {
+      const start = Math.min(totalDuration, Math.max(previousStart, mark.audioBytes / bytesPerSecond))
+      const nextStart = i + 1 < marks.length ? marks[i + 1].audioBytes / bytesPerSecond : totalDuration
+      const end = Math.min(totalDuration, Math.max(start, nextStart))
+      for (let j = 0; j < mark.text.length; j++) {
+        charTimes.push(start + (end - start) * (j / mark.text.length))
+      }
+      previousStart = start
+    })
+  } else {
+    for (let j = 0; j < text.length; j++) {
+      charTimes.push(totalDuration * (j / text.length))
+    }
+  }
+  charTimes.push(totalDuration)
+
+  const words: WordTimestamp[] = []
+  const wordPattern = /\S+/g
+  let match: RegExpExecArray | null
+  while ((match = wordPattern.exec(text)) !== null) {
+    words.push({
+      text: match[0],
+      start: charTimes[match.index],
+      end: charTimes[match.index + match[0].length],
+    })
+  }
+
+  return words
+}
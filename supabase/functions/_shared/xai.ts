@@ -0,0 +1,15 @@
+// xAI endpoints. Set XAI_API_URL (e.g. http://localhost:8787) to point the functions at the
+// mock realtime server in supabase/mock-realtime instead of the live API.
+const XAI_API_URL = (Deno.env.get('XAI_API_URL') || 'https://api.x.ai').replace(/\/+$/, '')
+
+export const XAI_CLIENT_SECRETS_URL = `${XAI_API_URL}/v1/realtime/client_secrets`
+export const XAI_REALTIME_URL = `${XAI_API_URL.replace(/^http/, 'ws')}/v1/realtime`
+
+// What to tell the user when client_secrets rejects a key
+export function clientSecretErrorMessage(status: number): string {
+  if (status === 401) return 'Invalid API key. Please check your xAI API key.'
+  if (status === 402) return 'Payment required. Please add billing to your xAI account at console.x.ai'
+  if (status === 403) return 'Voice API not enabled. Please create a new API key with realtime permissions at console.x.ai'
+  if (status === 429) return 'Rate limited. Please wait a moment and try again.'
+  return 'Failed to get token from xAI'
+}
@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { clientSecretErrorMessage, XAI_CLIENT_SECRETS_URL } from "../_shared/xai.ts"
+import { deleteApiKey, getCaller, getKeyStatus, storeApiKey } from "../_shared/keyVault.ts"
+
+// Manage the caller's stored xAI key. POST { action: 'status' | 'save' | 'delete', apiKey? }.
+// Responds with { key: { last4, shared, updatedAt } | null } - the key itself never comes back.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// Ask xAI for a short-lived client secret, which only works with a key that has realtime access
+async function validateApiKey(apiKey: string): Promise<{ status: number; details: string } | null> {
+  const response = await fetch(XAI_CLIENT_SECRETS_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ expires_after: { seconds: 60 } }),
+  })
+
+  if (response.ok) return null
+  const details = await response.text().catch(() => '')
+  console.error('xAI rejected key:', response.status, details)
+  return { status: response.status, details }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const user = await getCaller(req)
+    if (!user) {
+      return json({ error: 'Please sign in to manage your API key' }, 401)
+    }
+
+    const { action, apiKey } = await req.json()
+
+    switch (action) {
+      case 'status':
+        return json({ key: await getKeyStatus(user.id) })
+
+      case 'save': {
+        const key = typeof apiKey === 'string' ? apiKey.trim() : ''
+        if (!key.startsWith('xai-')) {
+          return json({ error: 'Invalid API key format. xAI keys should start with "xai-"' }, 400)
+        }
+
+        const rejection = await validateApiKey(key)
+        if (rejection) {
+          return json(
+            { error: clientSecretErrorMessage(rejection.status), details: rejection.details, status: rejection.status },
+            rejection.status
+          )
+        }
+
+        return json({ key: await storeApiKey(user.id, key) })
+      }
+
+      case 'delete':
+        await deleteApiKey(user.id)
+        // Falls back to a workspace key if there is one
+        return json({ key: await getKeyStatus(user.id) })
+
+      default:
+        return json({ error: `Unknown action: ${action}` }, 400)
+    }
+  } catch (error) {
+    console.error('Edge function error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return json({ error: 'Internal server error', details: errorMessage }, 500)
+  }
+})
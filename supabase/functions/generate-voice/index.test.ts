@@ -0,0 +1,241 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { WebSocket } from "ws"
+import { MockRealtimeServer, startMockRealtime } from "../../mock-realtime/nodeServer.ts"
+import { WordTimestamp } from "../_shared/wordTimings.ts"
+
+// The function runs as it would under Deno, with serve() handing over its handler and the
+// workspace lookups and metering stubbed out
+const edge = vi.hoisted(() => ({
+  handler: null as ((req: Request) => Promise<Response>) | null,
+  apiKey: 'xai-mock-ok',
+  checkGenerationLimit: vi.fn(async (): Promise<{ limit: number; spent: number } | null> => null),
+  recordUsage: vi.fn(async (_record: { audioSeconds: number }) => {}),
+}))
+
+vi.mock("https://deno.land/std@0.168.0/http/server.ts", () => ({
+  serve: (handler: (req: Request) => Promise<Response>) => {
+    edge.handler = handler
+  },
+}))
+
+vi.mock("../_shared/keyVault.ts", () => ({
+  getCaller: async () => ({ id: 'user-1', email: 'user@example.com' }),
+  resolveApiKey: async () => ({ apiKey: edge.apiKey, ownerId: 'owner-1' }),
+}))
+
+vi.mock("../_shared/usage.ts", () => ({
+  checkGenerationLimit: edge.checkGenerationLimit,
+  limitReachedMessage: () => 'Monthly voice budget reached',
+  recordUsage: edge.recordUsage,
+}))
+
+// Each word the mock reads is 0.3 s of tone and 0.05 s of silence, 24 kHz 16-bit mono
+const WORD_SECONDS = 0.35
+const WORD_BYTES = WORD_SECONDS * 24000 * 2
+const SCRIPT = 'Hello there [pause:1s] General Kenobi'
+
+// The fields of the streamed events these tests read
+interface StreamEvent {
+  type: string
+  delta?: string
+  transcript?: string
+  words?: WordTimestamp[]
+  duration?: number
+}
+
+let mock: MockRealtimeServer
+
+beforeAll(async () => {
+  mock = await startMockRealtime({ eventDelayMs: 0 })
+  vi.stubGlobal('Deno', { env: { get: (name: string) => (name === 'XAI_API_URL' ? mock.url : undefined) } })
+  vi.stubGlobal('WebSocket', WebSocket)
+  await import("./index.ts")
+})
+
+afterAll(async () => {
+  vi.unstubAllGlobals()
+  await mock.close()
+})
+
+beforeEach(() => {
+  edge.apiKey = 'xai-mock-ok'
+  edge.checkGenerationLimit.mockClear()
+  edge.recordUsage.mockClear()
+  mock.received.length = 0
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+function generate(body: Record<string, unknown>): Promise<Response> {
+  return edge.handler!(new Request('http://localhost/functions/v1/generate-voice', {
+    method: 'POST',
+    body: JSON.stringify({ voice: 'Ara', ...body }),
+  }))
+}
+
+async function streamEvents(response: Response): Promise<StreamEvent[]> {
+  const text = await response.text()
+  return text.trim().split('\n').map(line => JSON.parse(line))
+}
+
+function expectWordsInTones(words: WordTimestamp[]) {
+  expect(words.map(word => word.text)).toEqual(['Hello', 'there', 'General', 'Kenobi'])
+  // Each word starts within its own tone, the second piece after the first and the pause
+  const tones = [0, 0.35, 1.7, 2.05]
+  tones.forEach((tone, i) => {
+    expect(words[i].start).toBeGreaterThanOrEqual(tone)
+    expect(words[i].start).toBeLessThan(tone + WORD_SECONDS)
+  })
+  expect(words[3].end).toBeCloseTo(2.4)
+}
+
+describe("generate-voice", () => {
+  it("reads each piece between pauses and splices the pause in as silence", async () => {
+    const response = await generate({ script: SCRIPT })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.success).toBe(true)
+    expect(data.transcript).toBe('Hello there General Kenobi')
+    expect(data.duration).toBeCloseTo((4 * WORD_BYTES + 48000) / 48000)
+    expect(atob(data.audio).length).toBe(44 + 4 * WORD_BYTES + 48000)
+    expectWordsInTones(data.words)
+
+    expect(mock.received.filter(type => type === 'session.update')).toHaveLength(2)
+    expect(edge.recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      ownerId: 'owner-1',
+      characters: SCRIPT.length,
+      audioSeconds: data.duration,
+    }))
+  })
+
+  it("streams the audio and transcript as they arrive", async () => {
+    const response = await generate({ script: SCRIPT, stream: true })
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+
+    const events = await streamEvents(response)
+    const audioBytes = events
+      .filter(event => event.type === 'audio')
+      .reduce((total, event) => total + atob(event.delta).length, 0)
+    const transcript = events
+      .filter(event => event.type === 'transcript')
+      .map(event => event.delta)
+      .join('')
+    const done = events[events.length - 1]
+
+    expect(audioBytes).toBe(4 * WORD_BYTES + 48000)
+    expect(transcript).toBe('Hello there General Kenobi')
+    expect(done).toMatchObject({ type: 'done', transcript: 'Hello there General Kenobi' })
+    expect(done.duration).toBeCloseTo(audioBytes / 48000)
+    expectWordsInTones(done.words)
+  })
+
+  it.each([
+    ['401', '401 Unauthorized - Invalid API key', 'Invalid API key. Check your xAI API key at console.x.ai'],
+    ['402', '402 Payment Required - Add credits at console.x.ai', 'Billing issue. Add credits at console.x.ai'],
+    ['403', '403 Forbidden', 'Voice API not enabled. Create a new API key at console.x.ai with "realtime" endpoint enabled.'],
+    ['429', 'Failed to get ephemeral token: 429', 'Rate limited. Please wait a moment and try again.'],
+    ['error', 'Mock realtime failure', 'Mock realtime failure'],
+    ['empty', 'No audio generated', 'No audio generated. Try a different script or voice.'],
+    ['drop', 'Connection closed unexpectedly: 4000 Mock connection dropped', 'Connection closed unexpectedly: 4000 Mock connection dropped'],
+  ])("fails the %s scenario with a message the user can act on", async (scenario, details, error) => {
+    edge.apiKey = `xai-mock-${scenario}`
+    const response = await generate({ script: SCRIPT })
+    const data = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(data.details).toContain(details)
+    expect(data.error).toBe(error)
+  })
+
+  it.each(['401', '402', '403', '429', 'error', 'empty'])("records no usage when the %s scenario produces no audio", async (scenario) => {
+    edge.apiKey = `xai-mock-${scenario}`
+    await (await generate({ script: SCRIPT })).json()
+    expect(edge.recordUsage).not.toHaveBeenCalled()
+  })
+
+  it("records the audio of a read that fails part way", async () => {
+    edge.apiKey = 'xai-mock-drop'
+    await (await generate({ script: 'One two three four' })).json()
+
+    // The mock drops the socket after two of the four words
+    expect(edge.recordUsage).toHaveBeenCalledTimes(1)
+    expect(edge.recordUsage).toHaveBeenCalledWith(expect.objectContaining({ audioSeconds: 2 * WORD_SECONDS }))
+  })
+
+  it("records the audio streamed before the app stops reading", async () => {
+    const reader = (await generate({ script: SCRIPT, stream: true })).body!.getReader()
+    const decoder = new TextDecoder()
+    let received = ''
+    while (!received.includes('"type":"audio"')) {
+      const { value } = await reader.read()
+      received += decoder.decode(value, { stream: true })
+    }
+    await reader.cancel()
+
+    await vi.waitFor(() => expect(edge.recordUsage).toHaveBeenCalledTimes(1))
+    const [{ audioSeconds }] = edge.recordUsage.mock.calls[0]
+    expect(audioSeconds).toBeGreaterThan(0)
+    expect(audioSeconds).toBeLessThan((4 * WORD_BYTES + 48000) / 48000)
+  })
+
+  it("removes each piece's abort listener once the piece is read", async () => {
+    const added = vi.spyOn(AbortSignal.prototype, 'addEventListener')
+    const removed = vi.spyOn(AbortSignal.prototype, 'removeEventListener')
+    await streamEvents(await generate({ script: SCRIPT, stream: true }))
+
+    // fetch registers listeners of its own, so only look at the function's
+    const abortListeners = (spy: typeof added) => spy.mock.calls
+      .filter(([type, listener]) => type === 'abort' && (listener as () => void).name === 'onAbort')
+      .map(([, listener]) => listener)
+    expect(abortListeners(added)).toHaveLength(2)
+    expect(abortListeners(removed)).toEqual(abortListeners(added))
+  })
+
+  it("checks the monthly limit against the generation the call belongs to", async () => {
+    const generationId = crypto.randomUUID()
+    await (await generate({ script: 'Hello there', generationId, chunkCount: 3 })).json()
+    expect(edge.checkGenerationLimit).toHaveBeenCalledWith('owner-1', generationId, 3)
+
+    // Without a chunk count the call is a generation of its own
+    await (await generate({ script: 'Hello there', generationId, chunkCount: 'lots' })).json()
+    expect(edge.checkGenerationLimit).toHaveBeenLastCalledWith('owner-1', generationId, 1)
+
+    mock.received.length = 0
+    edge.checkGenerationLimit.mockResolvedValueOnce({ limit: 10, spent: 10 })
+    const response = await generate({ script: 'Hello there', generationId: crypto.randomUUID() })
+    expect(response.status).toBe(402)
+    expect(await response.json()).toEqual({ error: 'Monthly voice budget reached', code: 'usage_limit_reached' })
+    expect(mock.received).not.toContain('session.update')
+  })
+
+  it("ends a stream with an error event when xAI reports one", async () => {
+    edge.apiKey = 'xai-mock-error'
+    const events = await streamEvents(await generate({ script: SCRIPT, stream: true }))
+
+    expect(events[events.length - 1]).toEqual({
+      type: 'error',
+      error: 'Mock realtime failure',
+      details: 'Mock realtime failure',
+    })
+    expect(edge.recordUsage).not.toHaveBeenCalled()
+  })
+
+  it("times out when the session goes quiet", async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'], shouldAdvanceTime: true })
+    edge.apiKey = 'xai-mock-silent'
+
+    const generation = generate({ script: 'Hello there' })
+    await vi.waitFor(() => expect(mock.received).toContain('session.update'))
+    await vi.advanceTimersByTimeAsync(60000)
+
+    const response = await generation
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toBe('WebSocket timeout - no response after 60 seconds')
+  })
+})
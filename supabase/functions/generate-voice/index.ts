@@ -1,4 +1,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import {
+  LexiconEntry,
+  buildPronunciationGuide,
+  prepareScriptForVoice,
+  restoreLexicon,
+  ScriptPiece,
+  splitAtPauses,
+} from "../_shared/scriptTags.ts"
+import { XAI_CLIENT_SECRETS_URL, XAI_REALTIME_URL } from "../_shared/xai.ts"
+import { getCaller, resolveApiKey } from "../_shared/keyVault.ts"
+import { checkGenerationLimit, limitReachedMessage, recordUsage } from "../_shared/usage.ts"
+import {
+  alignTranscriptWords,
+  base64ByteLength,
+  PCM16_BYTES_PER_SECOND,
+  TranscriptMark,
+  WordTimestamp,
+} from "../_shared/wordTimings.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,50 +31,141 @@ serve(async (req) => {
   }
 
   try {
-    const { apiKey, script, voice, styleInstructions } = await req.json()
+    const user = await getCaller(req)
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: 'Please sign in to generate voiceovers' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { script, voice, styleInstructions, lexicon: rawLexicon, stream, projectId, generationId, chunkCount } = await req.json()
+
+    // Pronunciation lexicon from the workspace - respellings go into the script, IPA hints into the instructions
+    const lexicon: LexiconEntry[] = Array.isArray(rawLexicon)
+      ? rawLexicon.filter(entry => typeof entry?.term === 'string' && typeof entry?.respelling === 'string')
+      : []
 
     // Use provided style instructions or default
-    const finalStyleInstructions = styleInstructions || 'Read the script naturally with clear pronunciation.';
+    const pronunciationGuide = typeof script === 'string' ? buildPronunciationGuide(script, lexicon) : ''
+    const finalStyleInstructions = (styleInstructions || 'Read the script naturally with clear pronunciation.') +
+      (pronunciationGuide ? `\n\nPRONUNCIATION GUIDE:\n${pronunciationGuide}` : '');
+
+    if (!script) {
+      return new Response(
+        JSON.stringify({ error: 'Script is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-    if (!apiKey || !script) {
+    // The key is looked up from the caller's workspace, never sent by the browser
+    const resolvedKey = await resolveApiKey(user.id)
+    if (!resolvedKey) {
       return new Response(
-        JSON.stringify({ error: 'API key and script are required' }),
+        JSON.stringify({ error: 'No xAI API key saved. Add one with the API Key button.' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Validate API key format
-    if (!apiKey.startsWith('xai-')) {
+    // Soft limit: checked when a generation starts. The app sends each chunk of a long script with
+    // the same generation id and the number of chunks, and that many later chunks skip the check so
+    // the generation isn't cut off part way.
+    const limitReached = await checkGenerationLimit(
+      resolvedKey.ownerId,
+      typeof generationId === 'string' ? generationId : null,
+      Number.isInteger(chunkCount) ? chunkCount : 1
+    )
+    if (limitReached) {
+      return new Response(
+        JSON.stringify({ error: limitReachedMessage(limitReached), code: 'usage_limit_reached' }),
+        { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Pauses are cut out of the script and spliced back in as exact silence, so each stretch
+    // between them is read in its own session
+    const pieces = splitAtPauses(script)
+    if (!pieces.some(piece => piece.script)) {
       return new Response(
-        JSON.stringify({ error: 'Invalid API key format. xAI keys should start with "xai-"' }),
+        JSON.stringify({ error: 'Script has nothing to read' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    // Process script - convert style tags to natural language hints
-    const processedScript = script
-      .replace(/\[whisper\](.*?)\[\/whisper\]/gi, '(softly) $1')
-      .replace(/\[excited\](.*?)\[\/excited\]/gi, '(enthusiastically) $1')
-      .replace(/\[serious\](.*?)\[\/serious\]/gi, '(seriously) $1')
-      .replace(/\[slow\](.*?)\[\/slow\]/gi, '(slowly) $1')
-      .replace(/\[fast\](.*?)\[\/fast\]/gi, '(quickly) $1')
-      .replace(/\[emphasis\](.*?)\[\/emphasis\]/gi, '(emphasizing) $1')
-      .replace(/\[sad\](.*?)\[\/sad\]/gi, '(sadly) $1')
-      .replace(/\[happy\](.*?)\[\/happy\]/gi, '(cheerfully) $1')
-      .replace(/\[angry\](.*?)\[\/angry\]/gi, '(angrily) $1')
-      .replace(/\[pause:?\d*s?\]/gi, '...')
+    const generation = {
+      apiKey: resolvedKey.apiKey,
+      pieces,
+      voice: voice || 'tara',
+      styleInstructions: finalStyleInstructions,
+      lexicon,
+    }
+
+    // Recorded once generation stops, with the length of the audio produced. xAI bills for every
+    // piece it read, so a generation that is cancelled or fails part way is recorded too.
+    const usage = {
+      ownerId: resolvedKey.ownerId,
+      userId: user.id,
+      userEmail: user.email,
+      projectId: typeof projectId === 'string' ? projectId : null,
+      voice: generation.voice,
+      characters: script.length,
+    }
 
-    console.log('Generating voice with:', { voice: voice || 'tara', scriptLength: processedScript.length })
+    // Streamed as newline-delimited JSON events so the app can play the audio while it generates
+    if (stream) {
+      const encoder = new TextEncoder()
+      const abort = new AbortController()
+      const body = new ReadableStream({
+        async start(controller) {
+          const send = (event: StreamEvent) => {
+            if (!abort.signal.aborted) controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'))
+          }
+          const produced = { bytes: 0 }
+          try {
+            const result = await generatePieces(generation, produced, send, abort.signal)
+            const duration = result.pcm.length / PCM16_BYTES_PER_SECOND
+            send({ type: 'done', transcript: result.transcript, words: result.words, duration })
+          } catch (error) {
+            console.error('Voice generation error:', error)
+            const errorMessage = error instanceof Error ? error.message : 'Voice generation failed'
+            send({ type: 'error', error: getUserMessage(errorMessage), details: errorMessage })
+          } finally {
+            if (produced.bytes > 0) {
+              await recordUsage({ ...usage, audioSeconds: produced.bytes / PCM16_BYTES_PER_SECOND })
+            }
+          }
+          if (!abort.signal.aborted) controller.close()
+        },
+        // The app stopped reading - close the xAI session rather than pay for the rest
+        cancel() {
+          abort.abort()
+        },
+      })
+
+      return new Response(body, {
+        headers: { ...corsHeaders, 'Content-Type': 'application/x-ndjson' },
+      })
+    }
 
-    // Connect to xAI WebSocket and generate audio
-    const audioData = await generateVoiceoverViaWebSocket(apiKey, processedScript, voice || 'tara', finalStyleInstructions)
+    const produced = { bytes: 0 }
+    let result: Awaited<ReturnType<typeof generatePieces>>
+    try {
+      result = await generatePieces(generation, produced)
+    } finally {
+      if (produced.bytes > 0) {
+        await recordUsage({ ...usage, audioSeconds: produced.bytes / PCM16_BYTES_PER_SECOND })
+      }
+    }
+    const duration = result.pcm.length / PCM16_BYTES_PER_SECOND
 
     // Return audio as base64
     return new Response(
       JSON.stringify({
         success: true,
-        audio: audioData.audio,
-        transcript: audioData.transcript,
+        audio: createWavFromPcm(result.pcm),
+        transcript: result.transcript,
+        words: result.words,
+        duration,
         format: 'wav'
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -66,31 +175,107 @@ serve(async (req) => {
     console.error('Voice generation error:', error)
 
     const errorMessage = error instanceof Error ? error.message : 'Voice generation failed'
-    let userMessage = errorMessage
-
-    // Provide helpful error messages
-    if (errorMessage.includes('not authorized') || errorMessage.includes('permission') || errorMessage.includes('403')) {
-      userMessage = 'Voice API not enabled. Create a new API key at console.x.ai with "realtime" endpoint enabled.'
-    } else if (errorMessage.includes('401') || errorMessage.includes('Unauthorized') || errorMessage.includes('invalid')) {
-      userMessage = 'Invalid API key. Check your xAI API key at console.x.ai'
-    } else if (errorMessage.includes('402') || errorMessage.includes('billing') || errorMessage.includes('payment')) {
-      userMessage = 'Billing issue. Add credits at console.x.ai'
-    } else if (errorMessage.includes('429') || errorMessage.includes('rate')) {
-      userMessage = 'Rate limited. Please wait a moment and try again.'
-    } else if (errorMessage.includes('1006') || errorMessage.includes('abnormal')) {
-      userMessage = 'Connection failed. Verify your API key has realtime/voice permissions at console.x.ai'
-    }
 
     return new Response(
-      JSON.stringify({ error: userMessage, details: errorMessage }),
+      JSON.stringify({ error: getUserMessage(errorMessage), details: errorMessage }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     )
   }
 })
 
+// Provide helpful error messages
+function getUserMessage(errorMessage: string): string {
+  if (errorMessage.includes('not authorized') || errorMessage.includes('permission') || errorMessage.includes('403')) {
+    return 'Voice API not enabled. Create a new API key at console.x.ai with "realtime" endpoint enabled.'
+  } else if (errorMessage.includes('401') || errorMessage.includes('Unauthorized') || errorMessage.includes('invalid')) {
+    return 'Invalid API key. Check your xAI API key at console.x.ai'
+  } else if (errorMessage.includes('402') || errorMessage.includes('billing') || errorMessage.includes('payment')) {
+    return 'Billing issue. Add credits at console.x.ai'
+  } else if (errorMessage.includes('429') || /rate.?limit/i.test(errorMessage)) {
+    return 'Rate limited. Please wait a moment and try again.'
+  } else if (errorMessage.includes('1006') || errorMessage.includes('abnormal')) {
+    return 'Connection failed. Verify your API key has realtime/voice permissions at console.x.ai'
+  }
+  return errorMessage
+}
+
+// Events of a streamed generation. Audio is 24 kHz 16-bit mono PCM in script order, pauses
+// included; `done` carries the final transcript and word timings (audio is not repeated).
+type StreamEvent =
+  | { type: 'audio'; delta: string }
+  | { type: 'transcript'; delta: string }
+  | { type: 'done'; transcript: string; words: WordTimestamp[]; duration: number } // seconds
+  | { type: 'error'; error: string; details: string }
+
+interface Generation {
+  apiKey: string
+  pieces: ScriptPiece[]
+  voice: string
+  styleInstructions: string
+  lexicon: LexiconEntry[]
+}
+
+// Read each stretch between pauses in its own session and splice the pauses in as silence.
+// `produced` counts the audio bytes as they arrive, including those of a piece cut off part way.
+async function generatePieces(
+  { apiKey, pieces, voice, styleInstructions, lexicon }: Generation,
+  produced: { bytes: number },
+  onEvent?: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<{ pcm: Uint8Array; transcript: string; words: WordTimestamp[] }> {
+  const pcmParts: Uint8Array[] = []
+  const transcripts: string[] = []
+  const words: WordTimestamp[] = []
+  let pcmLength = 0
+
+  for (const piece of pieces) {
+    if (signal?.aborted) throw new Error('Generation cancelled')
+
+    if (piece.script) {
+      // Process script - convert style tags to natural language hints
+      const processedScript = prepareScriptForVoice(piece.script, lexicon)
+      console.log('Generating voice with:', { voice, scriptLength: processedScript.length })
+
+      if (transcripts.length > 0) onEvent?.({ type: 'transcript', delta: ' ' })
+
+      // Connect to xAI WebSocket and generate audio
+      const onPieceEvent = (event: StreamEvent) => {
+        if (event.type === 'audio') produced.bytes += base64ByteLength(event.delta)
+        onEvent?.(event)
+      }
+      const result = await generateVoiceoverViaWebSocket(apiKey, processedScript, voice, styleInstructions, onPieceEvent, signal)
+
+      // Captions should show the terms as written, not their respellings
+      const restored = restoreLexicon(result.transcript, result.words, lexicon)
+      const offset = pcmLength / PCM16_BYTES_PER_SECOND
+      words.push(...restored.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })))
+      transcripts.push(restored.transcript)
+      pcmParts.push(result.pcm)
+      pcmLength += result.pcm.length
+    }
+
+    if (piece.pauseAfter > 0) {
+      const silence = new Uint8Array(Math.round(piece.pauseAfter * PCM16_BYTES_PER_SECOND / 2) * 2)
+      onEvent?.({ type: 'audio', delta: encodeBase64(silence) })
+      produced.bytes += silence.length
+      pcmParts.push(silence)
+      pcmLength += silence.length
+    }
+  }
+
+  const pcm = new Uint8Array(pcmLength)
+  let position = 0
+  for (const part of pcmParts) {
+    pcm.set(part, position)
+    position += part.length
+  }
+
+  return { pcm, transcript: transcripts.join(' ').trim(), words }
+}
+
 // First, get an ephemeral token from xAI (recommended for WebSocket connections)
 async function getEphemeralToken(apiKey: string): Promise<string> {
-  const response = await fetch('https://api.x.ai/v1/realtime/client_secrets', {
+  const response = await fetch(XAI_CLIENT_SECRETS_URL, {
     method: 'POST',
     headers: {
       'Authorization': `Bearer ${apiKey}`,
@@ -124,8 +309,10 @@ async function generateVoiceoverViaWebSocket(
   apiKey: string,
   script: string,
   voice: string,
-  styleInstructions: string
-): Promise<{ audio: string; transcript: string }> {
+  styleInstructions: string,
+  onEvent?: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<{ pcm: Uint8Array; transcript: string; words: WordTimestamp[] }> {
   // Get ephemeral token first (this validates the API key has realtime permissions)
   console.log('Getting ephemeral token from xAI...')
   const ephemeralToken = await getEphemeralToken(apiKey)
@@ -135,22 +322,40 @@ async function generateVoiceoverViaWebSocket(
   }
   console.log('Got ephemeral token, connecting to WebSocket...')
 
-  return new Promise((resolve, reject) => {
+  // Removed once the piece settles, so a long generation doesn't pile listeners onto the signal
+  let onAbort: () => void
+  return new Promise<{ pcm: Uint8Array; transcript: string; words: WordTimestamp[] }>((resolve, reject) => {
     const audioChunks: string[] = []
     let transcript = ''
+    const transcriptMarks: TranscriptMark[] = []
+    let audioBytes = 0
 
     // Connect using OpenAI-compatible subprotocol with ephemeral token
     // xAI is compatible with OpenAI Realtime API
-    const ws = new WebSocket('wss://api.x.ai/v1/realtime', [
+    const ws = new WebSocket(XAI_REALTIME_URL, [
       'realtime',
       `openai-insecure-api-key.${ephemeralToken}`,
       'openai-beta.realtime-v1'
     ])
 
-    const timeout = setTimeout(() => {
+    // Restarted on every message, so long reads don't time out while audio is still streaming
+    let timeout: ReturnType<typeof setTimeout>
+    const armTimeout = () => {
+      clearTimeout(timeout)
+      timeout = setTimeout(() => {
+        ws.close()
+        reject(new Error('WebSocket timeout - no response after 60 seconds'))
+      }, 60000)
+    }
+    armTimeout()
+
+    onAbort = () => {
+      clearTimeout(timeout)
       ws.close()
-      reject(new Error('WebSocket timeout - no response after 60 seconds'))
-    }, 60000)
+      reject(new Error('Generation cancelled'))
+    }
+    if (signal?.aborted) onAbort()
+    else signal?.addEventListener('abort', onAbort, { once: true })
 
     ws.onopen = () => {
       console.log('WebSocket connected to xAI')
@@ -198,12 +403,15 @@ ${script}`,
 
     ws.onmessage = (event) => {
       try {
+        armTimeout()
         const data = JSON.parse(event.data as string)
 
         // Collect audio chunks
         if (data.type === 'response.audio.delta' || data.type === 'response.output_audio.delta') {
           if (data.delta) {
             audioChunks.push(data.delta)
+            audioBytes += base64ByteLength(data.delta)
+            onEvent?.({ type: 'audio', delta: data.delta })
           }
         }
 
@@ -211,6 +419,9 @@ ${script}`,
         if (data.type === 'response.audio_transcript.delta' || data.type === 'response.output_audio_transcript.delta') {
           if (data.delta) {
             transcript += data.delta
+            // Remember where in the audio this text arrived, for word timings
+            transcriptMarks.push({ text: data.delta, audioBytes })
+            onEvent?.({ type: 'transcript', delta: data.delta })
           }
         }
 
@@ -226,12 +437,17 @@ ${script}`,
 
           console.log('Audio generation complete, chunks:', audioChunks.length)
 
-          // Combine audio chunks and create WAV
-          const combinedAudio = audioChunks.join('')
-          const wavBase64 = createWavFromPcm(combinedAudio)
+          // Combine audio chunks into one PCM buffer
+          const pcm = new Uint8Array(audioBytes)
+          let position = 0
+          for (const chunk of audioChunks) {
+            const bytes = decodeBase64(chunk)
+            pcm.set(bytes.subarray(0, pcm.length - position), position)
+            position += bytes.length
+          }
 
           ws.close()
-          resolve({ audio: wavBase64, transcript })
+          resolve({ pcm, transcript, words: alignTranscriptWords(transcriptMarks, audioBytes) })
         }
 
         // Handle errors from xAI
@@ -251,23 +467,32 @@ ${script}`,
       reject(new Error('WebSocket connection failed. Check API key permissions.'))
     }
 
+    // A no-op once the response has resolved; otherwise the read was cut off part way
     ws.onclose = (event) => {
       clearTimeout(timeout)
-      if (!event.wasClean && audioChunks.length === 0) {
-        reject(new Error(`Connection closed unexpectedly: ${event.code} ${event.reason || 'Unknown reason'}`))
-      }
+      reject(new Error(`Connection closed unexpectedly: ${event.code} ${event.reason || 'Unknown reason'}`))
     }
-  })
+  }).finally(() => signal?.removeEventListener('abort', onAbort))
 }
 
-function createWavFromPcm(base64Pcm: string): string {
-  // Decode base64 to bytes
-  const binaryString = atob(base64Pcm)
-  const pcmBytes = new Uint8Array(binaryString.length)
+function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64)
+  const bytes = new Uint8Array(binaryString.length)
   for (let i = 0; i < binaryString.length; i++) {
-    pcmBytes[i] = binaryString.charCodeAt(i)
+    bytes[i] = binaryString.charCodeAt(i)
   }
+  return bytes
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
 
+function createWavFromPcm(pcmBytes: Uint8Array): string {
   // WAV header parameters
   const sampleRate = 24000
   const numChannels = 1
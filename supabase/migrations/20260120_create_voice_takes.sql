@@ -0,0 +1,116 @@
+-- ============================================
+-- VOICE TAKES TABLE
+-- Generation history for VoiceForge sessions opened from a project.
+-- Audio lives in the voicespark-projects bucket under <project_id>/assets/.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS voice_takes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  name TEXT NOT NULL,
+  starred BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Everything needed to re-generate the take
+  script TEXT NOT NULL,
+  voice TEXT NOT NULL,
+  preset_id TEXT,
+  traits JSONB NOT NULL DEFAULT '[]',
+  settings JSONB NOT NULL DEFAULT '{}',
+
+  -- Output
+  transcript TEXT NOT NULL DEFAULT '',
+  words JSONB NOT NULL DEFAULT '[]',
+  duration DOUBLE PRECISION,
+  format TEXT NOT NULL DEFAULT 'wav',
+  storage_path TEXT NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_takes_project ON voice_takes(project_id, created_at DESC);
+
+-- ============================================
+-- ROW LEVEL SECURITY POLICIES
+-- Anyone who can open the project can see its takes; only the owner and
+-- editors can add, change or delete them
+-- ============================================
+
+ALTER TABLE voice_takes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "voice_takes_select"
+ON voice_takes FOR SELECT
+USING (project_id IN (SELECT get_accessible_project_ids(auth.uid())));
+
+CREATE POLICY "voice_takes_insert"
+ON voice_takes FOR INSERT
+WITH CHECK (
+  project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  )
+  OR
+  project_id IN (
+    SELECT project_id FROM team_members
+    WHERE (member_user_id = auth.uid() OR member_email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND role = 'editor'
+    AND invitation_status = 'accepted'
+  )
+  OR
+  project_id IN (
+    SELECT p.id FROM projects p
+    JOIN team_members tm ON tm.owner_id = p.owner_id
+    WHERE (tm.member_user_id = auth.uid() OR tm.member_email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND tm.access_scope = 'workspace'
+    AND tm.role = 'editor'
+    AND tm.invitation_status = 'accepted'
+  )
+);
+
+CREATE POLICY "voice_takes_update"
+ON voice_takes FOR UPDATE
+USING (
+  project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  )
+  OR
+  project_id IN (
+    SELECT project_id FROM team_members
+    WHERE (member_user_id = auth.uid() OR member_email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND role = 'editor'
+    AND invitation_status = 'accepted'
+  )
+  OR
+  project_id IN (
+    SELECT p.id FROM projects p
+    JOIN team_members tm ON tm.owner_id = p.owner_id
+    WHERE (tm.member_user_id = auth.uid() OR tm.member_email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND tm.access_scope = 'workspace'
+    AND tm.role = 'editor'
+    AND tm.invitation_status = 'accepted'
+  )
+);
+
+CREATE POLICY "voice_takes_delete"
+ON voice_takes FOR DELETE
+USING (
+  project_id IN (
+    SELECT id FROM projects WHERE owner_id = auth.uid()
+  )
+  OR
+  project_id IN (
+    SELECT project_id FROM team_members
+    WHERE (member_user_id = auth.uid() OR member_email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND role = 'editor'
+    AND invitation_status = 'accepted'
+  )
+  OR
+  project_id IN (
+    SELECT p.id FROM projects p
+    JOIN team_members tm ON tm.owner_id = p.owner_id
+    WHERE (tm.member_user_id = auth.uid() OR tm.member_email = (SELECT email FROM auth.users WHERE id = auth.uid()))
+    AND tm.access_scope = 'workspace'
+    AND tm.role = 'editor'
+    AND tm.invitation_status = 'accepted'
+  )
+);
@@ -0,0 +1,8 @@
+-- ============================================
+-- VOICE TAKES: SPEAKERS
+-- Voice and delivery preset per named speaker of a multi-speaker script,
+-- so dialogue takes re-generate with the same cast.
+-- ============================================
+
+ALTER TABLE voice_takes
+ADD COLUMN IF NOT EXISTS speakers JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,93 @@
+-- ============================================
+-- PRONUNCIATIONS TABLE
+-- Workspace pronunciation lexicon for VoiceForge: how to say brand names,
+-- channel names and jargon. A workspace is identified by its owner's user id.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS pronunciations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  term TEXT NOT NULL,
+  -- Phonetic respelling ("NYE-kee"), or an IPA hint between slashes ("/ˈnaɪki/")
+  respelling TEXT NOT NULL,
+
+  created_by UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pronunciations_term ON pronunciations(owner_id, lower(term));
+
+-- ============================================
+-- HELPER FUNCTION: Get workspaces a user belongs to
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_accessible_workspace_ids(user_uuid UUID)
+RETURNS SETOF UUID AS $$
+BEGIN
+  RETURN QUERY
+  -- Own workspace
+  SELECT user_uuid
+  UNION
+  -- Workspace-wide access
+  SELECT owner_id FROM team_members
+  WHERE member_user_id = user_uuid
+  AND access_scope = 'workspace'
+  AND invitation_status = 'accepted';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- ROW LEVEL SECURITY POLICIES
+-- Everyone in the workspace can read its lexicon; only the owner and editors
+-- can change it
+-- ============================================
+
+ALTER TABLE pronunciations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "pronunciations_select"
+ON pronunciations FOR SELECT
+USING (owner_id IN (SELECT get_accessible_workspace_ids(auth.uid())));
+
+CREATE POLICY "pronunciations_insert"
+ON pronunciations FOR INSERT
+WITH CHECK (
+  owner_id = auth.uid()
+  OR
+  owner_id IN (
+    SELECT owner_id FROM team_members
+    WHERE member_user_id = auth.uid()
+    AND access_scope = 'workspace'
+    AND role = 'editor'
+    AND invitation_status = 'accepted'
+  )
+);
+
+CREATE POLICY "pronunciations_update"
+ON pronunciations FOR UPDATE
+USING (
+  owner_id = auth.uid()
+  OR
+  owner_id IN (
+    SELECT owner_id FROM team_members
+    WHERE member_user_id = auth.uid()
+    AND access_scope = 'workspace'
+    AND role = 'editor'
+    AND invitation_status = 'accepted'
+  )
+);
+
+CREATE POLICY "pronunciations_delete"
+ON pronunciations FOR DELETE
+USING (
+  owner_id = auth.uid()
+  OR
+  owner_id IN (
+    SELECT owner_id FROM team_members
+    WHERE member_user_id = auth.uid()
+    AND access_scope = 'workspace'
+    AND role = 'editor'
+    AND invitation_status = 'accepted'
+  )
+);
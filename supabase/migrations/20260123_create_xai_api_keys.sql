@@ -0,0 +1,29 @@
+-- ============================================
+-- XAI API KEYS TABLE
+-- One encrypted xAI API key per workspace (keyed by the owner's user id), used by
+-- everyone in the workspace. Keys are AES-GCM encrypted by the api-key edge
+-- function before they get here and are never sent back to the browser.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS xai_api_keys (
+  owner_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Base64 ciphertext and IV, encrypted with the XAI_KEY_ENCRYPTION_KEY function secret
+  encrypted_key TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  -- Shown in the UI so people can tell which key is in use
+  last4 TEXT NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- No policies on purpose: only the edge functions, through the service
+-- role, can read or write keys
+-- ============================================
+
+ALTER TABLE xai_api_keys ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON xai_api_keys FROM anon, authenticated;
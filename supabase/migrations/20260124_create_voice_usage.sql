@@ -0,0 +1,79 @@
+-- ============================================
+-- VOICE USAGE TABLE
+-- One row per successful generate-voice call, written by the edge function.
+-- Usage is charged to the workspace whose xAI key paid for it (owner_id).
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS voice_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Kept so the workspace owner can tell members apart
+  user_email TEXT,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+
+  voice TEXT NOT NULL,
+  characters INTEGER NOT NULL,
+  audio_seconds NUMERIC(10,2) NOT NULL,
+  -- At the price in effect when the row was written
+  estimated_cost NUMERIC(10,4) NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_usage_owner ON voice_usage(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_voice_usage_user ON voice_usage(user_id, created_at DESC);
+
+-- ============================================
+-- USAGE LIMITS TABLE
+-- Optional monthly soft limit per workspace. Once the month's estimated cost
+-- reaches it, new generations are refused; one already running finishes.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS usage_limits (
+  owner_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  monthly_cost_limit NUMERIC(10,2) NOT NULL CHECK (monthly_cost_limit > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- HELPER FUNCTION: Estimated cost of a workspace this calendar month (UTC)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_monthly_voice_cost(workspace_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(estimated_cost), 0)
+  FROM voice_usage
+  WHERE owner_id = workspace_id
+  AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- ROW LEVEL SECURITY POLICIES
+-- Rows are only written by the edge functions (service role). The workspace
+-- owner sees all of its usage, members see their own.
+-- ============================================
+
+ALTER TABLE voice_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "voice_usage_select"
+ON voice_usage FOR SELECT
+USING (owner_id = auth.uid() OR user_id = auth.uid());
+
+ALTER TABLE usage_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "usage_limits_select"
+ON usage_limits FOR SELECT
+USING (owner_id IN (SELECT get_accessible_workspace_ids(auth.uid())));
+
+CREATE POLICY "usage_limits_insert"
+ON usage_limits FOR INSERT
+WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "usage_limits_update"
+ON usage_limits FOR UPDATE
+USING (owner_id = auth.uid());
+
+CREATE POLICY "usage_limits_delete"
+ON usage_limits FOR DELETE
+USING (owner_id = auth.uid());
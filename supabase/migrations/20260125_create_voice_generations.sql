@@ -0,0 +1,46 @@
+-- ============================================
+-- VOICE GENERATIONS TABLE
+-- The app reads a long script as several generate-voice calls that share a
+-- generation id. The first of them to arrive is checked against the monthly
+-- limit and declares how many calls the generation has; up to that many
+-- follow-up calls then skip the check, so a generation that has started is
+-- never cut off part way. Reusing an id once its calls are spent gets no
+-- further exemptions.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS voice_generations (
+  id UUID NOT NULL,
+  owner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  remaining_calls INTEGER NOT NULL DEFAULT 0 CHECK (remaining_calls >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (owner_id, id)
+);
+
+-- ============================================
+-- HELPER FUNCTION
+-- Use up one of a recent generation's follow-up calls. True if there was one
+-- left; the decrement is atomic, so concurrent calls can't share one.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION claim_generation_call(workspace_id UUID, generation_uuid UUID)
+RETURNS BOOLEAN AS $$
+  WITH claimed AS (
+    UPDATE voice_generations
+    SET remaining_calls = remaining_calls - 1
+    WHERE owner_id = workspace_id
+    AND id = generation_uuid
+    AND remaining_calls > 0
+    AND created_at >= NOW() - INTERVAL '1 hour'
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION claim_generation_call(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- ROW LEVEL SECURITY POLICIES
+-- Only the edge functions (service role) read and write generations.
+-- ============================================
+
+ALTER TABLE voice_generations ENABLE ROW LEVEL SECURITY;
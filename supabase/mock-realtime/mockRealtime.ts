@@ -0,0 +1,199 @@
+// The mock realtime voice API itself: client secrets, scenarios and the session protocol. Kept free
+// of Deno and Node APIs so the Deno server (server.ts) and the tests (nodeServer.ts) run the same mock.
+//
+// Every response is a sequence of tones, one per word of the script, with the word sent as a
+// transcript delta just before its audio. Use an API key of the form "xai-mock-<scenario>" (or set a
+// default scenario) to script a failure instead - see SCENARIOS below.
+
+export const SAMPLE_RATE = 24000
+export const SECONDS_PER_WORD = 0.3
+export const GAP_SECONDS = 0.05
+
+export const SCENARIOS = {
+  ok: 'Read the script as tones',
+  '401': 'client_secrets rejects the key',
+  '402': 'client_secrets asks for billing',
+  '403': 'client_secrets reports realtime not enabled',
+  '429': 'client_secrets rate limits',
+  error: 'Send an error event instead of a response',
+  empty: 'Finish the response without any audio',
+  drop: 'Send half the audio, then close the socket mid-response',
+  silent: 'Accept the session and never answer (inactivity timeouts)',
+} as const
+
+export type Scenario = keyof typeof SCENARIOS
+
+export interface MockOptions {
+  defaultScenario?: string // for keys that don't name one
+  eventDelayMs?: number // pause between streamed events, so deltas arrive spread out like they do from xAI
+}
+
+// The socket of one realtime session, as whichever server runs the mock provides it
+export interface MockSocket {
+  isOpen(): boolean
+  send(data: string): void
+  close(code: number, reason: string): void
+}
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DEFAULT_EVENT_DELAY_MS = 10
+
+// "xai-mock-<scenario>" keys pick a scenario, anything else gets the default. Tokens carry the
+// scenario through to the WebSocket as "mock.<scenario>.<nonce>".
+export function scenarioFromKey(key: string | null | undefined, defaultScenario = 'ok'): Scenario {
+  const match = key?.match(/^(?:xai-mock-|mock\.)(\w+)/)
+  const name = match?.[1] ?? defaultScenario
+  return name in SCENARIOS ? name as Scenario : 'ok'
+}
+
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+// ============================================
+// CLIENT SECRETS
+// ============================================
+
+const TOKEN_ERRORS: Partial<Record<Scenario, { message: string; code: string }>> = {
+  '401': { message: 'Incorrect API key provided', code: 'invalid_api_key' },
+  '402': { message: 'Your team has run out of credits', code: 'insufficient_quota' },
+  '403': { message: 'The API key is not authorized for the realtime API', code: 'permission_denied' },
+  '429': { message: 'Rate limit exceeded', code: 'rate_limit_exceeded' },
+}
+
+export function handleClientSecrets(req: Request, { defaultScenario }: MockOptions = {}): Response {
+  const apiKey = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  const scenario = scenarioFromKey(apiKey, defaultScenario)
+  const failure = TOKEN_ERRORS[scenario]
+  if (failure) {
+    return json({ error: failure }, Number(scenario))
+  }
+
+  return json({
+    client_secret: {
+      value: `mock.${scenario}.${crypto.randomUUID()}`,
+      expires_at: Math.floor(Date.now() / 1000) + 300,
+    },
+  })
+}
+
+// ============================================
+// REALTIME SESSION
+// ============================================
+
+// The edge function passes the token as a subprotocol
+export function tokenFromRequest(req: Request): string | null {
+  const keyProtocol = requestedProtocols(req).find(p => p.startsWith('openai-insecure-api-key.'))
+  return keyProtocol?.slice('openai-insecure-api-key.'.length) ?? null
+}
+
+export function requestedProtocols(req: Request): string[] {
+  return (req.headers.get('sec-websocket-protocol') || '').split(',').map(p => p.trim()).filter(Boolean)
+}
+
+// The text after "SCRIPT TO READ:" in the session instructions, or all of them
+function scriptFromInstructions(instructions: string): string {
+  const marker = instructions.lastIndexOf('SCRIPT TO READ:')
+  return (marker >= 0 ? instructions.slice(marker + 'SCRIPT TO READ:'.length) : instructions).trim()
+}
+
+// PCM16 mono sine tone with short fades so words don't click, followed by a gap of silence
+function tone(frequency: number, seconds: number): Uint8Array {
+  const samples = Math.round(seconds * SAMPLE_RATE)
+  const gap = Math.round(GAP_SECONDS * SAMPLE_RATE)
+  const fade = Math.min(Math.round(0.01 * SAMPLE_RATE), samples / 2)
+  const view = new DataView(new ArrayBuffer((samples + gap) * 2))
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / fade, (samples - 1 - i) / fade)
+    const value = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * 0.2 * envelope
+    view.setInt16(i * 2, Math.round(value * 0x7fff), true)
+  }
+  return new Uint8Array(view.buffer)
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Speak the realtime protocol over an accepted socket. The server running the mock calls `open`
+ * once the socket is open and `receive` with each text message from the client.
+ */
+export function createSession(socket: MockSocket, scenario: Scenario, { eventDelayMs = DEFAULT_EVENT_DELAY_MS }: MockOptions = {}) {
+  let instructions = ''
+  const send = (event: Record<string, unknown>) => {
+    if (socket.isOpen()) socket.send(JSON.stringify(event))
+  }
+
+  const respond = async () => {
+    const responseId = `resp_${crypto.randomUUID()}`
+    send({ type: 'response.created', response: { id: responseId, status: 'in_progress' } })
+
+    if (scenario === 'error') {
+      send({
+        type: 'error',
+        error: { type: 'invalid_request_error', code: 'mock_failure', message: 'Mock realtime failure' },
+      })
+      return
+    }
+
+    const words = scenario === 'empty' ? [] : scriptFromInstructions(instructions).split(/\s+/).filter(Boolean)
+    for (let i = 0; i < words.length; i++) {
+      if (scenario === 'drop' && i === Math.ceil(words.length / 2)) {
+        socket.close(4000, 'Mock connection dropped')
+        return
+      }
+
+      send({ type: 'response.audio_transcript.delta', response_id: responseId, delta: i === 0 ? words[i] : ` ${words[i]}` })
+      // Step through a pentatonic-ish scale so neighbouring words are easy to tell apart
+      const frequency = 220 * Math.pow(2, [0, 2, 4, 7, 9][i % 5] / 12)
+      send({ type: 'response.audio.delta', response_id: responseId, delta: encodeBase64(tone(frequency, SECONDS_PER_WORD)) })
+      await delay(eventDelayMs)
+    }
+
+    send({ type: 'response.audio_transcript.done', response_id: responseId, transcript: words.join(' ') })
+    send({ type: 'response.done', response: { id: responseId, status: 'completed' } })
+  }
+
+  return {
+    open() {
+      send({ type: 'session.created', session: { id: `sess_${crypto.randomUUID()}` } })
+    },
+
+    receive(data: string) {
+      let message: { type?: string; session?: { instructions?: string } }
+      try {
+        message = JSON.parse(data)
+      } catch {
+        send({ type: 'error', error: { type: 'invalid_request_error', message: 'Invalid JSON' } })
+        return
+      }
+
+      if (scenario === 'silent') return
+
+      switch (message.type) {
+        case 'session.update':
+          instructions = message.session?.instructions ?? instructions
+          send({ type: 'session.updated', session: message.session ?? {} })
+          break
+        case 'response.create':
+          respond().catch(error => console.error('[MockRealtime] Response failed:', error))
+          break
+      }
+    },
+  }
+}
@@ -0,0 +1,84 @@
+// The mock realtime server under Node, for the tests: the same mock as server.ts, on a free port.
+
+import { createServer, IncomingMessage } from "node:http"
+import { AddressInfo } from "node:net"
+import { WebSocketServer } from "ws"
+import {
+  createSession,
+  handleClientSecrets,
+  json,
+  MockOptions,
+  scenarioFromKey,
+  tokenFromRequest,
+} from "./mockRealtime.ts"
+
+export interface MockRealtimeServer {
+  url: string // http://127.0.0.1:<port> - the XAI_API_URL to use
+  realtimeUrl: string // ws://127.0.0.1:<port>/v1/realtime
+  received: string[] // types of the events clients have sent, in order
+  close(): Promise<void>
+}
+
+function toRequest(req: IncomingMessage): Request {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(name, value)
+  }
+  return new Request(`http://localhost${req.url}`, { method: req.method, headers })
+}
+
+export async function startMockRealtime(options: MockOptions = {}): Promise<MockRealtimeServer> {
+  const received: string[] = []
+
+  const server = createServer(async (req, res) => {
+    const request = toRequest(req)
+    const { pathname } = new URL(request.url)
+    const response = req.method === 'POST' && pathname === '/v1/realtime/client_secrets'
+      ? handleClientSecrets(request, options)
+      : json({ error: { message: `No mock for ${req.method} ${pathname}` } }, 404)
+
+    res.writeHead(response.status, Object.fromEntries(response.headers))
+    res.end(await response.text())
+  })
+
+  const sockets = new WebSocketServer({
+    server,
+    path: '/v1/realtime',
+    handleProtocols: (protocols) => (protocols.has('realtime') ? 'realtime' : false),
+  })
+
+  sockets.on('connection', (socket, req) => {
+    const scenario = scenarioFromKey(tokenFromRequest(toRequest(req)), options.defaultScenario)
+    const session = createSession({
+      isOpen: () => socket.readyState === socket.OPEN,
+      send: (data) => socket.send(data),
+      close: (code, reason) => socket.close(code, reason),
+    }, scenario, options)
+
+    socket.on('message', (data) => {
+      const text = String(data)
+      try {
+        received.push(JSON.parse(text).type)
+      } catch {
+        received.push('invalid')
+      }
+      session.receive(text)
+    })
+    session.open()
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    realtimeUrl: `ws://127.0.0.1:${port}/v1/realtime`,
+    received,
+    close: () => new Promise<void>((resolve) => {
+      for (const socket of sockets.clients) socket.terminate()
+      sockets.close()
+      server.closeAllConnections()
+      server.close(() => resolve())
+    }),
+  }
+}
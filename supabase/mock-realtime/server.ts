@@ -0,0 +1,68 @@
+// Local stand-in for the xAI realtime voice API, for development without a key or network.
+//
+//   deno run --allow-net --allow-env supabase/mock-realtime/server.ts
+//
+// Serves POST /v1/realtime/client_secrets and the /v1/realtime WebSocket on port 8787
+// (MOCK_REALTIME_PORT). Point the edge functions at it with XAI_API_URL=http://localhost:8787.
+//
+// The mock itself lives in mockRealtime.ts. Use an API key of the form "xai-mock-<scenario>" (or set
+// MOCK_REALTIME_SCENARIO) to script a failure; MOCK_REALTIME_DELAY_MS spaces out the streamed events.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import {
+  corsHeaders,
+  createSession,
+  handleClientSecrets,
+  json,
+  MockOptions,
+  requestedProtocols,
+  scenarioFromKey,
+  SCENARIOS,
+  tokenFromRequest,
+} from "./mockRealtime.ts"
+
+const PORT = Number(Deno.env.get('MOCK_REALTIME_PORT') || 8787)
+
+const options: MockOptions = {
+  defaultScenario: Deno.env.get('MOCK_REALTIME_SCENARIO') || 'ok',
+  eventDelayMs: Number(Deno.env.get('MOCK_REALTIME_DELAY_MS') || 10),
+}
+
+function handleRealtime(req: Request): Response {
+  const scenario = scenarioFromKey(tokenFromRequest(req), options.defaultScenario)
+  const { socket, response } = Deno.upgradeWebSocket(
+    req,
+    requestedProtocols(req).includes('realtime') ? { protocol: 'realtime' } : {}
+  )
+
+  const session = createSession({
+    isOpen: () => socket.readyState === WebSocket.OPEN,
+    send: (data) => socket.send(data),
+    close: (code, reason) => socket.close(code, reason),
+  }, scenario, options)
+
+  socket.onopen = () => session.open()
+  socket.onmessage = (event) => session.receive(event.data)
+
+  return response
+}
+
+serve((req) => {
+  const { pathname } = new URL(req.url)
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method === 'POST' && pathname === '/v1/realtime/client_secrets') {
+    return handleClientSecrets(req, options)
+  }
+  if (pathname === '/v1/realtime' && req.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+    return handleRealtime(req)
+  }
+  return json({ error: { message: `No mock for ${req.method} ${pathname}` } }, 404)
+}, { port: PORT })
+
+console.log(`[MockRealtime] Listening on http://localhost:${PORT} (default scenario: ${options.defaultScenario})`)
+for (const [name, description] of Object.entries(SCENARIOS)) {
+  console.log(`  xai-mock-${name.padEnd(7)} ${description}`)
+}
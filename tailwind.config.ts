@@ -70,6 +70,10 @@ export default {
           fast: "hsl(var(--tag-fast))",
           pause: "hsl(var(--tag-pause))",
           emphasis: "hsl(var(--tag-emphasis))",
+          sad: "hsl(var(--tag-sad))",
+          happy: "hsl(var(--tag-happy))",
+          angry: "hsl(var(--tag-angry))",
+          voice: "hsl(var(--tag-voice))",
         },
         // VideoForge accent
         video: {
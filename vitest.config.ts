@@ -0,0 +1,24 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  plugins: [
+    // Edge functions import Deno modules by URL. Resolve them to empty modules so Node never
+    // fetches them; tests replace the ones a function needs with vi.mock.
+    {
+      name: "deno-url-imports",
+      enforce: "pre",
+      resolveId: (id) => (id.startsWith("https://") ? `\0${id}` : null),
+      load: (id) => (id.startsWith("\0https://") ? "export {}" : null),
+    },
+  ],
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/**/*.test.ts"],
+    environment: "node",
+  },
+});